@@ -0,0 +1,262 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import axe from "axe-core";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import ChartMaker from "./ChartMaker";
+
+// The whole page rendered in jsdom: axe-core checks it in each state (grid,
+// tier list, open modals), and the keyboard tests drive it the way a keyboard
+// or screen reader user would. Search requests go to a mocked fetch. jsdom has
+// no layout, so axe can't check color contrast here.
+
+const FIRST_PROMPT = "Favorite Game of all Time";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function searchPage() {
+  return Response.json({
+    results: [
+      {
+        id: "1",
+        title: "Cowboy Bebop",
+        year: 1998,
+        imageUrl: "https://s4.anilist.co/file/anilistcdn/media/anime/cover/large/1.jpg",
+        provider: "anime",
+      },
+      { id: "5", title: "Cowboy Bebop: The Movie", year: 2001, imageUrl: "", provider: "anime" },
+    ],
+    hasMore: false,
+  });
+}
+
+// Violations as "rule: selectors", so a failure says what and where
+async function axeViolations() {
+  const { violations } = await axe.run(document.body);
+  return violations.map((v) => `${v.id}: ${v.nodes.map((n) => n.target.join(" ")).join(", ")}`);
+}
+
+function cell(name: string | RegExp) {
+  return within(screen.getByRole("group", { name: /^Chart cells/ })).getByRole("button", { name });
+}
+
+function pressKey(key: string, target: Element = document.activeElement ?? document.body) {
+  fireEvent.keyDown(target, { key });
+}
+
+// jsdom has no layout: focusTrap skips elements without an offsetParent (hidden
+// ones), which is all of them, and there's no scrollIntoView
+const offsetParent = Object.getOwnPropertyDescriptor(HTMLElement.prototype, "offsetParent");
+
+beforeAll(() => {
+  Object.defineProperty(HTMLElement.prototype, "offsetParent", {
+    configurable: true,
+    get(this: HTMLElement) {
+      return this.parentElement;
+    },
+  });
+  Element.prototype.scrollIntoView = () => {};
+});
+
+afterAll(() => {
+  if (offsetParent) Object.defineProperty(HTMLElement.prototype, "offsetParent", offsetParent);
+  delete (Element.prototype as Partial<Element>).scrollIntoView;
+});
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  fetchMock.mockImplementation(async () => searchPage());
+});
+
+afterEach(() => {
+  cleanup();
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
+
+describe("ChartMaker accessibility", () => {
+  it("has no axe violations in the grid view", async () => {
+    render(<ChartMaker />);
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("has no axe violations in the tier list view", async () => {
+    render(<ChartMaker />);
+    fireEvent.change(screen.getByRole("combobox", { name: "Chart mode" }), {
+      target: { value: "tier" },
+    });
+
+    expect(screen.getByText(/^Unranked/)).toBeTruthy();
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it.each(["Templates", "Bulk Fill"])("has no axe violations with %s open", async (button) => {
+    render(<ChartMaker />);
+    fireEvent.click(screen.getByRole("button", { name: button }));
+    expect(await axeViolations()).toEqual([]);
+  });
+});
+
+describe("ChartMaker keyboard use", () => {
+  it("names each cell by its prompt and what's in it", () => {
+    render(<ChartMaker />);
+    expect(cell(`${FIRST_PROMPT}: empty`)).toBeTruthy();
+    expect(screen.getAllByRole("button", { name: /: empty$/ })).toHaveLength(18);
+  });
+
+  it("moves the selection and the single tab stop with the arrow keys", () => {
+    render(<ChartMaker />);
+    const first = cell(`${FIRST_PROMPT}: empty`);
+    expect(first.tabIndex).toBe(0);
+
+    fireEvent.click(first);
+    expect(first.getAttribute("aria-pressed")).toBe("true");
+
+    pressKey("ArrowRight", first);
+    const second = cell("Favorite Series: empty");
+    expect(document.activeElement).toBe(second);
+    expect(second.getAttribute("aria-pressed")).toBe("true");
+    expect(second.tabIndex).toBe(0);
+    expect(first.tabIndex).toBe(-1);
+
+    // Six columns, so down from the second cell is the eighth
+    pressKey("ArrowDown", second);
+    expect(document.activeElement).toBe(cell("You Love Everyone Hates: empty"));
+
+    // Nothing past the edge
+    pressKey("ArrowUp");
+    pressKey("ArrowUp");
+    expect(document.activeElement).toBe(second);
+  });
+
+  it("searches with /, announces results, traps focus and hands it back", async () => {
+    render(<ChartMaker />);
+    const first = cell(`${FIRST_PROMPT}: empty`);
+    fireEvent.click(first);
+    first.focus();
+
+    pressKey("/", first);
+    const dialog = screen.getByRole("dialog");
+    const input = within(dialog).getByRole("combobox", { name: /Search/ });
+    expect(document.activeElement).toBe(input);
+
+    fireEvent.change(input, { target: { value: "bebop" } });
+    pressKey("Enter", input);
+    await waitFor(() =>
+      expect(within(dialog).getByRole("status").textContent).toBe('2 results for "bebop"')
+    );
+    expect(String(fetchMock.mock.calls[0][0])).toMatch(/^\/api\/search\/\w+\?q=bebop/);
+    expect(await axeViolations()).toEqual([]);
+
+    // Tab wraps around inside the dialog in both directions
+    const closeButton = within(dialog).getByRole("button", { name: "Close" });
+    const options = within(within(dialog).getByRole("listbox")).getAllByRole("option");
+    options.at(-1)!.focus();
+    pressKey("Tab");
+    expect(document.activeElement).toBe(closeButton);
+    fireEvent.keyDown(closeButton, { key: "Tab", shiftKey: true });
+    expect(document.activeElement).toBe(options.at(-1));
+
+    pressKey("Escape");
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(first);
+  });
+
+  it("fills a cell from the search results and clears it with Delete", async () => {
+    render(<ChartMaker />);
+    const first = cell(`${FIRST_PROMPT}: empty`);
+    fireEvent.click(first);
+
+    pressKey("/", first);
+    const input = screen.getByRole("combobox", { name: /Search/ });
+    fireEvent.change(input, { target: { value: "bebop" } });
+    pressKey("Enter", input);
+    await waitFor(() =>
+      expect(within(screen.getByRole("listbox")).getAllByRole("option")).toHaveLength(2)
+    );
+
+    // Arrow keys pick a result without leaving the input
+    pressKey("ArrowDown", input);
+    expect(input.getAttribute("aria-activedescendant")).toBe("search-result-0");
+    pressKey("Enter", input);
+
+    const filled = cell(`${FIRST_PROMPT}: Cowboy Bebop (1998)`);
+    expect(screen.queryByRole("dialog")).toBeNull();
+    // The editor now shows the cover's crop controls
+    expect(await axeViolations()).toEqual([]);
+
+    act(() => filled.focus());
+    pressKey("Delete", filled);
+    expect(cell(`${FIRST_PROMPT}: empty`)).toBe(filled);
+  });
+
+  it("searches again instead of picking a result from an older query", async () => {
+    render(<ChartMaker />);
+    const first = cell(`${FIRST_PROMPT}: empty`);
+    fireEvent.click(first);
+
+    pressKey("/", first);
+    const input = screen.getByRole("combobox", { name: /Search/ });
+    fireEvent.change(input, { target: { value: "bebop" } });
+    pressKey("Enter", input);
+    await waitFor(() =>
+      expect(within(screen.getByRole("listbox")).getAllByRole("option")).toHaveLength(2)
+    );
+    pressKey("ArrowDown", input);
+
+    fireEvent.change(input, { target: { value: "bebop movie" } });
+    expect(input.getAttribute("aria-activedescendant")).toBeNull();
+    pressKey("ArrowDown", input);
+    pressKey("Enter", input);
+
+    expect(screen.getByRole("dialog")).toBeTruthy();
+    expect(String(fetchMock.mock.lastCall?.[0])).toMatch(/q=bebop(\+|%20)movie/);
+    expect(cell(`${FIRST_PROMPT}: empty`)).toBe(first);
+  });
+
+  it.each(["Templates", "Bulk Fill"])("closes %s with Escape and hands focus back", (name) => {
+    render(<ChartMaker />);
+    const button = screen.getByRole("button", { name });
+    button.focus();
+    fireEvent.click(button);
+
+    const dialog = screen.getByRole("dialog", { name: new RegExp(name, "i") });
+    expect(dialog.getAttribute("aria-modal")).toBe("true");
+    expect(dialog.contains(document.activeElement)).toBe(true);
+
+    pressKey("Escape");
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(button);
+  });
+
+  it("leaves typed characters alone", () => {
+    render(<ChartMaker />);
+    fireEvent.click(cell(`${FIRST_PROMPT}: empty`));
+
+    pressKey("/", screen.getByRole("textbox", { name: "Chart title" }));
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+});
+
+describe("ChartMaker grid size", () => {
+  it("waits for a number while the rows field is being retyped", () => {
+    render(<ChartMaker />);
+    const rows = screen.getByRole("spinbutton", { name: "Rows" }) as HTMLInputElement;
+
+    fireEvent.change(rows, { target: { value: "" } });
+    expect(screen.getAllByRole("button", { name: /: empty$/ })).toHaveLength(18);
+    fireEvent.blur(rows);
+    expect(rows.value).toBe("3");
+  });
+
+  it("brings back the cells a smaller grid cut off", () => {
+    render(<ChartMaker />);
+    const rows = screen.getByRole("spinbutton", { name: "Rows" });
+
+    fireEvent.change(rows, { target: { value: "1" } });
+    expect(screen.getAllByRole("button", { name: /: empty$/ })).toHaveLength(6);
+    fireEvent.change(rows, { target: { value: "3" } });
+    expect(cell("You Love Everyone Hates: empty")).toBeTruthy();
+    expect(screen.getAllByRole("button", { name: /: empty$/ })).toHaveLength(18);
+  });
+});
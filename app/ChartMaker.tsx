@@ -0,0 +1,1031 @@
+"use client";
+
+import { useReducer, useRef, useState } from "react";
+import {
+  defaultChartState,
+  type CellData,
+  type ChartState,
+  type SwapMode,
+} from "@/lib/chart";
+import { chartFileName, exportChartFile, importChartFile } from "@/lib/chartFile";
+import { DEFAULT_EXPORT_OPTIONS, type ExportOptions } from "@/lib/exportImage";
+import { ChartSchemaError } from "@/lib/chartSchema";
+import { chartReducer } from "@/lib/chartReducer";
+import {
+  EMPTY_HISTORY,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type ChartHistory,
+} from "@/lib/history";
+import { proxiedImageUrl } from "@/lib/imageProxy";
+import { UploadImageError, processUploadImage } from "@/lib/uploadImage";
+import { backgroundStyle, fontFamily, type ChartTheme } from "@/lib/themes";
+import {
+  getSearchProvider,
+  isSearchProviderId,
+  type SearchProviderId,
+} from "@/lib/search/providers";
+import { LruCache } from "@/lib/lruCache";
+import type { BulkMatch } from "@/lib/bulkFill";
+import { type Artwork, type SearchPage, type SearchResult } from "@/lib/search/types";
+import { MAX_SHARE_URL_LENGTH, buildShareLink } from "@/lib/shareLink";
+import {
+  ARROW_KEY_DIRECTIONS,
+  CELL_ASPECTS,
+  LAYOUT_PRESETS,
+  cellCount,
+  clampGridSize,
+  getPreset,
+  neighborIndex,
+  type CellAspect,
+  type GridDirection,
+} from "@/lib/layouts";
+import {
+  POOL_ROW,
+  moveTierItem,
+  tierItemAt,
+  type ChartMode,
+  type TierRow,
+  type TierSlot,
+  type TierTarget,
+} from "@/lib/tierList";
+import { shuffleTemplate, type ChartTemplate } from "@/lib/templates";
+import { applyRoomOps, type RoomOp, type RoomRegisters } from "@/lib/room";
+import ArtworkPicker from "@/components/ArtworkPicker";
+import BulkFillModal from "@/components/BulkFillModal";
+import ChartGrid from "@/components/ChartGrid";
+import EditorPanel from "@/components/EditorPanel";
+import ExportDialog from "@/components/ExportDialog";
+import GridSizeInput from "@/components/GridSizeInput";
+import RoomBar from "@/components/RoomBar";
+import SearchModal from "@/components/SearchModal";
+import TemplatesModal from "@/components/TemplatesModal";
+import ThemePanel from "@/components/ThemePanel";
+import type { TierInteraction } from "@/components/TierItem";
+import TierPanel from "@/components/TierPanel";
+import TierPool from "@/components/TierPool";
+import TierRows from "@/components/TierRows";
+import { baseFont, black, borderGray, buttonStyle, inputStyle } from "@/components/styles";
+import { useChartShortcuts } from "@/hooks/useChartShortcuts";
+import { useDrafts } from "@/hooks/useDrafts";
+import { useRoom } from "@/hooks/useRoom";
+import { useTierDragDrop } from "@/hooks/useTierDragDrop";
+
+// How long search result pages are reused by the search modal and bulk fill
+const SEARCH_CLIENT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export default function ChartMaker() {
+  // ====== Core state ======
+  // All chart content goes through chartReducer (see lib/chartReducer.ts)
+  const [chart, dispatch] = useReducer(chartReducer, undefined, defaultChartState);
+  const { title: chartTitle, presetId, layout, theme, cells, mode, tierList } = chart;
+
+  // The grid selects by cell index, the tier list by (row, index); the editor
+  // panel, search and uploads work on whichever one the current mode uses
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [selectedTierItem, setSelectedTierItem] = useState<TierSlot | null>(null);
+  const selectedCell =
+    mode === "tier"
+      ? (selectedTierItem && tierItemAt(tierList, selectedTierItem)) || null
+      : selectedIndex !== null
+        ? cells[selectedIndex]
+        : null;
+  // Groups typing/cropping on one cell into a single undo step
+  const selectionKey =
+    mode === "tier" ? `${selectedTierItem?.row}:${selectedTierItem?.index}` : selectedIndex;
+
+  function updateSelected(patch: Partial<CellData>) {
+    if (mode === "tier") {
+      if (!selectedTierItem) return;
+      dispatch({ type: "updateTierItem", slot: selectedTierItem, patch });
+      return;
+    }
+    if (selectedIndex === null) return;
+    dispatch({ type: "updateCell", index: selectedIndex, patch });
+  }
+
+  // Edits from the editor panel; `undoKey` groups rapid changes to one control
+  function editSelected(patch: Partial<CellData>, undoKey?: string) {
+    checkpoint(undoKey ? `${undoKey}:${selectionKey}` : null);
+    updateSelected(patch);
+  }
+
+  // ====== Undo / redo ======
+  const [history, setHistory] = useState<ChartHistory>(EMPTY_HISTORY);
+
+  // Call before any chart edit. Edits sharing a key in quick succession (typing)
+  // become a single undo step.
+  function checkpoint(key: string | null = null) {
+    setHistory((prev) => recordHistory(prev, chart, key));
+  }
+
+  function restoreSnapshot(state: ChartState) {
+    dispatch({ type: "load", state });
+    setSelectedIndex((prev) => (prev !== null && prev < state.cells.length ? prev : null));
+    setSelectedTierItem((prev) => (prev && tierItemAt(state.tierList, prev) ? prev : null));
+  }
+
+  function undo() {
+    const step = undoHistory(history, chart);
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.state);
+  }
+
+  function redo() {
+    const step = redoHistory(history, chart);
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.state);
+  }
+
+  // One-line status shown under the controls (share, import/export results)
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // ====== Collaborative room (see hooks/useRoom.ts) ======
+  // Remote edits also go into the undo history, so undo only takes back our own
+  function applyRemoteOps(ops: RoomOp[], registers: RoomRegisters) {
+    dispatch({ type: "applyRoomOps", ops, registers });
+    const apply = (state: ChartState) => applyRoomOps(state, ops, registers);
+    setHistory((prev) => ({ ...prev, past: prev.past.map(apply), future: prev.future.map(apply) }));
+  }
+
+  const room = useRoom({
+    chart,
+    selected: mode === "grid" ? selectedIndex : null,
+    onRemoteOps: applyRemoteOps,
+    onNotice: setNotice,
+  });
+
+  // ====== Drafts (see hooks/useDrafts.ts) ======
+  // Switching to another chart starts a fresh undo history (and leaves any room,
+  // so the other chart isn't pushed into it)
+  function showChart(state: ChartState) {
+    if (room.roomId) room.leaveRoom();
+    dispatch({ type: "load", state });
+    setSelectedIndex(null);
+    setSelectedTierItem(null);
+    setHistory(EMPTY_HISTORY);
+  }
+
+  const {
+    draftIndex,
+    isHydrated,
+    draftError,
+    switchDraft,
+    addDraft,
+    createDraft,
+    renameDraft,
+    duplicateDraft,
+    deleteDraft,
+  } = useDrafts({ chart, showChart, onNotice: setNotice, onJoinRoom: room.joinRoom });
+
+  // ====== Share link ======
+  async function copyShareLink() {
+    try {
+      const link = await buildShareLink(chart, window.location.href);
+      if (link.tooLong) {
+        setNotice(
+          `This chart is too big for a link (${link.url.length} of ${MAX_SHARE_URL_LENGTH} characters). Try shorter labels or a smaller grid.`
+        );
+        return;
+      }
+
+      await navigator.clipboard.writeText(link.url);
+
+      const lost = link.lostImageCells.map((i) => i + 1);
+      const noun = mode === "tier" ? "item" : "cell";
+      setNotice(
+        lost.length
+          ? `Link copied. Uploaded images can't be shared by link, so ${noun}${lost.length > 1 ? "s" : ""} ${lost.join(", ")} will show without an image.`
+          : "Link copied."
+      );
+    } catch (err) {
+      console.error(err);
+      setNotice("Could not copy the share link.");
+    }
+  }
+
+  // ====== JSON chart files (portable backup, uploads embedded) ======
+  const chartFileInputRef = useRef<HTMLInputElement | null>(null);
+
+  async function downloadChartFile() {
+    try {
+      const blob = await exportChartFile(chart);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.download = chartFileName(chartTitle);
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setNotice("Could not export the chart file.");
+    }
+  }
+
+  // Imported charts open as a new draft next to the existing ones
+  async function loadChartFile(file: File) {
+    let state: ChartState;
+    try {
+      state = await importChartFile(file);
+    } catch (err) {
+      setNotice(
+        err instanceof ChartSchemaError
+          ? `Import failed: ${err.message}`
+          : "Import failed: the file could not be read."
+      );
+      return;
+    }
+
+    if (await addDraft(state, state.title || file.name)) setNotice(`Imported "${file.name}".`);
+  }
+
+  // ====== Grid layout ======
+  function applyPreset(id: string) {
+    const preset = getPreset(id);
+    if (!preset) return;
+
+    checkpoint();
+    dispatch({ type: "applyPreset", presetId: preset.id });
+    setSelectedIndex((prev) => (prev !== null && prev < cellCount(preset.layout) ? prev : null));
+  }
+
+  function resizeGrid(patch: { rows?: number; cols?: number }) {
+    const count =
+      clampGridSize(patch.rows ?? layout.rows) * clampGridSize(patch.cols ?? layout.cols);
+
+    checkpoint("grid");
+    dispatch({ type: "resizeGrid", ...patch });
+    setSelectedIndex((prev) => (prev !== null && prev < count ? prev : null));
+  }
+
+  function setAspect(aspect: CellAspect) {
+    checkpoint();
+    dispatch({ type: "setAspect", aspect });
+  }
+
+  // ====== Question templates ======
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+
+  // Rewrites title, grid and labels; covers already placed stay in their cells, or
+  // stay hidden past a smaller grid until it grows again
+  function applyTemplate(template: ChartTemplate, shuffle = false) {
+    const applied = shuffle ? shuffleTemplate(template) : template;
+    const count = cellCount(applied.layout);
+
+    checkpoint();
+    dispatch({ type: "applyTemplate", template: applied });
+    setSelectedIndex((prev) => (prev !== null && prev < count ? prev : null));
+    setIsTemplatesOpen(false);
+  }
+
+  // ====== Upload your own image ======
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Used by the Upload button (selected cell), by files dropped onto a cell and by
+  // pasted images. In tier list mode the images go to `tierTarget` instead: the
+  // selected item, or new items at the end of a row or the pool. The batch is one
+  // undo step, taken before the files are read so it's the chart as it was then.
+  async function handleUploadImages(
+    files: File[],
+    index = selectedIndex,
+    tierTarget: TierTarget = selectedTierItem ?? { row: POOL_ROW }
+  ) {
+    if (files.length === 0 || (mode === "grid" && index === null)) return;
+
+    checkpoint();
+    // e.g. data:image/webp;base64,....
+    const read = await Promise.allSettled(files.map((file) => processUploadImage(file)));
+    for (const result of read) {
+      if (result.status === "rejected") continue;
+      if (mode === "tier") {
+        placeTierImage(tierTarget, { imageUrl: result.value, source: undefined, crop: undefined });
+      } else {
+        dispatch({ type: "setImage", index: index!, imageUrl: result.value });
+      }
+    }
+
+    const failed = read.find((result) => result.status === "rejected");
+    if (failed) {
+      const err = failed.reason;
+      alert(err instanceof UploadImageError ? err.message : "Failed to read the image file.");
+    }
+  }
+
+  // ====== Moving cells (drag and drop, or the arrow buttons in the editor) ======
+  const [swapMode, setSwapMode] = useState<SwapMode>("cell");
+
+  function moveCell(from: number, to: number) {
+    checkpoint();
+    dispatch({ type: "swapCells", from, to, mode: swapMode });
+    setSelectedIndex(to);
+  }
+
+  function moveSelected(direction: GridDirection) {
+    if (selectedIndex === null) return;
+    const to = neighborIndex(layout, selectedIndex, direction);
+    if (to !== null) moveCell(selectedIndex, to);
+  }
+
+  // ====== Keyboard navigation (grid cells handle their own, see ChartGrid) ======
+  const tierItemRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  // Left/right within a row; up/down to the nearest non-empty row (the pool is last)
+  function handleTierItemKeyDown(e: React.KeyboardEvent, slot: TierSlot) {
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+    if (!direction || e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault();
+
+    const itemsIn = (row: number) => (row === POOL_ROW ? tierList.pool : tierList.rows[row].items);
+    let to: TierSlot | null = null;
+    if (direction === "left" || direction === "right") {
+      const index = slot.index + (direction === "left" ? -1 : 1);
+      if (index >= 0 && index < itemsIn(slot.row).length) to = { row: slot.row, index };
+    } else {
+      const order = [...tierList.rows.keys(), POOL_ROW];
+      const step = direction === "up" ? -1 : 1;
+      for (let i = order.indexOf(slot.row) + step; i >= 0 && i < order.length; i += step) {
+        const count = itemsIn(order[i]).length;
+        if (count) {
+          to = { row: order[i], index: Math.min(slot.index, count - 1) };
+          break;
+        }
+      }
+    }
+
+    if (!to) return;
+    setSelectedTierItem(to);
+    tierItemRefs.current.get(`${to.row}:${to.index}`)?.focus();
+  }
+
+  // ====== Tier list ======
+  function changeMode(next: ChartMode) {
+    if (next === mode) return;
+    checkpoint();
+    dispatch({ type: "setMode", mode: next });
+    setSelectedIndex(null);
+    setSelectedTierItem(null);
+  }
+
+  // Replaces the image of the item at `target.index`, or adds a new item at the end of the row
+  function placeTierImage(target: TierTarget, patch: Partial<CellData>) {
+    const { row, index } = target;
+    if (index === undefined) {
+      dispatch({ type: "insertTierItems", target, items: [{ label: "", ...patch }] });
+    } else {
+      dispatch({ type: "updateTierItem", slot: { row, index }, patch });
+    }
+  }
+
+  // The reducer moves the item in the list as it is by then; the selection follows
+  // it to where it lands in the list as rendered
+  function moveTierItemTo(from: TierSlot, to: TierTarget) {
+    checkpoint();
+    dispatch({ type: "moveTierItem", from, to });
+    setSelectedTierItem(moveTierItem(tierList, from, to).slot);
+  }
+
+  function moveSelectedTierItem(to: TierTarget) {
+    if (selectedTierItem) moveTierItemTo(selectedTierItem, to);
+  }
+
+  function removeSelectedTierItem() {
+    if (!selectedTierItem) return;
+    checkpoint();
+    dispatch({ type: "removeTierItem", slot: selectedTierItem });
+    setSelectedTierItem(null);
+  }
+
+  function addTierRow() {
+    checkpoint();
+    dispatch({ type: "addTier" });
+  }
+
+  // `undoKey` groups rapid changes to one control (color pickers, typing)
+  function updateTierRow(row: number, patch: Partial<Omit<TierRow, "items">>, undoKey: string) {
+    checkpoint(undoKey);
+    dispatch({ type: "updateTier", row, patch });
+  }
+
+  // Selections point at positions, so anything that reshuffles rows drops them
+  function removeTierRow(row: number) {
+    checkpoint();
+    dispatch({ type: "removeTier", row });
+    setSelectedTierItem(null);
+  }
+
+  function moveTierRow(row: number, to: number) {
+    checkpoint();
+    dispatch({ type: "moveTier", row, to });
+    setSelectedTierItem(null);
+  }
+
+  // Files dropped on an item replace its image; anywhere else they're added to the row
+  const tierDragDrop = useTierDragDrop({
+    onDropFiles: (files, target) =>
+      target.index !== undefined
+        ? handleUploadImages(files.slice(0, 1), null, target)
+        : handleUploadImages(files, null, target),
+    onMoveItem: moveTierItemTo,
+  });
+
+  // ====== Image export (title + grid only) ======
+  const exportRef = useRef<HTMLDivElement | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Kept here so the options survive closing the dialog (see ExportDialog)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  // ====== Search modal state ======
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchType, setSearchType] = useState<SearchProviderId>("game");
+  // Result pages by request URL, shared by the search modal and bulk fill
+  const [searchCache] = useState(() => new LruCache<SearchPage>(100, SEARCH_CLIENT_CACHE_TTL_MS));
+
+  function openSearch() {
+    setIsSearchOpen(true);
+  }
+
+  // Store the same-origin proxy URL so the cover can be exported without CORS issues
+  function cellFromResult(r: SearchResult): Partial<CellData> {
+    return {
+      imageUrl: r.imageUrl ? proxiedImageUrl(r.imageUrl) : undefined,
+      source: {
+        provider: r.provider,
+        id: r.id,
+        title: r.title,
+        year: r.year,
+        url: r.sourceUrl?.startsWith("https://") ? r.sourceUrl : undefined,
+      },
+      crop: undefined,
+    };
+  }
+
+  function pickResult(r: SearchResult) {
+    if (mode === "grid" && selectedIndex === null) return;
+    checkpoint();
+    // With nothing selected, a tier list gets a new cover in the unranked pool
+    if (mode === "tier") placeTierImage(selectedTierItem ?? { row: POOL_ROW }, cellFromResult(r));
+    else updateSelected(cellFromResult(r));
+    setIsSearchOpen(false);
+  }
+
+  // ====== Bulk fill (paste a list of titles, review matches, apply at once) ======
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+  // Kept here so the pasted list survives closing the modal (see BulkFillModal)
+  const [bulkText, setBulkText] = useState("");
+
+  // Nothing is written until here, and the whole fill is one undo step
+  function applyBulkFill(chosen: BulkMatch[]) {
+    if (chosen.length === 0) return;
+
+    const patches = chosen.map((m) => ({
+      index: m.cellIndex,
+      patch: cellFromResult(m.candidates[m.chosen]),
+    }));
+    checkpoint();
+    dispatch({ type: "updateCells", patches });
+    setIsBulkOpen(false);
+    setNotice(`Filled ${patches.length} cell${patches.length === 1 ? "" : "s"} from the list.`);
+  }
+
+  // ====== Alternate covers (other artwork for the cell's search result) ======
+  const [isArtworkOpen, setIsArtworkOpen] = useState(false);
+
+  const selectedSource = selectedCell?.source;
+  const canPickArtwork = Boolean(
+    selectedSource &&
+      isSearchProviderId(selectedSource.provider) &&
+      getSearchProvider(selectedSource.provider).artwork
+  );
+
+  function openArtworkPicker() {
+    if (selectedSource) setIsArtworkOpen(true);
+  }
+
+  function pickArtwork(a: Artwork) {
+    if (!selectedCell) return;
+    checkpoint();
+    // Keeps `source` so the picker can be reopened to switch again
+    updateSelected({ imageUrl: proxiedImageUrl(a.imageUrl), crop: undefined });
+    setIsArtworkOpen(false);
+  }
+
+  function clearImage() {
+    if (!selectedCell?.imageUrl) return;
+    checkpoint();
+    updateSelected({ imageUrl: undefined, source: undefined, crop: undefined });
+  }
+
+  // ====== Keyboard shortcuts ======
+  // Each modal closes itself on Escape and locks the page scroll while open
+  const isModalOpen =
+    isSearchOpen || isArtworkOpen || isExportOpen || isBulkOpen || isTemplatesOpen;
+
+  useChartShortcuts({
+    // Not while searching, so Ctrl+Z edits the query instead, nor while exporting,
+    // so the chart can't change under the captured image
+    undoEnabled: !isSearchOpen && !isExportOpen,
+    editEnabled: !isModalOpen,
+    // A tier list can take new covers into the pool without a selection
+    canAdd: mode === "tier" || selectedIndex !== null,
+    canClear: Boolean(selectedCell?.imageUrl),
+    onUndo: undo,
+    onRedo: redo,
+    onSearch: openSearch,
+    onUpload: () => fileInputRef.current?.click(),
+    onClear: clearImage,
+    onPasteImage: (file) => handleUploadImages([file]),
+  });
+
+  // ====== Theme (exported chart styling, edited in ThemePanel) ======
+  function setTheme(next: ChartTheme) {
+    checkpoint();
+    dispatch({ type: "setTheme", theme: next });
+  }
+
+  // `key` groups rapid changes to one control (color pickers, sliders) into one undo step
+  function updateTheme(patch: Partial<ChartTheme>, key: string) {
+    checkpoint(`theme:${key}`);
+    dispatch({ type: "updateTheme", patch });
+  }
+
+  // ====== Layout choices ======
+  const gridMaxWidth = 1100;
+
+  // Tier rows and the pool share selection, keyboard and drag handling (see TierItem)
+  const tierInteraction: TierInteraction = {
+    selected: isExportOpen ? null : selectedTierItem,
+    itemRef: (key, el) => {
+      if (el) tierItemRefs.current.set(key, el);
+      else tierItemRefs.current.delete(key);
+    },
+    onSelect: setSelectedTierItem,
+    onKeyDown: handleTierItemKeyDown,
+    ...tierDragDrop,
+  };
+
+  return (
+    <main style={{ padding: 24, fontFamily: baseFont, color: black }}>
+      <div style={{ maxWidth: 1500, margin: "0 auto" }}>
+
+        {/* SEO-only H1 (hidden visually, readable by search engines) */}
+        <h1 style={{ position: "absolute", left: "-9999px" }}>
+          Anime & Video Game Chart Maker
+        </h1>
+
+
+        {/* Controls row (NOT exported) */}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 12,
+            flexWrap: "wrap",
+            marginBottom: 12,
+          }}
+        >
+          <div style={{ fontWeight: 900, color: black }}>Controls</div>
+
+          <div style={{ display: "flex", gap: 8 }}>
+            <button
+              onClick={undo}
+              disabled={history.past.length === 0}
+              title="Undo (Ctrl+Z)"
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 12px",
+                opacity: history.past.length === 0 ? 0.4 : 1,
+              }}
+            >
+              Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={history.future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 12px",
+                opacity: history.future.length === 0 ? 0.4 : 1,
+              }}
+            >
+              Redo
+            </button>
+          </div>
+
+          {/* Drafts: every chart autosaves into the selected draft */}
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <select
+              value={draftIndex.activeId ?? ""}
+              onChange={(e) => switchDraft(e.target.value)}
+              disabled={!isHydrated}
+              style={{
+                ...inputStyle,
+                height: 40,
+                fontWeight: 800,
+                cursor: "pointer",
+                maxWidth: 220,
+              }}
+              title="Saved charts"
+              aria-label="Saved charts"
+            >
+              {draftIndex.drafts.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+
+            <button
+              onClick={createDraft}
+              disabled={!isHydrated}
+              style={{ ...buttonStyle, height: 40, padding: "0 12px" }}
+            >
+              New
+            </button>
+            <button
+              onClick={renameDraft}
+              disabled={!isHydrated}
+              style={{ ...buttonStyle, height: 40, padding: "0 12px" }}
+            >
+              Rename
+            </button>
+            <button
+              onClick={duplicateDraft}
+              disabled={!isHydrated}
+              style={{ ...buttonStyle, height: 40, padding: "0 12px" }}
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={deleteDraft}
+              disabled={!isHydrated}
+              style={{ ...buttonStyle, height: 40, padding: "0 12px" }}
+            >
+              Delete
+            </button>
+
+            {draftError ? (
+              <div style={{ color: "crimson", fontSize: 12 }}>{draftError}</div>
+            ) : null}
+          </div>
+
+          {/* Layout: grid or tier list, preset, rows x cols, cell shape */}
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <select
+              value={mode}
+              onChange={(e) => changeMode(e.target.value as ChartMode)}
+              style={{ ...inputStyle, height: 40, fontWeight: 800, cursor: "pointer" }}
+              title="Chart mode"
+              aria-label="Chart mode"
+            >
+              <option value="grid">Grid chart</option>
+              <option value="tier">Tier list</option>
+            </select>
+
+            {mode === "grid" ? (
+              <>
+                <select
+                  value={presetId}
+                  onChange={(e) => applyPreset(e.target.value)}
+                  style={{ ...inputStyle, height: 40, fontWeight: 800, cursor: "pointer" }}
+                  title="Layout preset"
+                  aria-label="Layout preset"
+                >
+                  {LAYOUT_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                  {presetId === "custom" ? <option value="custom">Custom</option> : null}
+                </select>
+
+                <button
+                  onClick={() => setIsTemplatesOpen(true)}
+                  disabled={!isHydrated}
+                  style={{ ...buttonStyle, height: 40, padding: "0 12px" }}
+                  title="Question sets: title, grid and a prompt for every cell"
+                >
+                  Templates
+                </button>
+
+                <GridSizeInput
+                  value={layout.rows}
+                  onChange={(rows) => resizeGrid({ rows })}
+                  label="Rows"
+                />
+                <span style={{ fontWeight: 800 }}>x</span>
+                <GridSizeInput
+                  value={layout.cols}
+                  onChange={(cols) => resizeGrid({ cols })}
+                  label="Columns"
+                />
+              </>
+            ) : null}
+
+            <select
+              value={layout.aspect}
+              onChange={(e) => setAspect(e.target.value as CellAspect)}
+              style={{ ...inputStyle, height: 40, fontWeight: 800, cursor: "pointer" }}
+              title="Cell shape"
+              aria-label="Cell shape"
+            >
+              {CELL_ASPECTS.map((a) => (
+                <option key={a.value} value={a.value}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Hidden file input for Import JSON */}
+          <input
+            ref={chartFileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadChartFile(file);
+              e.currentTarget.value = "";
+            }}
+          />
+
+          <button
+            onClick={() => chartFileInputRef.current?.click()}
+            disabled={!isHydrated}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+          >
+            Import JSON
+          </button>
+
+          <button
+            onClick={downloadChartFile}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+          >
+            Export JSON
+          </button>
+
+          <button
+            onClick={copyShareLink}
+            disabled={!isHydrated}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+          >
+            Copy Share Link
+          </button>
+
+          <button
+            onClick={room.startRoom}
+            disabled={!isHydrated || room.roomId !== null}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+            title="Edit this chart together with others in real time"
+          >
+            Start Room
+          </button>
+
+          <button
+            onClick={() => setIsExportOpen(true)}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+          >
+            Export Image
+          </button>
+
+          <button
+            onClick={() => setIsBulkOpen(true)}
+            disabled={!isHydrated || mode === "tier"}
+            style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+            title="Paste a list of titles and match a cover to every cell"
+          >
+            Bulk Fill
+          </button>
+        </div>
+
+        {room.roomId ? (
+          <RoomBar
+            roomId={room.roomId}
+            status={room.status}
+            peers={room.peers}
+            clientId={room.clientId}
+            name={room.name}
+            onNameChange={room.setName}
+            onCopyLink={() => room.copyLink()}
+            onLeave={room.leaveRoom}
+          />
+        ) : null}
+
+        {notice ? (
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: 12,
+              marginBottom: 12,
+              padding: "8px 12px",
+              border: `1px solid ${borderGray}`,
+              borderRadius: 8,
+              fontSize: 13,
+            }}
+          >
+            <div>{notice}</div>
+            <button
+              onClick={() => setNotice(null)}
+              style={{ ...buttonStyle, height: 30, padding: "0 10px" }}
+            >
+              Dismiss
+            </button>
+          </div>
+        ) : null}
+
+        <div style={{ display: "flex", gap: 20, alignItems: "flex-start", flexWrap: "wrap" }}>
+          {/* EXPORT AREA: Title + Grid */}
+          <div style={{ maxWidth: gridMaxWidth, width: "100%", flex: 1, minWidth: 0 }}>
+            <div
+              ref={exportRef}
+              style={{
+                ...backgroundStyle(theme.background),
+                padding: 16,
+                borderRadius: 12,
+                fontFamily: fontFamily(theme.fontId),
+              }}
+            >
+              {/* Title (exported) */}
+              <div style={{ textAlign: "center", marginBottom: 16 }}>
+                <input
+                  value={chartTitle}
+                  onChange={(e) => {
+                    checkpoint("title");
+                    dispatch({ type: "setTitle", title: e.target.value });
+                  }}
+                  style={{
+                    fontSize: 32,
+                    fontWeight: 900,
+                    textAlign: "center",
+                    border: "none",
+                    outline: "none",
+                    width: "100%",
+                    background: "transparent",
+                    color: theme.titleColor,
+                    fontFamily: "inherit",
+                  }}
+                  aria-label="Chart title"
+                />
+                
+              </div>
+
+              {mode === "tier" ? (
+                // Tier rows (exported); the unranked pool sits below the export area
+                <TierRows
+                  rows={tierList.rows}
+                  aspect={layout.aspect}
+                  theme={theme}
+                  interaction={tierInteraction}
+                />
+              ) : (
+                // Grid (exported)
+                <ChartGrid
+                  layout={layout}
+                  cells={cells}
+                  theme={theme}
+                  selectedIndex={selectedIndex}
+                  peers={room.peers.filter((p) => p.id !== room.clientId)}
+                  isExporting={isExportOpen}
+                  onSelect={setSelectedIndex}
+                  onMove={moveCell}
+                  onDropFile={(file, index) => {
+                    handleUploadImages([file], index);
+                    setSelectedIndex(index);
+                  }}
+                />
+              )}
+            </div>
+
+            {/* Unranked pool (NOT exported) */}
+            {mode === "tier" ? (
+              <TierPool
+                pool={tierList.pool}
+                aspect={layout.aspect}
+                theme={theme}
+                interaction={tierInteraction}
+              />
+            ) : null}
+          </div>
+
+          <div style={{ width: 320, display: "flex", flexDirection: "column", gap: 20 }}>
+            {/* Hidden file input for Upload */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              // Several at once when adding to the tier list pool
+              multiple={mode === "tier" && !selectedTierItem}
+              style={{ display: "none" }}
+              onChange={(e) => {
+                handleUploadImages(Array.from(e.target.files ?? []));
+                // reset so the same file can be selected again
+                e.currentTarget.value = "";
+              }}
+            />
+
+            {/* Editor Panel (NOT exported) */}
+            <EditorPanel
+              mode={mode}
+              layout={layout}
+              tierList={tierList}
+              cell={selectedCell}
+              selectedIndex={selectedIndex}
+              selectedTierItem={selectedTierItem}
+              swapMode={swapMode}
+              canPickArtwork={canPickArtwork}
+              onEdit={editSelected}
+              onSearch={openSearch}
+              onUpload={() => fileInputRef.current?.click()}
+              onClear={clearImage}
+              onPickArtwork={openArtworkPicker}
+              onMove={moveSelected}
+              onSwapModeChange={setSwapMode}
+              onMoveTierItem={moveSelectedTierItem}
+              onRemoveTierItem={removeSelectedTierItem}
+              onDeselectTierItem={() => setSelectedTierItem(null)}
+            />
+
+            {/* Tiers panel (NOT exported) */}
+            {mode === "tier" ? (
+              <TierPanel
+                tierList={tierList}
+                onAddTier={addTierRow}
+                onUpdateTier={updateTierRow}
+                onMoveTier={moveTierRow}
+                onRemoveTier={removeTierRow}
+              />
+            ) : null}
+
+            {/* Chart style panel (NOT exported) */}
+            <ThemePanel theme={theme} onChange={setTheme} onUpdate={updateTheme} />
+          </div>
+        </div>
+
+        {/* Export Modal */}
+        {isExportOpen ? (
+          <ExportDialog
+            chart={chart}
+            exportRef={exportRef}
+            options={exportOptions}
+            onOptionsChange={setExportOptions}
+            onNotice={setNotice}
+            onClose={() => setIsExportOpen(false)}
+          />
+        ) : null}
+
+        {/* Artwork Modal */}
+        {isArtworkOpen && selectedSource ? (
+          <ArtworkPicker
+            source={selectedSource}
+            currentImageUrl={selectedCell?.imageUrl}
+            onPick={pickArtwork}
+            onClose={() => setIsArtworkOpen(false)}
+          />
+        ) : null}
+
+        {/* Templates Modal */}
+        {isTemplatesOpen ? (
+          <TemplatesModal
+            title={chartTitle}
+            layout={layout}
+            labels={cells.map((c) => c.label)}
+            onApply={applyTemplate}
+            onClose={() => setIsTemplatesOpen(false)}
+          />
+        ) : null}
+
+        {/* Bulk Fill Modal */}
+        {isBulkOpen ? (
+          <BulkFillModal
+            initialType={searchType}
+            text={bulkText}
+            onTextChange={setBulkText}
+            cells={cells}
+            cache={searchCache}
+            onApply={applyBulkFill}
+            onClose={() => setIsBulkOpen(false)}
+          />
+        ) : null}
+
+        {/* Search Modal */}
+        <SearchModal
+          isOpen={isSearchOpen}
+          searchType={searchType}
+          cache={searchCache}
+          onSearchTypeChange={setSearchType}
+          onPick={pickResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      </div>
+    </main>
+  );
+}
\ No newline at end of file
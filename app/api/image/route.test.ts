@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+// The proxy with upstream hosts replaced by a mocked fetch
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function proxy(url: string) {
+  return GET(new Request(`http://localhost/api/image?url=${encodeURIComponent(url)}`));
+}
+
+function image() {
+  return new Response(new Uint8Array([1, 2, 3]), { headers: { "content-type": "image/jpeg" } });
+}
+
+function redirect(location: string) {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+const MBID = "b1392450-e666-3926-a536-22c65f834433";
+const CAA_URL = `https://coverartarchive.org/release-group/${MBID}/front-500`;
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe("GET /api/image", () => {
+  it("passes through an image from an allowed host with a timeout", async () => {
+    fetchMock.mockResolvedValueOnce(image());
+
+    const res = await proxy("https://s4.anilist.co/file/anilistcdn/media/anime/cover/1.jpg");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/jpeg");
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("answers 504 when the image host times out", async () => {
+    fetchMock.mockRejectedValueOnce(new DOMException("Timed out", "TimeoutError"));
+
+    const res = await proxy("https://image.tmdb.org/t/p/w500/poster.jpg");
+    expect(res.status).toBe(504);
+  });
+
+  it("rejects hosts that aren't cover hosts, archive.org included", async () => {
+    for (const url of [
+      "https://example.com/cover.jpg",
+      "http://s4.anilist.co/cover.jpg",
+      `https://archive.org/download/mbid-${MBID}/front.jpg`,
+      "https://ia800100.us.archive.org/1/items/anything/file.jpg",
+    ]) {
+      expect((await proxy(url)).status).toBe(403);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("follows cover redirects into archive.org's cover items", async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirect(`https://archive.org/download/mbid-${MBID}/mbid-1.jpg`))
+      .mockResolvedValueOnce(
+        redirect(`https://ia800101.us.archive.org/22/items/mbid-${MBID}/mbid-1.jpg`)
+      )
+      .mockResolvedValueOnce(image());
+
+    expect((await proxy(CAA_URL)).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("follows Open Library redirects into its cover batches", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        redirect("https://archive.org/download/l_covers_0012/l_covers_0012_34.zip/0012345-L.jpg")
+      )
+      .mockResolvedValueOnce(
+        redirect(
+          "https://ia800500.us.archive.org/view_archive.php?archive=/28/items/l_covers_0012/l_covers_0012_34.zip&file=0012345-L.jpg"
+        )
+      )
+      .mockResolvedValueOnce(image());
+
+    expect((await proxy("https://covers.openlibrary.org/b/id/12345-L.jpg")).status).toBe(200);
+  });
+
+  it("refuses redirects to other archive.org items", async () => {
+    for (const location of [
+      "https://archive.org/download/someones-upload/file.jpg",
+      "https://ia800101.us.archive.org/22/items/someones-upload/file.jpg",
+      `https://archive.org/download/mbid-${MBID}/..%2F..%2Fsomeones-upload/file.jpg`,
+      `https://evil.archive.org/download/mbid-${MBID}/file.jpg`,
+    ]) {
+      fetchMock.mockResolvedValueOnce(redirect(location));
+      const res = await proxy(CAA_URL);
+      expect(res.status).toBe(502);
+      expect(await res.text()).toBe("Redirected to a host that is not allowed");
+    }
+  });
+
+  it("refuses anything that isn't a raster image", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("<svg/>", { headers: { "content-type": "image/svg+xml" } })
+    );
+    expect((await proxy(CAA_URL)).status).toBe(415);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  MAX_PROXIED_IMAGE_BYTES,
+  PROXIED_IMAGE_TIMEOUT_MS,
+  fetchAllowedImage,
+  isAllowedImageUrl,
+  limitBytes,
+} from "@/lib/imageProxy";
+
+export const runtime = "nodejs";
+
+// Raster formats only: an SVG served from our origin could run script
+const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"];
+
+function errorResponse(message: string, status: number) {
+  return new Response(message, {
+    status,
+    headers: { "content-type": "text/plain; charset=utf-8" },
+  });
+}
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const target = (searchParams.get("url") || "").trim();
+
+  if (!target) {
+    return errorResponse("Missing url parameter", 400);
+  }
+
+  if (!isAllowedImageUrl(target)) {
+    return errorResponse("Image host is not allowed", 403);
+  }
+
+  let resp: Response;
+  try {
+    resp = await fetchAllowedImage(target, AbortSignal.timeout(PROXIED_IMAGE_TIMEOUT_MS));
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "TimeoutError") {
+      return errorResponse("Image host timed out", 504);
+    }
+    const message = e instanceof Error ? e.message : "Image fetch failed";
+    return errorResponse(message, 502);
+  }
+
+  if (!resp.ok || !resp.body) {
+    return errorResponse(`Upstream responded with ${resp.status}`, 502);
+  }
+
+  const contentType = resp.headers.get("content-type") || "";
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  if (!ALLOWED_IMAGE_TYPES.includes(mime)) {
+    return errorResponse("Upstream did not return a supported image", 415);
+  }
+
+  const contentLength = Number(resp.headers.get("content-length") || 0);
+  if (contentLength > MAX_PROXIED_IMAGE_BYTES) {
+    return errorResponse("Image exceeds size limit", 413);
+  }
+
+  const headers = new Headers({
+    "content-type": mime,
+    // Cover URLs are content-addressed upstream, so they can be cached aggressively
+    "cache-control": "public, max-age=86400, s-maxage=604800, stale-while-revalidate=86400",
+    "x-content-type-options": "nosniff",
+    // Even if a browser renders the response as a document, nothing in it can run
+    "content-security-policy": "default-src 'none'; sandbox",
+  });
+  if (contentLength) headers.set("content-length", String(contentLength));
+
+  return new Response(resp.body.pipeThrough(limitBytes(MAX_PROXIED_IMAGE_BYTES)), {
+    headers,
+  });
+}
@@ -0,0 +1,85 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { defaultChartState } from "@/lib/chart";
+import { importChartFile } from "@/lib/chartFile";
+import { renderChartImage } from "@/lib/chartImage";
+import { GET, POST } from "./route";
+
+// The images themselves are covered by lib/chartImage.test.tsx; these check
+// that the route renders the right chart with the right headers. Each request
+// gets its own client address, since the route rate-limits per IP for the life
+// of the module.
+
+let ip = 0;
+
+function request(query: string, init: RequestInit = {}) {
+  return new Request(`http://localhost/api/render${query}`, {
+    ...init,
+    headers: { "x-forwarded-for": `10.1.0.${++ip}`, ...init.headers },
+  });
+}
+
+const gridFile = readFileSync(
+  new URL("../../../lib/__fixtures__/charts/grid.json", import.meta.url)
+);
+
+async function bytes(res: Response) {
+  return Buffer.from(await res.arrayBuffer());
+}
+
+describe("GET /api/render", () => {
+  it("renders the default chart without a share payload", async () => {
+    const res = await GET(request("?size=og"));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(res.headers.get("cache-control")).toBe("public, max-age=86400, immutable");
+    expect(await bytes(res)).toEqual(
+      await bytes(await renderChartImage(defaultChartState(), "og"))
+    );
+  });
+
+  it("rejects a damaged share payload", async () => {
+    const res = await GET(request("?c=not-a-chart"));
+    expect(res.status).toBe(400);
+    expect(await res.text()).toBe("This share link is damaged or incomplete.");
+  });
+
+  it("rate-limits each client", async () => {
+    const req = () =>
+      new Request("http://localhost/api/render?c=x", {
+        headers: { "x-forwarded-for": "10.2.0.1" },
+      });
+    for (let i = 0; i < 20; i++) expect((await GET(req())).status).toBe(400);
+
+    const res = await GET(req());
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get("retry-after"))).toBeGreaterThan(0);
+  });
+});
+
+describe("POST /api/render", () => {
+  it("renders an uploaded chart file", async () => {
+    const res = await POST(request("?download=1", { method: "POST", body: gridFile }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("cache-control")).toBe("no-store");
+    expect(res.headers.get("content-disposition")).toBe(
+      "attachment; filename*=UTF-8''Fixture%20grid.png"
+    );
+
+    const chart = await importChartFile(new Blob([gridFile]));
+    expect(await bytes(res)).toEqual(await bytes(await renderChartImage(chart, "full")));
+  });
+
+  it("rejects files that aren't charts", async () => {
+    const res = await POST(request("", { method: "POST", body: "{" }));
+    expect(res.status).toBe(400);
+    expect(await res.text()).toBe("That file isn't valid JSON.");
+  });
+
+  it("rejects oversized files before reading them", async () => {
+    const res = await POST(
+      request("", { method: "POST", body: "{}", headers: { "content-length": "999999999" } })
+    );
+    expect(res.status).toBe(413);
+  });
+});
@@ -0,0 +1,83 @@
+import { defaultChartState, type ChartState } from "@/lib/chart";
+import { renderChartImage, type ChartImageSize } from "@/lib/chartImage";
+import { MAX_CHART_FILE_BYTES, importChartFile } from "@/lib/chartFile";
+import { ChartSchemaError } from "@/lib/chartSchema";
+import { clientIp, createRateLimiter } from "@/lib/rateLimit";
+import { decodeSharedChart } from "@/lib/shareLink";
+
+export const runtime = "nodejs";
+
+// PNG of a chart, rendered on the server:
+//   GET  /api/render?c=<share payload>&size=og|full&download=1
+//        (no `c` renders the default chart; used as the og:image)
+//   POST /api/render?size=...&download=1 with an exported chart .json as the body
+
+// Each render fetches every cover in the chart, so it's limited harder than search
+const checkLimit = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+
+function errorResponse(message: string, status: number, headers: Record<string, string> = {}) {
+  return new Response(message, {
+    status,
+    headers: { "content-type": "text/plain; charset=utf-8", ...headers },
+  });
+}
+
+function rateLimited(req: Request) {
+  const result = checkLimit(clientIp(req));
+  if (result.ok) return null;
+  return errorResponse("Too many render requests", 429, {
+    "retry-after": String(result.retryAfter),
+  });
+}
+
+function renderResponse(state: ChartState, searchParams: URLSearchParams, cacheable: boolean) {
+  const size: ChartImageSize = searchParams.get("size") === "og" ? "og" : "full";
+  const headers: Record<string, string> = {
+    // GET output depends only on the URL, so it can be cached like a static image
+    "cache-control": cacheable ? "public, max-age=86400, immutable" : "no-store",
+  };
+  if (searchParams.get("download") === "1") {
+    const name = (state.title || "chart").replace(/[\\/:*?"<>|]/g, "");
+    headers["content-disposition"] = `attachment; filename*=UTF-8''${encodeURIComponent(name)}.png`;
+  }
+
+  return renderChartImage(state, size, headers);
+}
+
+export async function GET(req: Request) {
+  const limited = rateLimited(req);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const encoded = searchParams.get("c");
+
+  let state: ChartState;
+  try {
+    state = encoded ? await decodeSharedChart(encoded) : defaultChartState();
+  } catch (e) {
+    const message = e instanceof ChartSchemaError ? e.message : "Invalid chart";
+    return errorResponse(message, 400);
+  }
+
+  return renderResponse(state, searchParams, true);
+}
+
+export async function POST(req: Request) {
+  const limited = rateLimited(req);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+
+  const length = Number(req.headers.get("content-length"));
+  if (length > MAX_CHART_FILE_BYTES) return errorResponse("Chart file too large", 413);
+
+  let state: ChartState;
+  try {
+    state = await importChartFile(await req.blob());
+  } catch (e) {
+    const message = e instanceof ChartSchemaError ? e.message : "Invalid chart";
+    return errorResponse(message, 400);
+  }
+
+  return renderResponse(state, searchParams, false);
+}
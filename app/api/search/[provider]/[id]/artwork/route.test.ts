@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+let ip = 0;
+
+function artwork(provider: string, id: string) {
+  const req = new Request(`http://localhost/api/search/${provider}/${id}/artwork`, {
+    headers: { "x-forwarded-for": `10.2.0.${++ip}` },
+  });
+  return GET(req, { params: Promise.resolve({ provider, id }) });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe("GET /api/search/[provider]/[id]/artwork", () => {
+  it("lists each distinct cover size and the banner", async () => {
+    fetchMock.mockResolvedValueOnce(
+      Response.json({
+        data: {
+          Media: {
+            bannerImage: "https://img.anili.st/banner/1.jpg",
+            coverImage: {
+              extraLarge: "https://img.anili.st/xl/1.jpg",
+              large: "https://img.anili.st/xl/1.jpg",
+              medium: "https://img.anili.st/md/1.jpg",
+            },
+          },
+        },
+      })
+    );
+
+    const res = await artwork("anime", "1");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      images: [
+        { id: "extraLarge", kind: "cover", imageUrl: "https://img.anili.st/xl/1.jpg" },
+        { id: "medium", kind: "cover", imageUrl: "https://img.anili.st/md/1.jpg" },
+        { id: "banner", kind: "banner", imageUrl: "https://img.anili.st/banner/1.jpg" },
+      ],
+    });
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).variables).toEqual({ id: 1 });
+  });
+
+  it("caches artwork per provider and id", async () => {
+    fetchMock.mockResolvedValue(Response.json({ data: { Media: { coverImage: {} } } }));
+    await artwork("manga", "2");
+    await artwork("manga", "2");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns nothing for ids the provider can't have, without calling it", async () => {
+    const res = await artwork("anime", "not-a-number");
+    expect(await res.json()).toEqual({ images: [] });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("returns nothing for providers without artwork", async () => {
+    const res = await artwork("book", "OL1W");
+    expect(await res.json()).toEqual({ images: [] });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown providers", async () => {
+    const res = await artwork("podcast", "1");
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("unknown_provider");
+  });
+
+  it("turns upstream failures into an error envelope", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(new Response("Bad gateway", { status: 502 }));
+
+    const res = await artwork("anime", "3");
+    expect(res.status).toBe(502);
+    expect((await res.json()).error.code).toBe("upstream_error");
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,28 @@
+import { SearchError, searchErrorResponse } from "@/lib/search/errors";
+import { isSearchProviderId } from "@/lib/search/providers";
+import { cachedArtwork, enforceRateLimit } from "@/lib/search/server";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ provider: string; id: string }> }
+) {
+  const { provider, id } = await params;
+
+  if (!isSearchProviderId(provider)) {
+    return searchErrorResponse(
+      new SearchError("unknown_provider", `Unknown search provider "${provider}"`)
+    );
+  }
+
+  try {
+    enforceRateLimit(req);
+    const images = await cachedArtwork(provider, id);
+    return new Response(JSON.stringify({ images }), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (e) {
+    return searchErrorResponse(e);
+  }
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+// The route with AniList's endpoint replaced by a mocked fetch. Each test uses
+// its own query and client address, since the route caches results and
+// rate-limits per IP for the life of the module.
+
+let ip = 0;
+
+function search(provider: string, query: string) {
+  const req = new Request(`http://localhost/api/search/${provider}?${query}`, {
+    headers: { "x-forwarded-for": `10.0.0.${++ip}` },
+  });
+  return GET(req, { params: Promise.resolve({ provider }) });
+}
+
+function anilistPage(media: object[], hasNextPage = false) {
+  return Response.json({ data: { Page: { pageInfo: { hasNextPage }, media } } });
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe("GET /api/search/[provider]", () => {
+  it("returns the provider's results as a page", async () => {
+    fetchMock.mockResolvedValueOnce(
+      anilistPage(
+        [
+          {
+            id: 1,
+            siteUrl: "https://anilist.co/anime/1",
+            title: { romaji: "Kaubooi Bibappu", english: "Cowboy Bebop" },
+            coverImage: { extraLarge: "https://img.anili.st/1.jpg" },
+            seasonYear: 1998,
+          },
+          { id: 2, title: { romaji: "No Cover" } },
+        ],
+        true
+      )
+    );
+
+    const res = await search("anime", "q=bebop");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      results: [
+        {
+          id: "1",
+          title: "Cowboy Bebop",
+          year: 1998,
+          imageUrl: "https://img.anili.st/1.jpg",
+          provider: "anime",
+          sourceUrl: "https://anilist.co/anime/1",
+        },
+      ],
+      hasMore: true,
+    });
+  });
+
+  it("passes the page and filters upstream", async () => {
+    fetchMock.mockResolvedValueOnce(anilistPage([]));
+    await search("manga", "q=berserk&page=2&yearFrom=1989&yearTo=1990&format=MANGA");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://graphql.anilist.co");
+    expect(JSON.parse(String(init?.body)).variables).toMatchObject({
+      search: "berserk",
+      type: "MANGA",
+      page: 2,
+      format: ["MANGA"],
+      startAfter: 19889999,
+      startBefore: 19910000,
+    });
+  });
+
+  it("answers an empty query without calling the provider", async () => {
+    const res = await search("anime", "q=%20%20");
+    expect(await res.json()).toEqual({ results: [], hasMore: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("serves repeated queries from the cache", async () => {
+    fetchMock.mockResolvedValue(anilistPage([]));
+    await search("anime", "q=Cached");
+    await search("anime", "q=cached");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects unknown providers", async () => {
+    const res = await search("podcast", "q=x");
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("unknown_provider");
+  });
+
+  it("reports missing credentials", async () => {
+    vi.stubEnv("TWITCH_CLIENT_ID", "");
+    const res = await search("game", "q=zelda");
+    vi.unstubAllEnvs();
+
+    expect(res.status).toBe(503);
+    expect((await res.json()).error.code).toBe("missing_credentials");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("passes on an upstream rate limit with its Retry-After", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response("", { status: 429, headers: { "retry-after": "30" } })
+    );
+
+    const res = await search("anime", "q=limited");
+    expect(res.status).toBe(503);
+    expect(res.headers.get("retry-after")).toBe("30");
+    expect((await res.json()).error).toMatchObject({
+      code: "upstream_rate_limited",
+      retryAfter: 30,
+    });
+  });
+
+  it("turns upstream failures into an error envelope", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(new Response("Internal error", { status: 500 }));
+
+    const res = await search("anime", "q=broken");
+    expect(res.status).toBe(502);
+    expect((await res.json()).error.code).toBe("upstream_error");
+    vi.restoreAllMocks();
+  });
+
+  it("rate-limits a client that searches too often", async () => {
+    fetchMock.mockResolvedValue(anilistPage([]));
+    const headers = { "x-forwarded-for": "10.1.0.1" };
+    let res: Response | undefined;
+    for (let i = 0; i <= 60; i++) {
+      const req = new Request(`http://localhost/api/search/anime?q=spam`, { headers });
+      res = await GET(req, { params: Promise.resolve({ provider: "anime" }) });
+    }
+    expect(res!.status).toBe(429);
+    expect((await res!.json()).error.code).toBe("rate_limited");
+  });
+});
@@ -0,0 +1,35 @@
+import { SearchError, searchErrorResponse } from "@/lib/search/errors";
+import { isSearchProviderId } from "@/lib/search/providers";
+import { parseSearchQuery } from "@/lib/search/query";
+import { cachedSearch, enforceRateLimit } from "@/lib/search/server";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params;
+
+  if (!isSearchProviderId(provider)) {
+    return searchErrorResponse(
+      new SearchError("unknown_provider", `Unknown search provider "${provider}"`)
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const query = parseSearchQuery(searchParams);
+
+  if (!query.q) {
+    return new Response(JSON.stringify({ results: [], hasMore: false }), {
+      headers: { "content-type": "application/json" },
+    });
+  }
+
+  try {
+    enforceRateLimit(req);
+    const page = await cachedSearch(provider, query);
+    return new Response(JSON.stringify(page), {
+      headers: { "content-type": "application/json" },
+    });
+  } catch (e) {
+    return searchErrorResponse(e);
+  }
+}
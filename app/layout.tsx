@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
+import { Bebas_Neue, Geist, Geist_Mono, Press_Start_2P } from "next/font/google";
 import { Analytics } from "@vercel/analytics/next"
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from "@/lib/chartImage";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,9 +14,45 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Display fonts offered by the chart themes
+const bebasNeue = Bebas_Neue({
+  variable: "--font-bebas-neue",
+  weight: "400",
+  subsets: ["latin"],
+});
+
+const pressStart2P = Press_Start_2P({
+  variable: "--font-press-start-2p",
+  weight: "400",
+  subsets: ["latin"],
+});
+
+// Absolute base for og:image URLs; set NEXT_PUBLIC_SITE_URL in production
+const siteUrl =
+  process.env.NEXT_PUBLIC_SITE_URL ||
+  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+
+// Server-rendered default chart (see app/api/render); shared links override it in app/page.tsx
+const ogImage = {
+  url: "/api/render?size=og",
+  width: OG_IMAGE_WIDTH,
+  height: OG_IMAGE_HEIGHT,
+  alt: "Anime & Video Game Chart Maker",
+};
+
 export const metadata: Metadata = {
+  metadataBase: new URL(siteUrl),
   title: "Anime & Video Game Chart Maker",
   description: "Create shareable anime and video game charts instantly. Free, no login required. A clean alternative to Topsters.",
+  openGraph: {
+    title: "Anime & Video Game Chart Maker",
+    description: "Create shareable anime and video game charts instantly.",
+    images: [ogImage],
+  },
+  twitter: {
+    card: "summary_large_image",
+    images: [ogImage],
+  },
 };
 
 export default function RootLayout({
@@ -26,7 +63,7 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+        className={`${geistSans.variable} ${geistMono.variable} ${bebasNeue.variable} ${pressStart2P.variable} antialiased`}
       >
         {children}
       </body>
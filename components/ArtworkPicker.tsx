@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CellSource } from "@/lib/chart";
+import { proxiedImageUrl } from "@/lib/imageProxy";
+import { readSearchError } from "@/lib/search/errors";
+import { getSearchProvider, type SearchProviderId } from "@/lib/search/providers";
+import type { Artwork, ArtworkKind } from "@/lib/search/types";
+import Modal from "./Modal";
+import { gray } from "./styles";
+
+const ARTWORK_SECTIONS: Array<{ kind: ArtworkKind; title: string }> = [
+  { kind: "cover", title: "Covers" },
+  { kind: "poster", title: "Posters" },
+  { kind: "artwork", title: "Artwork" },
+  { kind: "banner", title: "Banners" },
+  { kind: "backdrop", title: "Backdrops" },
+  { kind: "screenshot", title: "Screenshots" },
+];
+
+type ArtworkPickerProps = {
+  // The search result the cell's cover came from
+  source: CellSource;
+  currentImageUrl?: string;
+  onPick: (artwork: Artwork) => void;
+  onClose: () => void;
+};
+
+// Other artwork for a cell's title. Mounted only while open; loads on mount.
+export default function ArtworkPicker({
+  source,
+  currentImageUrl,
+  onPick,
+  onClose,
+}: ArtworkPickerProps) {
+  const [artworks, setArtworks] = useState<Artwork[]>([]);
+  const [isLoadingArtwork, setIsLoadingArtwork] = useState(true);
+  const [artworkError, setArtworkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/search/${source.provider}/${encodeURIComponent(source.id)}/artwork`,
+          { signal: controller.signal }
+        );
+        if (!res.ok) {
+          const label = getSearchProvider(source.provider as SearchProviderId).label;
+          throw new Error(await readSearchError(res, label));
+        }
+        const data = (await res.json()) as { images: Artwork[] };
+        setArtworks(data.images || []);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setArtworkError(e instanceof Error ? e.message : "Could not load artwork");
+      } finally {
+        if (!controller.signal.aborted) setIsLoadingArtwork(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [source.provider, source.id]);
+
+  return (
+    <Modal title="Alternate covers" width={900} onClose={onClose}>
+      <div style={{ padding: 16, overflowY: "auto", flex: 1 }}>
+        {isLoadingArtwork ? <div style={{ color: gray }}>Loading artwork...</div> : null}
+        {artworkError ? <div style={{ color: "crimson", fontSize: 12 }}>{artworkError}</div> : null}
+        {!isLoadingArtwork && !artworkError && artworks.length === 0 ? (
+          <div style={{ color: gray, fontSize: 12 }}>No other artwork for this title.</div>
+        ) : null}
+
+        {ARTWORK_SECTIONS.map(({ kind, title }) => {
+          const items = artworks.filter((a) => a.kind === kind);
+          if (items.length === 0) return null;
+
+          return (
+            <div key={kind} style={{ marginBottom: 16 }}>
+              <div style={{ fontWeight: 900, fontSize: 13, marginBottom: 8 }}>{title}</div>
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+                  gap: 12,
+                }}
+              >
+                {items.map((a) => {
+                  const isCurrent = currentImageUrl === proxiedImageUrl(a.imageUrl);
+                  const isTall = kind === "cover" || kind === "poster";
+                  return (
+                    <button
+                      key={`${a.kind}-${a.id}`}
+                      onClick={() => onPick(a)}
+                      title={a.id}
+                      style={{
+                        border: isCurrent ? "3px solid #0070f3" : "1px solid #ddd",
+                        borderRadius: 10,
+                        overflow: "hidden",
+                        background: "#f2f2f2",
+                        cursor: "pointer",
+                        padding: 0,
+                        aspectRatio: isTall ? "2 / 3" : "16 / 9",
+                        backgroundImage: `url(${a.thumbnailUrl || a.imageUrl})`,
+                        backgroundSize: "cover",
+                        backgroundPosition: "center",
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
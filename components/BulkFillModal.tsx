@@ -0,0 +1,345 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { matchBulkEntries, parseBulkList, type BulkEntry, type BulkMatch } from "@/lib/bulkFill";
+import type { CellData } from "@/lib/chart";
+import type { LruCache } from "@/lib/lruCache";
+import { SearchError, parseRetryAfter, readSearchError } from "@/lib/search/errors";
+import { SEARCH_PROVIDERS, getSearchProvider, type SearchProviderId } from "@/lib/search/providers";
+import { searchUrl } from "@/lib/search/query";
+import type { SearchPage } from "@/lib/search/types";
+import Modal from "./Modal";
+import { black, buttonStyle, gray, inputStyle } from "./styles";
+
+type BulkFillModalProps = {
+  initialType: SearchProviderId;
+  // The pasted list; kept by the caller so it survives closing the modal
+  text: string;
+  onTextChange: (text: string) => void;
+  cells: CellData[];
+  // Result pages by request URL, shared with the search modal
+  cache: LruCache<SearchPage>;
+  // Called with the matches left chosen; nothing is written before that
+  onApply: (chosen: BulkMatch[]) => void;
+  onClose: () => void;
+};
+
+// Paste a list of titles, review the matches, apply them at once. Mounted only
+// while open, so each open starts at the list step.
+export default function BulkFillModal({
+  initialType,
+  text,
+  onTextChange,
+  cells,
+  cache,
+  onApply,
+  onClose,
+}: BulkFillModalProps) {
+  const [bulkType, setBulkType] = useState(initialType);
+  const [bulkEntries, setBulkEntries] = useState<BulkEntry[]>([]);
+  const [bulkMatches, setBulkMatches] = useState<BulkMatch[] | null>(null);
+  const [isBulkMatching, setIsBulkMatching] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
+  const [bulkExpanded, setBulkExpanded] = useState<Set<number>>(new Set());
+  const bulkAbortRef = useRef<AbortController | null>(null);
+
+  const bulkPreview = parseBulkList(text, cells);
+  const bulkChosen = (bulkMatches ?? []).filter((m) => m.chosen >= 0);
+
+  // Same request (and client cache) as the search modal's first page
+  async function bulkSearch(q: string, signal: AbortSignal) {
+    const url = searchUrl(bulkType, { q, page: 1, filters: {} });
+    const hit = cache.get(url);
+    if (hit) return { results: hit.results || [], cached: true };
+
+    const res = await fetch(url, { signal });
+    if (!res.ok) {
+      const message = await readSearchError(res, getSearchProvider(bulkType).label);
+      const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+      const code = res.status === 429 ? "rate_limited" : "upstream_error";
+      throw new SearchError(code, message, retryAfter);
+    }
+    const data = (await res.json()) as SearchPage;
+    cache.set(url, data);
+    return { results: data.results || [], cached: false };
+  }
+
+  async function startBulkMatch() {
+    const entries = parseBulkList(text, cells);
+    if (entries.length === 0) return;
+
+    bulkAbortRef.current?.abort();
+    const controller = new AbortController();
+    bulkAbortRef.current = controller;
+
+    setBulkEntries(entries);
+    setBulkMatches([]);
+    setBulkExpanded(new Set());
+    setBulkError(null);
+    setIsBulkMatching(true);
+
+    try {
+      await matchBulkEntries(entries, (q) => bulkSearch(q, controller.signal), {
+        signal: controller.signal,
+        onProgress: setBulkMatches,
+      });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setBulkError(e instanceof Error ? e.message : "Matching failed");
+    } finally {
+      if (bulkAbortRef.current === controller) {
+        bulkAbortRef.current = null;
+        setIsBulkMatching(false);
+      }
+    }
+  }
+
+  function chooseBulkCandidate(cellIndex: number, chosen: number) {
+    setBulkMatches((prev) =>
+      prev ? prev.map((m) => (m.cellIndex === cellIndex ? { ...m, chosen } : m)) : prev
+    );
+  }
+
+  function toggleBulkAlternates(cellIndex: number) {
+    setBulkExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(cellIndex)) next.delete(cellIndex);
+      else next.add(cellIndex);
+      return next;
+    });
+  }
+
+  // Closing the modal stops any matching still in progress
+  useEffect(() => {
+    const abortRef = bulkAbortRef;
+    return () => abortRef.current?.abort();
+  }, []);
+
+  return (
+    <Modal title={bulkMatches ? "Review matches" : "Bulk fill"} width={900} onClose={onClose}>
+      {bulkMatches === null ? (
+        // Step 1: paste the list
+        <div style={{ padding: 16, overflowY: "auto", flex: 1, display: "grid", gap: 10 }}>
+          <div style={{ fontSize: 12, color: gray, lineHeight: 1.4 }}>
+            One title per line fills the cells in order. Use <code>Label: Title</code> to target the
+            cell with that label. Every match is shown for review before anything changes.
+          </div>
+
+          <select
+            value={bulkType}
+            onChange={(e) => setBulkType(e.target.value as SearchProviderId)}
+            style={{ ...inputStyle, height: 40, fontWeight: 800, cursor: "pointer" }}
+            aria-label="Search provider"
+          >
+            {SEARCH_PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+
+          <textarea
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            autoFocus
+            rows={12}
+            placeholder={"Chrono Trigger\nFavorite Villain: Final Fantasy VI\n..."}
+            style={{ ...inputStyle, resize: "vertical", fontFamily: "inherit" }}
+          />
+
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: 12,
+            }}
+          >
+            <div style={{ fontSize: 12, color: gray }}>
+              {bulkPreview.length} of {cells.length} cells will be matched
+            </div>
+            <button
+              onClick={startBulkMatch}
+              disabled={bulkPreview.length === 0}
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 18px",
+                fontWeight: 900,
+                cursor: bulkPreview.length === 0 ? "not-allowed" : "pointer",
+              }}
+            >
+              Find covers
+            </button>
+          </div>
+        </div>
+      ) : (
+        // Step 2: review (fills in as the throttled searches come back)
+        <>
+          <div style={{ padding: 16, overflowY: "auto", flex: 1, display: "grid", gap: 12 }}>
+            {isBulkMatching ? (
+              <div style={{ fontSize: 12, color: gray }}>
+                Matching {bulkMatches.length + 1} of {bulkEntries.length}... searches are spaced out
+                to stay within the provider&apos;s rate limits.
+              </div>
+            ) : null}
+            {bulkError ? <div style={{ color: "crimson", fontSize: 12 }}>{bulkError}</div> : null}
+
+            {bulkMatches.map((m) => {
+              const showAlternates = m.ambiguous || bulkExpanded.has(m.cellIndex);
+              const shown = showAlternates
+                ? m.candidates
+                : m.candidates.filter((_, i) => i === m.chosen);
+              const label = cells[m.cellIndex]?.label;
+
+              return (
+                <div
+                  key={m.cellIndex}
+                  style={{
+                    border: `1px solid ${m.ambiguous ? "#f0b429" : "#eee"}`,
+                    borderRadius: 10,
+                    padding: 12,
+                  }}
+                >
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "baseline",
+                      gap: 12,
+                      marginBottom: 8,
+                      fontSize: 12,
+                    }}
+                  >
+                    <div>
+                      <span style={{ fontWeight: 900 }}>
+                        Cell {m.cellIndex + 1}
+                        {label ? ` · ${label}` : ""}
+                      </span>
+                      <span style={{ color: gray }}> — “{m.query}”</span>
+                      {m.ambiguous ? (
+                        <span style={{ color: "#b7791f", fontWeight: 800 }}>
+                          {" "}
+                          · check the match
+                        </span>
+                      ) : null}
+                    </div>
+                    <div style={{ display: "flex", gap: 6 }}>
+                      {!m.ambiguous && m.candidates.length > 1 ? (
+                        <button
+                          onClick={() => toggleBulkAlternates(m.cellIndex)}
+                          style={{ ...buttonStyle, height: 28, padding: "0 10px" }}
+                        >
+                          {showAlternates ? "Hide alternates" : "Alternates"}
+                        </button>
+                      ) : null}
+                      {m.candidates.length > 0 ? (
+                        <button
+                          onClick={() => chooseBulkCandidate(m.cellIndex, m.chosen >= 0 ? -1 : 0)}
+                          style={{ ...buttonStyle, height: 28, padding: "0 10px" }}
+                        >
+                          {m.chosen >= 0 ? "Skip" : "Include"}
+                        </button>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  {m.error ? (
+                    <div style={{ color: "crimson", fontSize: 12 }}>{m.error}</div>
+                  ) : m.candidates.length === 0 ? (
+                    <div style={{ color: gray, fontSize: 12 }}>
+                      No results; this cell will be left as it is.
+                    </div>
+                  ) : (
+                    <div
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "repeat(auto-fill, minmax(96px, 1fr))",
+                        gap: 8,
+                        opacity: m.chosen >= 0 ? 1 : 0.45,
+                      }}
+                    >
+                      {shown.map((r) => {
+                        const index = m.candidates.indexOf(r);
+                        const isChosen = index === m.chosen;
+                        return (
+                          <button
+                            key={r.id}
+                            onClick={() => chooseBulkCandidate(m.cellIndex, index)}
+                            aria-pressed={isChosen}
+                            title={r.year ? `${r.title} (${r.year})` : r.title}
+                            style={{
+                              border: isChosen ? "2px solid #0070f3" : "1px solid #ddd",
+                              borderRadius: 8,
+                              overflow: "hidden",
+                              background: "white",
+                              cursor: "pointer",
+                              textAlign: "left",
+                              padding: 0,
+                              color: black,
+                            }}
+                          >
+                            <div
+                              style={{
+                                width: "100%",
+                                aspectRatio: "2 / 3",
+                                backgroundImage: r.imageUrl ? `url(${r.imageUrl})` : undefined,
+                                backgroundColor: "#f2f2f2",
+                                backgroundSize: "cover",
+                                backgroundPosition: "center",
+                              }}
+                            />
+                            <div style={{ padding: 6, fontSize: 11, lineHeight: 1.2 }}>
+                              <div style={{ fontWeight: 900 }}>{r.title}</div>
+                              {r.subtitle ? <div style={{ color: gray }}>{r.subtitle}</div> : null}
+                              {r.year ? <div style={{ color: gray }}>{r.year}</div> : null}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: 12,
+              padding: 16,
+              borderTop: "1px solid #eee",
+            }}
+          >
+            <button
+              onClick={() => setBulkMatches(null)}
+              disabled={isBulkMatching}
+              style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+            >
+              Back to list
+            </button>
+            <button
+              onClick={() => onApply(bulkChosen)}
+              disabled={isBulkMatching || bulkChosen.length === 0}
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 18px",
+                fontWeight: 900,
+                background: isBulkMatching ? "#eee" : "white",
+                cursor: isBulkMatching || bulkChosen.length === 0 ? "not-allowed" : "pointer",
+              }}
+            >
+              {isBulkMatching
+                ? "Matching..."
+                : `Fill ${bulkChosen.length} cell${bulkChosen.length === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { cellAccessibleName, cellCaption, type CellData } from "@/lib/chart";
+import { cropImageStyle } from "@/lib/crop";
+import { ARROW_KEY_DIRECTIONS, neighborIndex, rowSizes, type GridLayout } from "@/lib/layouts";
+import type { RoomPeer } from "@/lib/room";
+import type { ChartTheme } from "@/lib/themes";
+import { captionStyle, labelStripStyle } from "./styles";
+
+const CELL_DRAG_TYPE = "application/x-chart-cell";
+
+type ChartGridProps = {
+  layout: GridLayout;
+  cells: CellData[];
+  theme: ChartTheme;
+  selectedIndex: number | null;
+  // Other people in a collaborative room, outlined on the cell they have selected
+  peers: RoomPeer[];
+  // No selection outline in the exported image
+  isExporting: boolean;
+  onSelect: (index: number) => void;
+  // Dragging a cell onto another, or Alt+arrows
+  onMove: (from: number, to: number) => void;
+  onDropFile: (file: File, index: number) => void;
+};
+
+// The grid chart itself (exported). Cells can be dragged onto each other, take
+// dropped image files, and are navigated with the arrow keys; only the selected
+// cell is a tab stop.
+export default function ChartGrid({
+  layout,
+  cells,
+  theme,
+  selectedIndex,
+  peers,
+  isExporting,
+  onSelect,
+  onMove,
+  onDropFile,
+}: ChartGridProps) {
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const cellRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  const labelStyle = labelStripStyle(theme);
+  const labelPosition = theme.label.position;
+  const captionPlacement = theme.label.caption;
+
+  function isCellDrag(e: React.DragEvent) {
+    const types = Array.from(e.dataTransfer.types);
+    return types.includes(CELL_DRAG_TYPE) || types.includes("Files");
+  }
+
+  function handleDrop(e: React.DragEvent, index: number) {
+    e.preventDefault();
+    setDragOverIndex(null);
+
+    const file = e.dataTransfer.files?.[0];
+    if (file) {
+      onDropFile(file, index);
+      return;
+    }
+
+    const from = Number(e.dataTransfer.getData(CELL_DRAG_TYPE));
+    if (e.dataTransfer.getData(CELL_DRAG_TYPE) !== "" && Number.isInteger(from)) {
+      onMove(from, index);
+    }
+  }
+
+  // Arrows move the selection (and focus); Alt+arrows move the cell itself, like
+  // the editor's arrow buttons
+  function handleKeyDown(e: React.KeyboardEvent, index: number) {
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+    if (!direction || e.ctrlKey || e.metaKey) return;
+    e.preventDefault();
+
+    const to = neighborIndex(layout, index, direction);
+    if (to === null) return;
+    if (e.altKey) onMove(index, to);
+    else onSelect(to);
+    cellRefs.current[to]?.focus();
+  }
+
+  return (
+    <div
+      role="group"
+      aria-label="Chart cells (arrow keys to move, / to search, U to upload)"
+      style={{ display: "flex", flexDirection: "column", gap: theme.gap }}
+    >
+      {rowSizes(layout).map((rowSize, rowIndex, sizes) => {
+        const rowStart = sizes.slice(0, rowIndex).reduce((sum, n) => sum + n, 0);
+
+        return (
+          <div
+            key={rowIndex}
+            style={{
+              display: "grid",
+              gridTemplateColumns: `repeat(${rowSize}, 1fr)`,
+              gap: theme.gap,
+            }}
+          >
+            {Array.from({ length: rowSize }).map((_, col) => {
+              const i = rowStart + col;
+              const cell = cells[i] ?? { label: "" };
+              // No selection outline in the exported image
+              const isSelected = i === selectedIndex && !isExporting;
+              const peer = isExporting ? undefined : peers.find((p) => p.selected === i);
+              const caption = captionPlacement === "none" ? "" : cellCaption(cell);
+              const hasLabelText = Boolean(cell.label || caption);
+              const captionLine = caption ? <div style={captionStyle}>{caption}</div> : null;
+              const labelText = (
+                <>
+                  {captionPlacement === "above" ? captionLine : null}
+                  {cell.label ? <div>{cell.label}</div> : null}
+                  {captionPlacement === "below" ? captionLine : null}
+                </>
+              );
+
+              return (
+                <button
+                  key={i}
+                  ref={(el) => {
+                    cellRefs.current[i] = el;
+                  }}
+                  onClick={() => onSelect(i)}
+                  onKeyDown={(e) => handleKeyDown(e, i)}
+                  tabIndex={i === (selectedIndex ?? 0) ? 0 : -1}
+                  aria-label={cellAccessibleName(cell, `Cell ${i + 1}`)}
+                  aria-pressed={i === selectedIndex}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(CELL_DRAG_TYPE, String(i));
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                  onDragOver={(e) => {
+                    if (!isCellDrag(e)) return;
+                    e.preventDefault();
+                    if (dragOverIndex !== i) setDragOverIndex(i);
+                  }}
+                  onDragLeave={() => setDragOverIndex((prev) => (prev === i ? null : prev))}
+                  onDrop={(e) => handleDrop(e, i)}
+                  onDragEnd={() => setDragOverIndex(null)}
+                  style={{
+                    outline: dragOverIndex === i ? "3px dashed #0070f3" : "none",
+                    outlineOffset: 2,
+                    cursor: "pointer",
+                    padding: 0,
+                    textAlign: "left",
+                    width: "100%",
+                    border: "none",
+                    background: "transparent",
+                    font: "inherit",
+                  }}
+                >
+                  <div
+                    style={{
+                      border: isSelected
+                        ? "4px solid #0070f3"
+                        : `${theme.border.width}px solid ${theme.border.color}`,
+                      borderRadius: theme.border.radius,
+                      background: theme.cellBackground,
+                      aspectRatio: layout.aspect,
+                      position: "relative",
+                      overflow: "hidden",
+                      boxShadow: peer ? `0 0 0 3px ${peer.color}` : undefined,
+                    }}
+                  >
+                    {/* Cover image */}
+                    {cell.imageUrl ? (
+                      <div style={cropImageStyle(cell.imageUrl, cell.crop)} />
+                    ) : null}
+
+                    {/* Who else has this cell selected */}
+                    {peer ? (
+                      <div
+                        style={{
+                          position: "absolute",
+                          top: 0,
+                          right: 0,
+                          zIndex: 1,
+                          padding: "2px 6px",
+                          borderBottomLeftRadius: 6,
+                          background: peer.color,
+                          color: "white",
+                          fontSize: 11,
+                          fontWeight: 700,
+                        }}
+                      >
+                        {peer.name}
+                      </div>
+                    ) : null}
+
+                    {/* Label strip (hidden for unlabeled cells, e.g. topster layouts) */}
+                    {hasLabelText && (labelPosition === "top" || labelPosition === "bottom") ? (
+                      <div
+                        style={{
+                          ...labelStyle,
+                          position: "absolute",
+                          [labelPosition]: 0,
+                          left: 0,
+                          right: 0,
+                        }}
+                      >
+                        {labelText}
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {hasLabelText && labelPosition === "below" ? (
+                    <div style={{ ...labelStyle, marginTop: 4 }}>{labelText}</div>
+                  ) : null}
+                </button>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+"use client";
+
+import { useRef } from "react";
+import { cellCaption, type CellData, type SwapMode } from "@/lib/chart";
+import {
+  DEFAULT_CROP,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampCrop,
+  cropImageStyle,
+  isDefaultCrop,
+  panCrop,
+  type CellCrop,
+} from "@/lib/crop";
+import { neighborIndex, type GridDirection, type GridLayout } from "@/lib/layouts";
+import { getSearchProvider, isSearchProviderId } from "@/lib/search/providers";
+import {
+  POOL_ROW,
+  type ChartMode,
+  type TierList,
+  type TierSlot,
+  type TierTarget,
+} from "@/lib/tierList";
+import { black, buttonStyle, gray, inputStyle } from "./styles";
+
+type EditorPanelProps = {
+  mode: ChartMode;
+  layout: GridLayout;
+  tierList: TierList;
+  // The selected grid cell or tier item, if any
+  cell: CellData | null;
+  selectedIndex: number | null;
+  selectedTierItem: TierSlot | null;
+  swapMode: SwapMode;
+  canPickArtwork: boolean;
+  // `undoKey` groups rapid edits to one control (typing, dragging the crop) into one undo step
+  onEdit: (patch: Partial<CellData>, undoKey?: string) => void;
+  onSearch: () => void;
+  onUpload: () => void;
+  onClear: () => void;
+  onPickArtwork: () => void;
+  onMove: (direction: GridDirection) => void;
+  onSwapModeChange: (mode: SwapMode) => void;
+  onMoveTierItem: (to: TierTarget) => void;
+  onRemoveTierItem: () => void;
+  onDeselectTierItem: () => void;
+};
+
+// Label, cover, crop and move controls for the selected cell (or tier item)
+export default function EditorPanel({
+  mode,
+  layout,
+  tierList,
+  cell,
+  selectedIndex,
+  selectedTierItem,
+  swapMode,
+  canPickArtwork,
+  onEdit,
+  onSearch,
+  onUpload,
+  onClear,
+  onPickArtwork,
+  onMove,
+  onSwapModeChange,
+  onMoveTierItem,
+  onRemoveTierItem,
+  onDeselectTierItem,
+}: EditorPanelProps) {
+  // Crop: drag the preview to move the focal point, zoom with the slider/wheel
+  const selectedCrop = clampCrop(cell?.crop ?? DEFAULT_CROP);
+  const cropDragRef = useRef<{ x: number; y: number } | null>(null);
+
+  function updateCrop(patch: Partial<CellCrop>) {
+    onEdit({ crop: clampCrop({ ...selectedCrop, ...patch }) }, "crop");
+  }
+
+  function zoomCropBy(delta: number) {
+    updateCrop({ zoom: selectedCrop.zoom + delta });
+  }
+
+  function resetCrop() {
+    onEdit({ crop: undefined });
+  }
+
+  function startCropDrag(e: React.PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropDragRef.current = { x: e.clientX, y: e.clientY };
+  }
+
+  function moveCropDrag(e: React.PointerEvent<HTMLDivElement>) {
+    const start = cropDragRef.current;
+    if (!start) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const next = panCrop(
+      selectedCrop,
+      e.clientX - start.x,
+      e.clientY - start.y,
+      rect.width,
+      rect.height
+    );
+    cropDragRef.current = { x: e.clientX, y: e.clientY };
+    onEdit({ crop: next }, "crop");
+  }
+
+  function endCropDrag() {
+    cropDragRef.current = null;
+  }
+
+  return (
+    <div
+      style={{
+        width: 320,
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        padding: 16,
+        color: black,
+        background: "white",
+      }}
+    >
+      <div style={{ fontWeight: 900, marginBottom: 12, color: black }}>Editor</div>
+
+      {cell ? (
+        <>
+          <div style={{ marginBottom: 12 }}>
+            <div style={{ fontSize: 12, fontWeight: 900, marginBottom: 6, color: black }}>
+              Label
+            </div>
+            <input
+              value={cell.label}
+              onChange={(e) => onEdit({ label: e.target.value }, "label")}
+              style={{
+                ...inputStyle,
+                width: "100%",
+                height: 38,
+                padding: "0 10px",
+              }}
+              aria-label="Label"
+            />
+          </div>
+
+          {/* What the cover is (from search); not exported */}
+          {cell.source?.title ? (
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "baseline",
+                gap: 8,
+                marginBottom: 12,
+                fontSize: 12,
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 900 }}>{cellCaption(cell)}</div>
+                <div style={{ color: gray }}>
+                  {isSearchProviderId(cell.source.provider)
+                    ? getSearchProvider(cell.source.provider).source
+                    : cell.source.provider}
+                </div>
+              </div>
+              {cell.source.url ? (
+                <a
+                  href={cell.source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: "#0070f3", fontWeight: 900, whiteSpace: "nowrap" }}
+                >
+                  Details
+                </a>
+              ) : null}
+            </div>
+          ) : null}
+
+          {/* Image controls: Search / Upload / Clear */}
+          <div style={{ display: "flex", gap: 10, marginBottom: 12 }}>
+            <button
+              onClick={onSearch}
+              style={{
+                ...buttonStyle,
+                flex: 1,
+                height: 40,
+              }}
+            >
+              Search
+            </button>
+
+            <button
+              onClick={onUpload}
+              style={{
+                ...buttonStyle,
+                flex: 1,
+                height: 40,
+              }}
+            >
+              Upload
+            </button>
+
+            <button
+              onClick={onClear}
+              style={{
+                ...buttonStyle,
+                width: 90,
+                height: 40,
+              }}
+            >
+              Clear
+            </button>
+          </div>
+
+          {canPickArtwork ? (
+            <button
+              onClick={onPickArtwork}
+              style={{ ...buttonStyle, width: "100%", height: 40, marginBottom: 12 }}
+            >
+              Alternate covers
+            </button>
+          ) : null}
+
+          {/* Crop: drag the preview to move the focal point, zoom with the slider/wheel */}
+          {cell.imageUrl ? (
+            <div style={{ marginBottom: 12 }}>
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  marginBottom: 6,
+                }}
+              >
+                <div style={{ fontSize: 12, fontWeight: 900, color: black }}>Crop</div>
+                <button
+                  onClick={resetCrop}
+                  disabled={isDefaultCrop(cell.crop)}
+                  style={{ ...buttonStyle, height: 26, padding: "0 8px", fontSize: 12 }}
+                >
+                  Reset
+                </button>
+              </div>
+
+              <div
+                onPointerDown={startCropDrag}
+                onPointerMove={moveCropDrag}
+                onPointerUp={endCropDrag}
+                onPointerCancel={endCropDrag}
+                onWheel={(e) => zoomCropBy(e.deltaY < 0 ? 0.1 : -0.1)}
+                style={{
+                  position: "relative",
+                  width: "60%",
+                  margin: "0 auto 8px",
+                  aspectRatio: layout.aspect,
+                  overflow: "hidden",
+                  border: "2px solid black",
+                  cursor: "grab",
+                  touchAction: "none",
+                  userSelect: "none",
+                }}
+              >
+                <div style={cropImageStyle(cell.imageUrl, cell.crop)} />
+                {/* Crosshair on the focal point */}
+                <div
+                  style={{
+                    position: "absolute",
+                    left: `${selectedCrop.x}%`,
+                    top: `${selectedCrop.y}%`,
+                    width: 10,
+                    height: 10,
+                    marginLeft: -5,
+                    marginTop: -5,
+                    borderRadius: "50%",
+                    border: "2px solid white",
+                    boxShadow: "0 0 0 1px black",
+                    pointerEvents: "none",
+                  }}
+                />
+              </div>
+
+              <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 12 }}>
+                <label style={{ display: "flex", gap: 6, alignItems: "center", flex: 1 }}>
+                  Zoom
+                  <input
+                    type="range"
+                    min={MIN_ZOOM}
+                    max={MAX_ZOOM}
+                    step={0.05}
+                    value={selectedCrop.zoom}
+                    onChange={(e) => updateCrop({ zoom: Number(e.target.value) })}
+                    style={{ flex: 1 }}
+                  />
+                </label>
+                <select
+                  value={selectedCrop.fit}
+                  onChange={(e) =>
+                    updateCrop({ fit: e.target.value as NonNullable<CellCrop["fit"]> })
+                  }
+                  style={{ ...inputStyle, height: 30, padding: "0 6px" }}
+                  aria-label="Fit mode"
+                >
+                  <option value="cover">Fill</option>
+                  <option value="contain">Fit</option>
+                </select>
+              </div>
+            </div>
+          ) : null}
+
+          {mode === "tier" ? (
+            // Keyboard-accessible alternative to dragging between tiers
+            <div style={{ display: "flex", gap: 6, marginBottom: 12 }}>
+              <select
+                value={selectedTierItem?.row ?? POOL_ROW}
+                onChange={(e) => onMoveTierItem({ row: Number(e.target.value) })}
+                style={{ ...inputStyle, height: 34, padding: "0 6px", flex: 1 }}
+                aria-label="Move to tier"
+              >
+                {tierList.rows.map((row, r) => (
+                  <option key={r} value={r}>
+                    Tier: {row.label || `Row ${r + 1}`}
+                  </option>
+                ))}
+                <option value={POOL_ROW}>Unranked</option>
+              </select>
+              <button
+                onClick={onRemoveTierItem}
+                style={{ ...buttonStyle, height: 34, padding: "0 10px" }}
+              >
+                Remove
+              </button>
+              <button
+                onClick={onDeselectTierItem}
+                style={{ ...buttonStyle, height: 34, padding: "0 10px" }}
+                title="Deselect, so new covers go to the unranked pool"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* Move controls: keyboard-accessible alternative to dragging */}
+              <div style={{ marginBottom: 12 }}>
+                <div style={{ fontSize: 12, fontWeight: 900, marginBottom: 6, color: black }}>
+                  Move {swapMode === "image" ? "image" : "cell"}
+                </div>
+                <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                  {(
+                    [
+                      { direction: "left", symbol: "←", label: "left" },
+                      { direction: "up", symbol: "↑", label: "up" },
+                      { direction: "down", symbol: "↓", label: "down" },
+                      { direction: "right", symbol: "→", label: "right" },
+                    ] as const
+                  ).map((m) => (
+                    <button
+                      key={m.direction}
+                      onClick={() => onMove(m.direction)}
+                      disabled={neighborIndex(layout, selectedIndex!, m.direction) === null}
+                      aria-label={`Move ${swapMode === "image" ? "image" : "cell"} ${m.label}`}
+                      style={{ ...buttonStyle, width: 40, height: 34 }}
+                    >
+                      {m.symbol}
+                    </button>
+                  ))}
+
+                  <select
+                    value={swapMode}
+                    onChange={(e) => onSwapModeChange(e.target.value as SwapMode)}
+                    style={{ ...inputStyle, height: 34, padding: "0 6px", flex: 1 }}
+                    aria-label="What moves when dragging or using the arrows"
+                  >
+                    <option value="cell">Label + image</option>
+                    <option value="image">Image only</option>
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
+
+          <div style={{ fontSize: 12, color: gray }}>
+            {mode === "tier" ? (
+              <>
+                Tip: drag covers between tiers and the unranked pool, or drop an image file onto a
+                cover to replace it.
+              </>
+            ) : (
+              <>
+                Tip: Upload is great for custom covers and personal images. You can also drag cells
+                onto each other, drop image files straight onto a cell, or paste an image with
+                Ctrl+V.
+              </>
+            )}
+          </div>
+        </>
+      ) : mode === "tier" ? (
+        // Nothing selected: new covers go to the unranked pool
+        <>
+          <div style={{ color: gray, marginBottom: 12 }}>
+            Click a cover to edit it, or add new ones to the unranked pool.
+          </div>
+          <div style={{ display: "flex", gap: 10 }}>
+            <button onClick={onSearch} style={{ ...buttonStyle, flex: 1, height: 40 }}>
+              Search
+            </button>
+            <button onClick={onUpload} style={{ ...buttonStyle, flex: 1, height: 40 }}>
+              Upload
+            </button>
+          </div>
+        </>
+      ) : (
+        <div style={{ color: gray }}>
+          Click a cell to edit it. Arrow keys move between cells; / searches, U uploads, Ctrl+V
+          pastes an image and Delete clears the selected cell.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { ChartState } from "@/lib/chart";
+import {
+  EXPORT_FORMATS,
+  EXPORT_PIXEL_RATIOS,
+  EXPORT_TARGETS,
+  captureChart,
+  capturePixelRatio,
+  composeExport,
+  encodeCanvas,
+  exportFileName,
+  formatFileSize,
+  type ExportOptions,
+} from "@/lib/exportImage";
+import Modal from "./Modal";
+import { black, buttonStyle, formInputStyle, formLabelStyle, gray } from "./styles";
+
+type ExportDialogProps = {
+  chart: ChartState;
+  // The exported part of the page (title + grid or tier rows)
+  exportRef: React.RefObject<HTMLDivElement | null>;
+  // Kept by the caller so they survive closing the dialog
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  onNotice: (message: string) => void;
+  onClose: () => void;
+};
+
+// Mounted only while open, so every open starts with fresh captures
+export default function ExportDialog({
+  chart,
+  exportRef,
+  options,
+  onOptionsChange,
+  onNotice,
+  onClose,
+}: ExportDialogProps) {
+  const { title: chartTitle, theme } = chart;
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // The encoded image for the current options: shown as the size estimate, reused on save.
+  // Only used while it still shows the current chart.
+  const [exportRender, setExportRender] = useState<{
+    blob: Blob;
+    width: number;
+    height: number;
+    chart: ChartState;
+  } | null>(null);
+  const exportResult = exportRender?.chart === chart ? exportRender : null;
+  // html-to-image captures are the slow part, so keep them per pixel ratio for as
+  // long as the chart they show is the current one. Room edits from other people
+  // can change it while the dialog is open.
+  const capturesRef = useRef({
+    chart: null as ChartState | null,
+    byRatio: new Map<number, Promise<HTMLCanvasElement>>(),
+  });
+
+  function updateOptions(patch: Partial<ExportOptions>) {
+    onOptionsChange({ ...options, ...patch });
+    setExportRender(null);
+  }
+
+  async function renderExport(exportOptions: ExportOptions) {
+    const node = exportRef.current;
+    if (!node) throw new Error("Nothing to export");
+
+    const pixelRatio = capturePixelRatio(node, exportOptions);
+    if (capturesRef.current.chart !== chart) {
+      capturesRef.current = { chart, byRatio: new Map() };
+    }
+    const captures = capturesRef.current.byRatio;
+    let capture = captures.get(pixelRatio);
+    if (!capture) {
+      capture = captureChart(node, pixelRatio);
+      captures.set(pixelRatio, capture);
+      capture.catch(() => captures.delete(pixelRatio));
+    }
+
+    const { background } = theme;
+    return composeExport(await capture, pixelRatio, exportOptions, {
+      fill: background.type === "gradient" ? background.from : background.color,
+      textColor: theme.titleColor,
+      fontFamily: getComputedStyle(node).fontFamily,
+    });
+  }
+
+  // Effect events always see the latest chart without re-running the effect
+  const renderExportPreview = useEffectEvent((exportOptions: ExportOptions) =>
+    renderExport(exportOptions)
+  );
+
+  // Re-render (debounced) whenever the options or the chart change, for the size estimate
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = window.setTimeout(async () => {
+      setIsExporting(true);
+      try {
+        const canvas = await renderExportPreview(options);
+        const blob = await encodeCanvas(canvas, options.format, options.quality);
+        if (cancelled) return;
+        setExportRender({ blob, width: canvas.width, height: canvas.height, chart });
+        setExportError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error(err);
+        setExportRender(null);
+        setExportError(
+          err instanceof Error && err.message.startsWith("This browser")
+            ? `${err.message}. Try PNG or JPEG instead.`
+            : "Export failed. One of the cover images may have failed to load; try re-picking it or uploading it instead."
+        );
+      } finally {
+        if (!cancelled) setIsExporting(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [options, chart]);
+
+  function downloadExport() {
+    if (!exportResult) return;
+    const url = URL.createObjectURL(exportResult.blob);
+    const link = document.createElement("a");
+    link.download = exportFileName(chartTitle, options.format);
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  }
+
+  async function copyExport() {
+    if (!exportResult) return;
+    try {
+      // Clipboards only take PNG, whatever format is selected
+      const png =
+        options.format === "png"
+          ? Promise.resolve(exportResult.blob)
+          : renderExport(options).then((canvas) => encodeCanvas(canvas, "png"));
+      await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+      onNotice("Chart image copied to the clipboard.");
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setExportError("Could not copy the image. Your browser may not allow image copying.");
+    }
+  }
+
+  async function shareExport() {
+    if (!exportResult) return;
+    const file = new File([exportResult.blob], exportFileName(chartTitle, options.format), {
+      type: exportResult.blob.type,
+    });
+    if (!navigator.canShare?.({ files: [file] })) {
+      setExportError("Your browser can't share image files. Download the image instead.");
+      return;
+    }
+
+    try {
+      await navigator.share({ files: [file], title: chartTitle });
+      onClose();
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError; that's not a failure
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      console.error(err);
+      setExportError("Could not share the image.");
+    }
+  }
+
+  return (
+    <Modal title="Export image" width={440} onClose={onClose}>
+      <div
+        style={{
+          padding: 16,
+          overflowY: "auto",
+          display: "grid",
+          gridTemplateColumns: "90px 1fr",
+          gap: 10,
+          fontSize: 13,
+        }}
+      >
+        <div style={formLabelStyle}>Format</div>
+        <div style={{ display: "flex", gap: 8 }}>
+          {EXPORT_FORMATS.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => updateOptions({ format: f.id })}
+              style={{
+                ...buttonStyle,
+                height: 30,
+                padding: "0 12px",
+                background: options.format === f.id ? "#111" : "white",
+                color: options.format === f.id ? "white" : black,
+              }}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {options.format !== "png" ? (
+          <>
+            <div style={formLabelStyle}>Quality</div>
+            <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={options.quality}
+                onChange={(e) => updateOptions({ quality: Number(e.target.value) })}
+                style={{ flex: 1 }}
+              />
+              <span style={{ width: 36, textAlign: "right" }}>
+                {Math.round(options.quality * 100)}%
+              </span>
+            </label>
+          </>
+        ) : null}
+
+        <div style={formLabelStyle}>Size</div>
+        <select
+          value={
+            options.size.type === "scale"
+              ? `scale:${options.size.pixelRatio}`
+              : `target:${options.size.width}x${options.size.height}`
+          }
+          onChange={(e) => {
+            const [type, value] = e.target.value.split(":");
+            if (type === "scale") {
+              updateOptions({ size: { type, pixelRatio: Number(value) } });
+            } else {
+              const [width, height] = value.split("x").map(Number);
+              updateOptions({ size: { type: "target", width, height } });
+            }
+          }}
+          style={formInputStyle}
+        >
+          {EXPORT_PIXEL_RATIOS.map((r) => (
+            <option key={r} value={`scale:${r}`}>
+              {r}x resolution
+            </option>
+          ))}
+          {EXPORT_TARGETS.map((t) => (
+            <option key={t.id} value={`target:${t.width}x${t.height}`}>
+              {t.label} ({t.width}x{t.height})
+            </option>
+          ))}
+        </select>
+
+        <div style={formLabelStyle}>Footer</div>
+        <input
+          value={options.watermark}
+          onChange={(e) => updateOptions({ watermark: e.target.value })}
+          placeholder="Optional, e.g. your username"
+          style={formInputStyle}
+        />
+
+        <div style={formLabelStyle}>Result</div>
+        <div style={{ alignSelf: "center", color: exportError ? "crimson" : gray }}>
+          {exportError ??
+            (exportResult
+              ? `${exportResult.width}x${exportResult.height}, ` +
+                formatFileSize(exportResult.blob.size)
+              : "Rendering...")}
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "flex-end",
+          gap: 8,
+          padding: 16,
+          borderTop: "1px solid #eee",
+        }}
+      >
+        {typeof navigator !== "undefined" && "share" in navigator ? (
+          <button
+            onClick={shareExport}
+            disabled={!exportResult || isExporting}
+            style={{ ...buttonStyle, height: 36, padding: "0 14px" }}
+          >
+            Share
+          </button>
+        ) : null}
+        {typeof ClipboardItem !== "undefined" ? (
+          <button
+            onClick={copyExport}
+            disabled={!exportResult || isExporting}
+            style={{ ...buttonStyle, height: 36, padding: "0 14px" }}
+          >
+            Copy
+          </button>
+        ) : null}
+        <button
+          onClick={downloadExport}
+          disabled={!exportResult || isExporting}
+          style={{
+            ...buttonStyle,
+            height: 36,
+            padding: "0 14px",
+            background: "#111",
+            color: "white",
+            cursor: !exportResult || isExporting ? "not-allowed" : "pointer",
+          }}
+        >
+          Download
+        </button>
+      </div>
+    </Modal>
+  );
+}
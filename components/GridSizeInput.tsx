@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, clampGridSize } from "@/lib/layouts";
+import { inputStyle } from "./styles";
+
+type GridSizeInputProps = {
+  value: number;
+  onChange: (size: number) => void;
+  // "Rows" or "Columns"
+  label: string;
+};
+
+// Rows or columns of a grid. What's typed is kept as text while the field has
+// focus, so clearing it to type a new number doesn't resize the grid to one row
+// on the way; only whole numbers in range are applied as you type, and anything
+// else is clamped (or dropped, if empty) when the field loses focus.
+export default function GridSizeInput({ value, onChange, label }: GridSizeInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  function handleChange(text: string) {
+    setDraft(text);
+    const size = Number(text);
+    if (text.trim() && Number.isInteger(size) && size >= MIN_GRID_SIZE && size <= MAX_GRID_SIZE) {
+      onChange(size);
+    }
+  }
+
+  function handleBlur() {
+    const size = Number(draft);
+    if (draft?.trim() && Number.isFinite(size) && clampGridSize(size) !== value) {
+      onChange(clampGridSize(size));
+    }
+    setDraft(null);
+  }
+
+  return (
+    <input
+      type="number"
+      min={MIN_GRID_SIZE}
+      max={MAX_GRID_SIZE}
+      value={draft ?? value}
+      onChange={(e) => handleChange(e.target.value)}
+      onBlur={handleBlur}
+      style={{ ...inputStyle, width: 64, height: 40 }}
+      title={label}
+      aria-label={label}
+    />
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useEffectEvent, useId, useRef, useState } from "react";
+import { trapFocus } from "@/lib/focusTrap";
+import { black, buttonStyle } from "./styles";
+
+type ModalProps = {
+  title: React.ReactNode;
+  width: number;
+  // Controls under the title that stay put while the body scrolls (search fields)
+  toolbar?: React.ReactNode;
+  onClose: () => void;
+  children: React.ReactNode;
+};
+
+// The dialog every modal is built on: a panel over a backdrop with a title and a
+// Close button, closed by Escape or a click outside. Tab stays inside the panel,
+// and focus goes back to where it was once the modal closes. Mount it only while
+// the modal is open.
+export default function Modal({ title, width, toolbar, onClose, children }: ModalProps) {
+  const titleId = useId();
+  const panelRef = useRef<HTMLDivElement | null>(null);
+  // Read on the first render, before a child's autoFocus moves focus into the panel
+  const [opener] = useState(() =>
+    document.activeElement instanceof HTMLElement ? document.activeElement : null
+  );
+
+  const close = useEffectEvent(onClose);
+  useEffect(() => {
+    const panel = panelRef.current;
+    if (panel && !panel.contains(document.activeElement)) panel.focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    window.addEventListener("keydown", onKeyDown);
+
+    // No background scrolling while open
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      document.body.style.overflow = overflow;
+      opener?.focus();
+    };
+  }, [opener]);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 20,
+        zIndex: 9999,
+      }}
+    >
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => panelRef.current && trapFocus(e, panelRef.current)}
+        style={{
+          width,
+          maxWidth: "100%",
+          maxHeight: "90vh",
+          background: "white",
+          borderRadius: 12,
+          border: "1px solid #ddd",
+          display: "flex",
+          flexDirection: "column",
+          overflow: "hidden",
+          color: black,
+          outline: "none",
+        }}
+      >
+        <div style={{ padding: 16, borderBottom: "1px solid #eee" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+            <div id={titleId} style={{ fontWeight: 900, fontSize: 18, color: black }}>
+              {title}
+            </div>
+            <button
+              onClick={onClose}
+              style={{ ...buttonStyle, padding: "6px 10px", height: 34, fontWeight: 900 }}
+              title="Close (Esc)"
+            >
+              Close
+            </button>
+          </div>
+          {toolbar}
+        </div>
+
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { MAX_ROOM_NAME_LENGTH, type RoomPeer } from "@/lib/room";
+import type { RoomStatus } from "@/lib/roomClient";
+import { borderGray, buttonStyle, gray, inputStyle } from "./styles";
+
+type RoomBarProps = {
+  roomId: string;
+  status: RoomStatus;
+  // Everyone in the room, including us
+  peers: RoomPeer[];
+  clientId: string | null;
+  name: string;
+  onNameChange: (name: string) => void;
+  onCopyLink: () => void;
+  onLeave: () => void;
+};
+
+const STATUS_TEXT: Record<RoomStatus, string> = {
+  connecting: "Connecting…",
+  open: "Live",
+  offline: "Reconnecting… (rooms need the app started with npm run dev:rooms)",
+  full: "This room is full.",
+  unavailable: "The server has too many rooms open. Try again later.",
+};
+
+// Shown while the chart is shared in a collaborative room: who's here, our name,
+// and the room link
+export default function RoomBar({
+  roomId,
+  status,
+  peers,
+  clientId,
+  name,
+  onNameChange,
+  onCopyLink,
+  onLeave,
+}: RoomBarProps) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 10,
+        flexWrap: "wrap",
+        marginBottom: 12,
+        padding: "8px 12px",
+        border: `1px solid ${borderGray}`,
+        borderRadius: 8,
+        fontSize: 13,
+      }}
+    >
+      <div style={{ fontWeight: 800 }}>Room {roomId}</div>
+      <div role="status" style={{ color: status === "open" ? "#30a46c" : gray }}>
+        {STATUS_TEXT[status]}
+      </div>
+
+      <div
+        style={{ display: "flex", gap: 6, flexWrap: "wrap", flex: 1 }}
+        aria-label="People in this room"
+      >
+        {status === "open"
+          ? peers.map((peer) => (
+              <span
+                key={peer.id}
+                style={{
+                  padding: "2px 8px",
+                  borderRadius: 999,
+                  background: peer.color,
+                  color: "white",
+                  fontWeight: 700,
+                }}
+              >
+                {peer.name}
+                {peer.id === clientId ? " (you)" : ""}
+              </span>
+            ))
+          : null}
+      </div>
+
+      <input
+        value={name}
+        onChange={(e) => onNameChange(e.target.value)}
+        maxLength={MAX_ROOM_NAME_LENGTH}
+        placeholder="Your name"
+        aria-label="Your name in this room"
+        style={{ ...inputStyle, width: 140 }}
+      />
+      <button onClick={onCopyLink} style={{ ...buttonStyle, height: 30, padding: "0 10px" }}>
+        Copy Room Link
+      </button>
+      <button onClick={onLeave} style={{ ...buttonStyle, height: 30, padding: "0 10px" }}>
+        Leave
+      </button>
+    </div>
+  );
+}
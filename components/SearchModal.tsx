@@ -0,0 +1,458 @@
+"use client";
+
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { LruCache } from "@/lib/lruCache";
+import { readSearchError } from "@/lib/search/errors";
+import {
+  IGDB_PLATFORMS,
+  SEARCH_PROVIDERS,
+  getSearchProvider,
+  type SearchProviderId,
+} from "@/lib/search/providers";
+import { searchUrl } from "@/lib/search/query";
+import {
+  MAX_SEARCH_PAGE,
+  type SearchFilters,
+  type SearchPage,
+  type SearchResult,
+} from "@/lib/search/types";
+import Modal from "./Modal";
+import { black, borderGray, buttonStyle, gray, inputStyle } from "./styles";
+
+// Typeahead waits this long after the last keystroke, and for this many characters
+const TYPEAHEAD_DELAY_MS = 300;
+const MIN_TYPEAHEAD_LENGTH = 2;
+
+type SearchModalProps = {
+  isOpen: boolean;
+  searchType: SearchProviderId;
+  // Result pages by request URL; shared with bulk fill, which makes the same requests
+  cache: LruCache<SearchPage>;
+  onSearchTypeChange: (type: SearchProviderId) => void;
+  onPick: (result: SearchResult) => void;
+  onClose: () => void;
+};
+
+// Cover search: provider select, filters, typeahead results and paging. Stays
+// mounted while closed so the query and results are still there next time.
+export default function SearchModal({
+  isOpen,
+  searchType,
+  cache,
+  onSearchTypeChange,
+  onPick,
+  onClose,
+}: SearchModalProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const searchProvider = getSearchProvider(searchType);
+
+  // Pagination + filters
+  const [searchPage, setSearchPage] = useState(1);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+
+  function changeSearchType(next: SearchProviderId) {
+    onSearchTypeChange(next);
+    // Formats and platforms are provider-specific; year and cover toggles carry over
+    setSearchFilters((prev) => ({ ...prev, format: undefined, platform: undefined }));
+  }
+
+  function updateSearchFilters(patch: Partial<SearchFilters>) {
+    setSearchFilters((prev) => ({ ...prev, ...patch }));
+  }
+
+  // Typeahead: one request in flight at a time, and recent pages cached per
+  // provider + query + filters (the request URL) so retyping or backspacing is instant
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const typeaheadTimerRef = useRef<number | undefined>(undefined);
+  const [activeResultIndex, setActiveResultIndex] = useState(-1);
+  // Query behind the shown results, for the screen reader announcement
+  const [searchedQuery, setSearchedQuery] = useState("");
+  const resultRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  async function fetchSearchPage(page: number) {
+    const q = query.trim();
+    if (!q) return;
+
+    // A slower, older response must never overwrite a newer one
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
+    setIsSearching(true);
+    setSearchError(null);
+
+    try {
+      const url = searchUrl(searchType, { q, page, filters: searchFilters });
+      let data = cache.get(url);
+      if (!data) {
+        const res = await fetch(url, { signal: controller.signal });
+        if (!res.ok) throw new Error(await readSearchError(res, searchProvider.label));
+        data = (await res.json()) as SearchPage;
+        cache.set(url, data);
+      }
+      if (controller.signal.aborted) return;
+
+      // Later pages can overlap earlier ones when upstream ranking shifts
+      const pageResults = data.results || [];
+      setResults((prev) => {
+        if (page === 1) return pageResults;
+        const seen = new Set(prev.map((r) => r.id));
+        return [...prev, ...pageResults.filter((r) => !seen.has(r.id))];
+      });
+      if (page === 1) setActiveResultIndex(-1);
+      setSearchedQuery(q);
+      setSearchPage(page);
+      setHasMoreResults(Boolean(data.hasMore) && page < MAX_SEARCH_PAGE);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setSearchError(e instanceof Error ? e.message : "Search failed");
+    } finally {
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsSearching(false);
+      }
+    }
+  }
+
+  function searchAnnouncement() {
+    if (isSearching) return "Searching...";
+    if (searchError) return searchError;
+    if (!searchedQuery) return "";
+    if (results.length === 0) return `No results for "${searchedQuery}"`;
+    const count = `${results.length} result${results.length === 1 ? "" : "s"}`;
+    return `${count} for "${searchedQuery}"${hasMoreResults ? ", more available" : ""}`;
+  }
+
+  function runSearch() {
+    window.clearTimeout(typeaheadTimerRef.current);
+    return fetchSearchPage(1);
+  }
+
+  function loadMoreResults() {
+    return fetchSearchPage(searchPage + 1);
+  }
+
+  // Live results while typing (debounced); also re-runs when the provider or filters change
+  const fetchFirstPage = useEffectEvent(() => fetchSearchPage(1));
+  useEffect(() => {
+    if (!isOpen || query.trim().length < MIN_TYPEAHEAD_LENGTH) return;
+
+    typeaheadTimerRef.current = window.setTimeout(() => fetchFirstPage(), TYPEAHEAD_DELAY_MS);
+    return () => window.clearTimeout(typeaheadTimerRef.current);
+  }, [isOpen, query, searchType, searchFilters]);
+
+  // Closing the modal drops whatever is still loading
+  useEffect(() => {
+    if (!isOpen) searchAbortRef.current?.abort();
+  }, [isOpen]);
+
+  // Keep the keyboard-highlighted result in view
+  useEffect(() => {
+    resultRefs.current[activeResultIndex]?.scrollIntoView({ block: "nearest" });
+  }, [activeResultIndex]);
+
+  // A new query starts the keyboard highlight over
+  function changeQuery(next: string) {
+    setQuery(next);
+    setActiveResultIndex(-1);
+  }
+
+  function handleSearchKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (results.length === 0) return;
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveResultIndex((i) => Math.min(results.length - 1, Math.max(-1, i + step)));
+    } else if (e.key === "Enter") {
+      // Results still showing for an older query are never picked; Enter searches
+      const active = searchedQuery === query.trim() ? results[activeResultIndex] : undefined;
+      if (active) onPick(active);
+      else runSearch();
+    }
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <Modal
+      title="Search covers"
+      width={900}
+      toolbar={
+        <>
+          <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
+            <select
+              value={searchType}
+              onChange={(e) => changeSearchType(e.target.value as SearchProviderId)}
+              style={{
+                height: 40,
+                borderRadius: 8,
+                border: `1px solid ${borderGray}`,
+                padding: "0 10px",
+                fontWeight: 800,
+                color: black,
+                background: "white",
+                outline: "none",
+                cursor: "pointer",
+              }}
+              aria-label="What to search"
+            >
+              {SEARCH_PROVIDERS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+
+            <input
+              value={query}
+              onChange={(e) => changeQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              autoFocus
+              role="combobox"
+              aria-expanded={results.length > 0}
+              aria-controls="search-results"
+              aria-label={`Search ${searchProvider.label.toLowerCase()}`}
+              aria-activedescendant={
+                activeResultIndex >= 0 ? `search-result-${activeResultIndex}` : undefined
+              }
+              placeholder={`Search ${searchProvider.label.toLowerCase()} (${searchProvider.source})...`}
+              style={{
+                flex: 1,
+                minWidth: 200,
+                height: 40,
+                borderRadius: 8,
+                border: `1px solid ${borderGray}`,
+                padding: "0 10px",
+                color: black,
+                background: "white",
+                outline: "none",
+              }}
+            />
+
+            <button
+              onClick={runSearch}
+              disabled={isSearching}
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 14px",
+                background: isSearching ? "#eee" : "white",
+                cursor: isSearching ? "not-allowed" : "pointer",
+                fontWeight: 900,
+              }}
+            >
+              {isSearching ? "Searching..." : "Search"}
+            </button>
+          </div>
+
+          {/* Filters (only the ones the selected provider supports) */}
+          <div
+            style={{
+              display: "flex",
+              gap: 10,
+              marginTop: 10,
+              flexWrap: "wrap",
+              alignItems: "center",
+              fontSize: 12,
+            }}
+          >
+            {searchProvider.filters.includes("year") ? (
+              <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                Year
+                <input
+                  type="number"
+                  placeholder="from"
+                  value={searchFilters.yearFrom ?? ""}
+                  onChange={(e) =>
+                    updateSearchFilters({
+                      yearFrom: e.target.value ? Number(e.target.value) : undefined,
+                    })
+                  }
+                  style={{ ...inputStyle, width: 80, height: 32, padding: "0 8px" }}
+                />
+                –
+                <input
+                  type="number"
+                  placeholder="to"
+                  value={searchFilters.yearTo ?? ""}
+                  onChange={(e) =>
+                    updateSearchFilters({
+                      yearTo: e.target.value ? Number(e.target.value) : undefined,
+                    })
+                  }
+                  style={{ ...inputStyle, width: 80, height: 32, padding: "0 8px" }}
+                />
+              </label>
+            ) : null}
+
+            {searchProvider.formats ? (
+              <select
+                value={searchFilters.format ?? ""}
+                onChange={(e) => updateSearchFilters({ format: e.target.value || undefined })}
+                style={{ ...inputStyle, height: 32, padding: "0 8px", cursor: "pointer" }}
+                aria-label="Format"
+              >
+                <option value="">Any format</option>
+                {searchProvider.formats.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            {searchProvider.filters.includes("platform") ? (
+              <select
+                value={searchFilters.platform ?? ""}
+                onChange={(e) =>
+                  updateSearchFilters({
+                    platform: e.target.value ? Number(e.target.value) : undefined,
+                  })
+                }
+                style={{ ...inputStyle, height: 32, padding: "0 8px", cursor: "pointer" }}
+                aria-label="Platform"
+              >
+                <option value="">Any platform</option>
+                {IGDB_PLATFORMS.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+
+            {searchProvider.filters.includes("covers") ? (
+              <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <input
+                  type="checkbox"
+                  checked={Boolean(searchFilters.includeNoCover)}
+                  onChange={(e) => updateSearchFilters({ includeNoCover: e.target.checked })}
+                />
+                Show entries without covers
+              </label>
+            ) : null}
+          </div>
+
+          {searchError ? (
+            <div style={{ marginTop: 10, color: "crimson", fontSize: 12 }}>{searchError}</div>
+          ) : null}
+
+          {/* Screen reader announcements (visually hidden) */}
+          <div role="status" aria-live="polite" style={{ position: "absolute", left: "-9999px" }}>
+            {searchAnnouncement()}
+          </div>
+        </>
+      }
+      onClose={onClose}
+    >
+      {/* Scrollable results area */}
+      <div
+        style={{
+          padding: 16,
+          overflowY: "auto",
+          flex: 1,
+        }}
+      >
+        <div
+          id="search-results"
+          role="listbox"
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))",
+            gap: 12,
+          }}
+        >
+          {results.map((r, i) => (
+            <button
+              key={`${searchType}-${r.id}`}
+              ref={(el) => {
+                resultRefs.current[i] = el;
+              }}
+              id={`search-result-${i}`}
+              role="option"
+              aria-selected={i === activeResultIndex}
+              onClick={() => onPick(r)}
+              onMouseEnter={() => setActiveResultIndex(i)}
+              style={{
+                border: i === activeResultIndex ? "2px solid #0070f3" : "1px solid #ddd",
+                borderRadius: 10,
+                overflow: "hidden",
+                background: "white",
+                cursor: "pointer",
+                textAlign: "left",
+                padding: 0,
+                color: black,
+              }}
+              title={r.title}
+            >
+              <div
+                style={{
+                  width: "100%",
+                  aspectRatio: "2 / 3",
+                  backgroundImage: r.imageUrl ? `url(${r.imageUrl})` : undefined,
+                  backgroundColor: "#f2f2f2",
+                  backgroundSize: "cover",
+                  backgroundPosition: "center",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  color: gray,
+                  fontSize: 11,
+                }}
+              >
+                {r.imageUrl ? null : "No cover"}
+              </div>
+              <div style={{ padding: 10 }}>
+                <div
+                  style={{
+                    fontWeight: 900,
+                    fontSize: 12,
+                    lineHeight: 1.2,
+                    color: black,
+                  }}
+                >
+                  {r.title}
+                </div>
+                {r.subtitle ? (
+                  <div style={{ fontSize: 11, color: gray, marginTop: 4 }}>{r.subtitle}</div>
+                ) : null}
+                {r.year ? (
+                  <div style={{ fontSize: 11, color: gray, marginTop: 4 }}>{r.year}</div>
+                ) : null}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {hasMoreResults ? (
+          <div style={{ display: "flex", justifyContent: "center", marginTop: 16 }}>
+            <button
+              onClick={loadMoreResults}
+              disabled={isSearching}
+              style={{
+                ...buttonStyle,
+                height: 40,
+                padding: "0 18px",
+                background: isSearching ? "#eee" : "white",
+                cursor: isSearching ? "not-allowed" : "pointer",
+              }}
+            >
+              {isSearching ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        ) : null}
+
+        {results.length === 0 && !isSearching ? (
+          <div style={{ marginTop: 12, color: gray, fontSize: 12 }}>
+            Start typing to search, then click a result (or use the arrow keys and Enter) to set the
+            cell image.
+          </div>
+        ) : null}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CELL_ASPECTS,
+  cellCount,
+  clampGridSize,
+  type CellAspect,
+  type GridLayout,
+} from "@/lib/layouts";
+import {
+  BUILT_IN_TEMPLATES,
+  canShuffle,
+  loadCustomTemplates,
+  newTemplateId,
+  saveCustomTemplates,
+  type ChartTemplate,
+} from "@/lib/templates";
+import GridSizeInput from "./GridSizeInput";
+import Modal from "./Modal";
+import { buttonStyle, gray, inputStyle } from "./styles";
+
+type TemplatesModalProps = {
+  // The current chart, for "Save current chart as template"
+  title: string;
+  layout: GridLayout;
+  labels: string[];
+  onApply: (template: ChartTemplate, shuffle?: boolean) => void;
+  onClose: () => void;
+};
+
+// Built-in and custom question templates. Mounted only while open, so custom
+// templates are re-read from storage (another tab may have changed them).
+export default function TemplatesModal({
+  title,
+  layout,
+  labels,
+  onApply,
+  onClose,
+}: TemplatesModalProps) {
+  const [customTemplates, setCustomTemplates] = useState(loadCustomTemplates);
+  // The template being created or edited (labels/pool as one-per-line text)
+  const [templateForm, setTemplateForm] = useState<{
+    id: string | null;
+    name: string;
+    title: string;
+    layout: GridLayout;
+    labels: string;
+    pool: string;
+  } | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  function editTemplate(template: ChartTemplate | null) {
+    const source = template ?? {
+      id: null,
+      name: title,
+      title,
+      layout,
+      labels,
+      pool: undefined,
+    };
+    setTemplateError(null);
+    setTemplateForm({
+      // Built-ins are copied into a new custom template
+      id: template && !template.builtIn ? template.id : null,
+      name: template?.builtIn ? `${source.name} (copy)` : source.name,
+      title: source.title,
+      layout: source.layout,
+      labels: source.labels.join("\n"),
+      pool: (source.pool ?? []).join("\n"),
+    });
+  }
+
+  function commitCustomTemplates(next: ChartTemplate[]) {
+    try {
+      saveCustomTemplates(next);
+      setCustomTemplates(next);
+      return true;
+    } catch (err) {
+      console.error(err);
+      setTemplateError("Could not save templates (browser storage may be full).");
+      return false;
+    }
+  }
+
+  function saveTemplateForm() {
+    if (!templateForm) return;
+    const name = templateForm.name.trim();
+    if (!name) {
+      setTemplateError("Give the template a name.");
+      return;
+    }
+
+    const lines = (text: string) => text.split(/\r?\n/).map((l) => l.trim());
+    const template: ChartTemplate = {
+      id: templateForm.id ?? newTemplateId(),
+      name,
+      title: templateForm.title.trim(),
+      layout: templateForm.layout,
+      labels: lines(templateForm.labels).slice(0, cellCount(templateForm.layout)),
+      pool: lines(templateForm.pool).filter(Boolean),
+    };
+    const next = customTemplates.some((t) => t.id === template.id)
+      ? customTemplates.map((t) => (t.id === template.id ? template : t))
+      : [...customTemplates, template];
+    if (commitCustomTemplates(next)) setTemplateForm(null);
+  }
+
+  function deleteTemplate(template: ChartTemplate) {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    commitCustomTemplates(customTemplates.filter((t) => t.id !== template.id));
+  }
+
+  // Same rules as resizeGrid: editing rows/cols makes it a plain uniform grid
+  function updateTemplateGrid(patch: { rows?: number; cols?: number }) {
+    setTemplateForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            layout: {
+              rows: clampGridSize(patch.rows ?? prev.layout.rows),
+              cols: clampGridSize(patch.cols ?? prev.layout.cols),
+              aspect: prev.layout.aspect,
+            },
+          }
+        : prev
+    );
+  }
+
+  return (
+    <Modal
+      title={templateForm ? (templateForm.id ? "Edit template" : "New template") : "Templates"}
+      width={760}
+      onClose={onClose}
+    >
+      {templateForm ? (
+        // Editor
+        <div style={{ padding: 16, overflowY: "auto", flex: 1, display: "grid", gap: 10 }}>
+          <label style={{ display: "grid", gap: 4, fontSize: 12, fontWeight: 800 }}>
+            Template name
+            <input
+              value={templateForm.name}
+              onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+              autoFocus
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: "grid", gap: 4, fontSize: 12, fontWeight: 800 }}>
+            Chart title
+            <input
+              value={templateForm.title}
+              onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })}
+              style={inputStyle}
+            />
+          </label>
+
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <GridSizeInput
+              value={templateForm.layout.rows}
+              onChange={(rows) => updateTemplateGrid({ rows })}
+              label="Rows"
+            />
+            <span style={{ fontWeight: 800 }}>x</span>
+            <GridSizeInput
+              value={templateForm.layout.cols}
+              onChange={(cols) => updateTemplateGrid({ cols })}
+              label="Columns"
+            />
+            <select
+              value={templateForm.layout.aspect}
+              onChange={(e) =>
+                setTemplateForm({
+                  ...templateForm,
+                  layout: { ...templateForm.layout, aspect: e.target.value as CellAspect },
+                })
+              }
+              style={{ ...inputStyle, height: 40, fontWeight: 800, cursor: "pointer" }}
+              aria-label="Cell shape"
+            >
+              {CELL_ASPECTS.map((a) => (
+                <option key={a.value} value={a.value}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+            <span style={{ fontSize: 12, color: gray }}>
+              {cellCount(templateForm.layout)} cells
+            </span>
+          </div>
+
+          <label style={{ display: "grid", gap: 4, fontSize: 12, fontWeight: 800 }}>
+            Prompts, one per line (extra lines are ignored)
+            <textarea
+              value={templateForm.labels}
+              onChange={(e) => setTemplateForm({ ...templateForm, labels: e.target.value })}
+              rows={10}
+              style={{ ...inputStyle, resize: "vertical", fontFamily: "inherit" }}
+            />
+          </label>
+          <label style={{ display: "grid", gap: 4, fontSize: 12, fontWeight: 800 }}>
+            Extra prompts for shuffling (optional)
+            <textarea
+              value={templateForm.pool}
+              onChange={(e) => setTemplateForm({ ...templateForm, pool: e.target.value })}
+              rows={5}
+              style={{ ...inputStyle, resize: "vertical", fontFamily: "inherit" }}
+            />
+          </label>
+
+          {templateError ? (
+            <div style={{ color: "crimson", fontSize: 12 }}>{templateError}</div>
+          ) : null}
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+            <button
+              onClick={() => setTemplateForm(null)}
+              style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveTemplateForm}
+              style={{ ...buttonStyle, height: 40, padding: "0 18px", fontWeight: 900 }}
+            >
+              Save template
+            </button>
+          </div>
+        </div>
+      ) : (
+        // Library
+        <div style={{ padding: 16, overflowY: "auto", flex: 1, display: "grid", gap: 8 }}>
+          <div style={{ fontSize: 12, color: gray }}>
+            Applying a template changes the title, grid and prompts. Covers already placed stay in
+            their cells; any that don&apos;t fit a smaller grid come back if you make it bigger.
+          </div>
+
+          {[...BUILT_IN_TEMPLATES, ...customTemplates].map((t) => (
+            <div
+              key={t.id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                gap: 12,
+                padding: 10,
+                border: "1px solid #eee",
+                borderRadius: 10,
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 900, fontSize: 14 }}>{t.name}</div>
+                <div
+                  style={{
+                    fontSize: 12,
+                    color: gray,
+                    whiteSpace: "nowrap",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                  }}
+                  title={t.labels.filter(Boolean).join(", ")}
+                >
+                  {t.layout.rows} x {t.layout.cols}
+                  {t.builtIn ? "" : " · custom"} · {t.labels.filter(Boolean).join(", ")}
+                </div>
+              </div>
+
+              <div style={{ display: "flex", gap: 6, flexShrink: 0 }}>
+                <button
+                  onClick={() => onApply(t)}
+                  style={{ ...buttonStyle, height: 32, padding: "0 12px", fontWeight: 900 }}
+                >
+                  Apply
+                </button>
+                {canShuffle(t) ? (
+                  <button
+                    onClick={() => onApply(t, true)}
+                    style={{ ...buttonStyle, height: 32, padding: "0 10px" }}
+                    title="Apply with prompts picked at random from a larger pool"
+                  >
+                    Shuffle
+                  </button>
+                ) : null}
+                <button
+                  onClick={() => editTemplate(t)}
+                  style={{ ...buttonStyle, height: 32, padding: "0 10px" }}
+                  title={t.builtIn ? "Copy into a new custom template" : undefined}
+                >
+                  {t.builtIn ? "Customize" : "Edit"}
+                </button>
+                {t.builtIn ? null : (
+                  <button
+                    onClick={() => deleteTemplate(t)}
+                    style={{ ...buttonStyle, height: 32, padding: "0 10px" }}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {templateError ? (
+            <div style={{ color: "crimson", fontSize: 12 }}>{templateError}</div>
+          ) : null}
+
+          <div style={{ display: "flex", justifyContent: "flex-end" }}>
+            <button
+              onClick={() => editTemplate(null)}
+              style={{ ...buttonStyle, height: 40, padding: "0 14px" }}
+            >
+              Save current chart as template
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
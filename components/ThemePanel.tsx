@@ -0,0 +1,362 @@
+"use client";
+
+import { useRef } from "react";
+import {
+  CAPTION_PLACEMENTS,
+  CHART_FONTS,
+  LABEL_POSITIONS,
+  MAX_BORDER_RADIUS,
+  MAX_BORDER_WIDTH,
+  MAX_GRID_GAP,
+  THEME_PRESETS,
+  matchThemePreset,
+  withCaption,
+  type CaptionPlacement,
+  type ChartFontId,
+  type ChartTheme,
+  type LabelPosition,
+  type ThemeBackground,
+} from "@/lib/themes";
+import { MAX_BACKGROUND_IMAGE_SIZE, UploadImageError, processUploadImage } from "@/lib/uploadImage";
+import { black, formInputStyle, formLabelStyle } from "./styles";
+
+type ThemePanelProps = {
+  theme: ChartTheme;
+  // A whole new theme (a preset)
+  onChange: (theme: ChartTheme) => void;
+  // `undoKey` groups rapid changes to one control (color pickers, sliders) into one undo step
+  onUpdate: (patch: Partial<ChartTheme>, undoKey: string) => void;
+};
+
+function clampNumber(value: string, max: number) {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(0, n)) : 0;
+}
+
+// "Chart style": theme presets plus every color, font and spacing of the exported chart
+export default function ThemePanel({ theme, onChange, onUpdate }: ThemePanelProps) {
+  const backgroundInputRef = useRef<HTMLInputElement | null>(null);
+  const themePresetId = matchThemePreset(theme) ?? "custom";
+
+  const gradientBackground =
+    theme.background.type === "gradient"
+      ? theme.background
+      : { type: "gradient" as const, from: "#ffffff", to: "#000000", angle: 180 };
+
+  // Presets keep the caption setting: it's about content, not looks
+  function applyPreset(id: string) {
+    const preset = THEME_PRESETS.find((p) => p.id === id);
+    if (preset) onChange(withCaption(preset.theme, theme.label.caption));
+  }
+
+  function setBackgroundType(type: ThemeBackground["type"]) {
+    const base = theme.background.type === "gradient" ? theme.background.from : "#ffffff";
+    const color = theme.background.type === "gradient" ? base : theme.background.color;
+
+    if (type === "color") {
+      onUpdate({ background: { type: "color", color } }, "background");
+    } else if (type === "gradient") {
+      onUpdate({ background: { type, from: color, to: "#000000", angle: 180 } }, "background");
+    } else {
+      backgroundInputRef.current?.click();
+    }
+  }
+
+  async function uploadBackground(file: File) {
+    let imageUrl: string;
+    try {
+      imageUrl = await processUploadImage(file, MAX_BACKGROUND_IMAGE_SIZE);
+    } catch (err) {
+      alert(err instanceof UploadImageError ? err.message : "Failed to read the image file.");
+      return;
+    }
+
+    const color = theme.background.type === "gradient" ? "#ffffff" : theme.background.color;
+    onUpdate({ background: { type: "image", imageUrl, color } }, "background");
+  }
+
+  return (
+    <div
+      style={{
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        padding: 16,
+        color: black,
+        background: "white",
+        fontSize: 12,
+      }}
+    >
+      <div style={{ fontWeight: 900, marginBottom: 12, fontSize: 16 }}>Chart style</div>
+
+      {/* Hidden file input for the background image */}
+      <input
+        ref={backgroundInputRef}
+        type="file"
+        accept="image/*"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) uploadBackground(file);
+          e.currentTarget.value = "";
+        }}
+      />
+
+      <div style={{ display: "grid", gridTemplateColumns: "110px 1fr", gap: 8 }}>
+        <div style={formLabelStyle}>Theme</div>
+        <select
+          value={themePresetId}
+          onChange={(e) => applyPreset(e.target.value)}
+          style={formInputStyle}
+          aria-label="Theme"
+        >
+          {THEME_PRESETS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+          {themePresetId === "custom" ? <option value="custom">Custom</option> : null}
+        </select>
+
+        <div style={formLabelStyle}>Background</div>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <select
+            value={theme.background.type}
+            onChange={(e) => setBackgroundType(e.target.value as ThemeBackground["type"])}
+            style={{ ...formInputStyle, flex: 1 }}
+            aria-label="Background"
+          >
+            <option value="color">Color</option>
+            <option value="gradient">Gradient</option>
+            <option value="image">Image</option>
+          </select>
+          {theme.background.type === "gradient" ? (
+            <>
+              <input
+                type="color"
+                value={theme.background.from}
+                onChange={(e) =>
+                  onUpdate(
+                    { background: { ...gradientBackground, from: e.target.value } },
+                    "background"
+                  )
+                }
+                aria-label="Gradient start"
+              />
+              <input
+                type="color"
+                value={theme.background.to}
+                onChange={(e) =>
+                  onUpdate(
+                    { background: { ...gradientBackground, to: e.target.value } },
+                    "background"
+                  )
+                }
+                aria-label="Gradient end"
+              />
+            </>
+          ) : (
+            <input
+              type="color"
+              value={theme.background.color}
+              onChange={(e) =>
+                onUpdate(
+                  {
+                    background: {
+                      ...theme.background,
+                      color: e.target.value,
+                    } as ThemeBackground,
+                  },
+                  "background"
+                )
+              }
+              aria-label="Background color"
+            />
+          )}
+        </div>
+
+        {theme.background.type === "gradient" ? (
+          <>
+            <div style={formLabelStyle}>Angle</div>
+            <input
+              type="range"
+              min={0}
+              max={360}
+              value={theme.background.angle}
+              onChange={(e) =>
+                onUpdate(
+                  {
+                    background: { ...gradientBackground, angle: Number(e.target.value) },
+                  },
+                  "background"
+                )
+              }
+              aria-label="Gradient angle"
+            />
+          </>
+        ) : null}
+
+        <div style={formLabelStyle}>Title / cells</div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <input
+            type="color"
+            value={theme.titleColor}
+            onChange={(e) => onUpdate({ titleColor: e.target.value }, "titleColor")}
+            aria-label="Title color"
+          />
+          <input
+            type="color"
+            value={theme.cellBackground}
+            onChange={(e) => onUpdate({ cellBackground: e.target.value }, "cellBackground")}
+            aria-label="Empty cell color"
+          />
+        </div>
+
+        <div style={formLabelStyle}>Font</div>
+        <select
+          value={theme.fontId}
+          onChange={(e) => onUpdate({ fontId: e.target.value as ChartFontId }, "font")}
+          style={formInputStyle}
+          aria-label="Font"
+        >
+          {CHART_FONTS.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+
+        <div style={formLabelStyle}>Border</div>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <input
+            type="color"
+            value={theme.border.color}
+            onChange={(e) =>
+              onUpdate({ border: { ...theme.border, color: e.target.value } }, "border")
+            }
+            aria-label="Border color"
+          />
+          <input
+            type="number"
+            min={0}
+            max={MAX_BORDER_WIDTH}
+            value={theme.border.width}
+            onChange={(e) =>
+              onUpdate(
+                {
+                  border: {
+                    ...theme.border,
+                    width: clampNumber(e.target.value, MAX_BORDER_WIDTH),
+                  },
+                },
+                "border"
+              )
+            }
+            style={{ ...formInputStyle, width: 56 }}
+            aria-label="Border width"
+            title="Width"
+          />
+          <input
+            type="number"
+            min={0}
+            max={MAX_BORDER_RADIUS}
+            value={theme.border.radius}
+            onChange={(e) =>
+              onUpdate(
+                {
+                  border: {
+                    ...theme.border,
+                    radius: clampNumber(e.target.value, MAX_BORDER_RADIUS),
+                  },
+                },
+                "border"
+              )
+            }
+            style={{ ...formInputStyle, width: 56 }}
+            aria-label="Corner radius"
+            title="Corner radius"
+          />
+        </div>
+
+        <div style={formLabelStyle}>Grid gap</div>
+        <input
+          type="range"
+          min={0}
+          max={MAX_GRID_GAP}
+          value={theme.gap}
+          onChange={(e) => onUpdate({ gap: Number(e.target.value) }, "gap")}
+          aria-label="Grid gap"
+        />
+
+        <div style={formLabelStyle}>Labels</div>
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <select
+            value={theme.label.position}
+            onChange={(e) =>
+              onUpdate(
+                { label: { ...theme.label, position: e.target.value as LabelPosition } },
+                "label"
+              )
+            }
+            style={{ ...formInputStyle, flex: 1 }}
+            aria-label="Label position"
+          >
+            {LABEL_POSITIONS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="color"
+            value={theme.label.background}
+            onChange={(e) =>
+              onUpdate({ label: { ...theme.label, background: e.target.value } }, "label")
+            }
+            aria-label="Label strip color"
+          />
+          <input
+            type="color"
+            value={theme.label.color}
+            onChange={(e) =>
+              onUpdate({ label: { ...theme.label, color: e.target.value } }, "label")
+            }
+            aria-label="Label text color"
+          />
+        </div>
+
+        <div style={formLabelStyle}>Label opacity</div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={theme.label.opacity}
+          onChange={(e) =>
+            onUpdate({ label: { ...theme.label, opacity: Number(e.target.value) } }, "label")
+          }
+          aria-label="Label opacity"
+        />
+
+        <div style={formLabelStyle}>Captions</div>
+        <select
+          value={theme.label.caption}
+          onChange={(e) =>
+            onUpdate(
+              { label: { ...theme.label, caption: e.target.value as CaptionPlacement } },
+              "caption"
+            )
+          }
+          style={formInputStyle}
+          title="Show each cover's title and year with its label"
+          aria-label="Captions"
+        >
+          {CAPTION_PLACEMENTS.map((p) => (
+            <option key={p.value} value={p.value}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
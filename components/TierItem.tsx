@@ -0,0 +1,108 @@
+"use client";
+
+import { cellAccessibleName, cellCaption, type CellData } from "@/lib/chart";
+import { cropImageStyle } from "@/lib/crop";
+import type { CellAspect } from "@/lib/layouts";
+import type { ChartTheme } from "@/lib/themes";
+import type { TierSlot, TierTarget } from "@/lib/tierList";
+import { captionStyle, labelStripStyle } from "./styles";
+
+export const TIER_DRAG_TYPE = "application/x-tier-item";
+export const TIER_ITEM_WIDTH = 84;
+
+// Selection, keyboard and drag handling for tier items, shared by the tier rows
+// and the unranked pool. Drop targets are keyed "row" or "row:index".
+export type TierInteraction = {
+  selected: TierSlot | null;
+  dragOver: string | null;
+  itemRef: (key: string, el: HTMLButtonElement | null) => void;
+  onSelect: (slot: TierSlot) => void;
+  onKeyDown: (e: React.KeyboardEvent, slot: TierSlot) => void;
+  onDragOver: (e: React.DragEvent, key: string) => void;
+  onDragLeave: (key: string) => void;
+  onDrop: (e: React.DragEvent, target: TierTarget) => void;
+  onDragEnd: () => void;
+};
+
+type TierItemProps = {
+  item: CellData;
+  slot: TierSlot;
+  // e.g. "tier S" or "unranked", for screen readers
+  tierName: string;
+  aspect: CellAspect;
+  theme: ChartTheme;
+  interaction: TierInteraction;
+};
+
+// One cover in a tier row or the pool: same border, crop and label strip as a grid
+// cell, at a fixed small size. "Below" labels sit on the cover to keep rows even.
+export default function TierItem({
+  item,
+  slot,
+  tierName,
+  aspect,
+  theme,
+  interaction,
+}: TierItemProps) {
+  const { selected, dragOver } = interaction;
+  const key = `${slot.row}:${slot.index}`;
+  const isSelected = selected?.row === slot.row && selected.index === slot.index;
+  const captionPlacement = theme.label.caption;
+  const caption = captionPlacement === "none" ? "" : cellCaption(item);
+  const captionLine = caption ? <div style={captionStyle}>{caption}</div> : null;
+
+  return (
+    <button
+      ref={(el) => interaction.itemRef(key, el)}
+      onClick={() => interaction.onSelect(slot)}
+      onKeyDown={(e) => interaction.onKeyDown(e, slot)}
+      aria-label={`${cellAccessibleName(item, `Item ${slot.index + 1}`)}, ${tierName}`}
+      aria-pressed={isSelected}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(TIER_DRAG_TYPE, JSON.stringify(slot));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onDragOver={(e) => interaction.onDragOver(e, key)}
+      onDragLeave={() => interaction.onDragLeave(key)}
+      onDrop={(e) => interaction.onDrop(e, slot)}
+      onDragEnd={interaction.onDragEnd}
+      title={item.label || cellCaption(item) || undefined}
+      style={{
+        width: TIER_ITEM_WIDTH,
+        aspectRatio: aspect,
+        position: "relative",
+        overflow: "hidden",
+        padding: 0,
+        font: "inherit",
+        cursor: "pointer",
+        border: isSelected
+          ? "3px solid #0070f3"
+          : `${theme.border.width}px solid ${theme.border.color}`,
+        borderRadius: theme.border.radius,
+        background: theme.cellBackground,
+        outline: dragOver === key ? "3px dashed #0070f3" : "none",
+        outlineOffset: 1,
+      }}
+    >
+      {item.imageUrl ? <div style={cropImageStyle(item.imageUrl, item.crop)} /> : null}
+      {item.label || caption ? (
+        <div
+          style={{
+            ...labelStripStyle(theme),
+            position: "absolute",
+            [theme.label.position === "top" ? "top" : "bottom"]: 0,
+            left: 0,
+            right: 0,
+            padding: 3,
+            fontSize: 10,
+          }}
+        >
+          {captionPlacement === "above" ? captionLine : null}
+          {item.label ? <div>{item.label}</div> : null}
+          {captionPlacement === "below" ? captionLine : null}
+        </div>
+      ) : null}
+    </button>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { MAX_TIER_LABEL_LENGTH, MAX_TIERS, type TierList, type TierRow } from "@/lib/tierList";
+import { black, buttonStyle, inputStyle } from "./styles";
+
+type TierPanelProps = {
+  tierList: TierList;
+  onAddTier: () => void;
+  // `undoKey` groups rapid changes to one control (color pickers, typing) into one undo step
+  onUpdateTier: (row: number, patch: Partial<Omit<TierRow, "items">>, undoKey: string) => void;
+  onMoveTier: (row: number, to: number) => void;
+  onRemoveTier: (row: number) => void;
+};
+
+// Tier labels, colors and order (NOT exported)
+export default function TierPanel({
+  tierList,
+  onAddTier,
+  onUpdateTier,
+  onMoveTier,
+  onRemoveTier,
+}: TierPanelProps) {
+  return (
+    <div
+      style={{
+        border: "1px solid #ddd",
+        borderRadius: 8,
+        padding: 16,
+        color: black,
+        background: "white",
+        fontSize: 12,
+      }}
+    >
+      <div style={{ fontWeight: 900, marginBottom: 12, fontSize: 16 }}>Tiers</div>
+
+      <div style={{ display: "grid", gap: 6 }}>
+        {tierList.rows.map((row, r) => (
+          <div key={r} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            <input
+              type="color"
+              value={row.color}
+              onChange={(e) => onUpdateTier(r, { color: e.target.value }, `tier-color:${r}`)}
+              style={{ width: 34, height: 30, padding: 0, border: "none" }}
+              aria-label={`Tier ${r + 1} color`}
+            />
+            <input
+              value={row.label}
+              maxLength={MAX_TIER_LABEL_LENGTH}
+              onChange={(e) => onUpdateTier(r, { label: e.target.value }, `tier-label:${r}`)}
+              style={{
+                ...inputStyle,
+                height: 30,
+                padding: "0 8px",
+                flex: 1,
+                minWidth: 0,
+              }}
+              aria-label={`Tier ${r + 1} label`}
+            />
+            <button
+              onClick={() => onMoveTier(r, r - 1)}
+              disabled={r === 0}
+              aria-label={`Move tier ${row.label} up`}
+              style={{ ...buttonStyle, width: 28, height: 30 }}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => onMoveTier(r, r + 1)}
+              disabled={r === tierList.rows.length - 1}
+              aria-label={`Move tier ${row.label} down`}
+              style={{ ...buttonStyle, width: 28, height: 30 }}
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onRemoveTier(r)}
+              aria-label={`Remove tier ${row.label}`}
+              title="Remove tier (its covers go back to Unranked)"
+              style={{ ...buttonStyle, width: 28, height: 30 }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onAddTier}
+        disabled={tierList.rows.length >= MAX_TIERS}
+        style={{ ...buttonStyle, width: "100%", height: 34, marginTop: 10 }}
+      >
+        Add tier
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import type { CellData } from "@/lib/chart";
+import type { CellAspect } from "@/lib/layouts";
+import type { ChartTheme } from "@/lib/themes";
+import { POOL_ROW } from "@/lib/tierList";
+import { borderGray, gray } from "./styles";
+import TierItem, { type TierInteraction } from "./TierItem";
+
+type TierPoolProps = {
+  pool: CellData[];
+  aspect: CellAspect;
+  theme: ChartTheme;
+  interaction: TierInteraction;
+};
+
+// Unranked covers waiting to be dragged into a tier (NOT exported)
+export default function TierPool({ pool, aspect, theme, interaction }: TierPoolProps) {
+  const key = String(POOL_ROW);
+
+  return (
+    <div
+      onDragOver={(e) => interaction.onDragOver(e, key)}
+      onDragLeave={() => interaction.onDragLeave(key)}
+      onDrop={(e) => interaction.onDrop(e, { row: POOL_ROW })}
+      style={{
+        marginTop: 16,
+        padding: 12,
+        border: `2px dashed ${interaction.dragOver === key ? "#0070f3" : borderGray}`,
+        borderRadius: 12,
+        background: "white",
+      }}
+    >
+      <div style={{ fontWeight: 900, fontSize: 13, marginBottom: 8 }}>Unranked ({pool.length})</div>
+      {pool.length ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+          {pool.map((item, i) => (
+            <TierItem
+              key={i}
+              item={item}
+              slot={{ row: POOL_ROW, index: i }}
+              tierName="unranked"
+              aspect={aspect}
+              theme={theme}
+              interaction={interaction}
+            />
+          ))}
+        </div>
+      ) : (
+        <div style={{ fontSize: 12, color: gray }}>
+          Add covers with Search or Upload in the editor (or drop image files here), then drag them
+          into a tier.
+        </div>
+      )}
+    </div>
+  );
+}
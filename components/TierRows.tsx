@@ -0,0 +1,82 @@
+"use client";
+
+import { aspectRatio, type CellAspect } from "@/lib/layouts";
+import type { ChartTheme } from "@/lib/themes";
+import type { TierRow } from "@/lib/tierList";
+import TierItem, { TIER_ITEM_WIDTH, type TierInteraction } from "./TierItem";
+
+type TierRowsProps = {
+  rows: TierRow[];
+  aspect: CellAspect;
+  theme: ChartTheme;
+  interaction: TierInteraction;
+};
+
+// The ranked rows of a tier list (exported): a colored label, then the covers
+export default function TierRows({ rows, aspect, theme, interaction }: TierRowsProps) {
+  const { dragOver } = interaction;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: theme.gap }}>
+      {rows.map((row, r) => (
+        <div
+          key={r}
+          style={{
+            display: "flex",
+            minHeight: TIER_ITEM_WIDTH / aspectRatio(aspect) + 8,
+            border: `${theme.border.width}px solid ${theme.border.color}`,
+            borderRadius: theme.border.radius,
+            background: theme.cellBackground,
+            overflow: "hidden",
+          }}
+        >
+          <div
+            style={{
+              width: 96,
+              flexShrink: 0,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              padding: 6,
+              background: row.color,
+              color: "#111111",
+              fontSize: row.label.length > 3 ? 14 : 28,
+              fontWeight: 900,
+              textAlign: "center",
+              overflowWrap: "anywhere",
+            }}
+          >
+            {row.label}
+          </div>
+          <div
+            onDragOver={(e) => interaction.onDragOver(e, String(r))}
+            onDragLeave={() => interaction.onDragLeave(String(r))}
+            onDrop={(e) => interaction.onDrop(e, { row: r })}
+            style={{
+              flex: 1,
+              display: "flex",
+              flexWrap: "wrap",
+              alignContent: "flex-start",
+              gap: 4,
+              padding: 4,
+              outline: dragOver === String(r) ? "3px dashed #0070f3" : "none",
+              outlineOffset: -3,
+            }}
+          >
+            {row.items.map((item, i) => (
+              <TierItem
+                key={i}
+                item={item}
+                slot={{ row: r, index: i }}
+                tierName={`tier ${row.label}`}
+                aspect={aspect}
+                theme={theme}
+                interaction={interaction}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
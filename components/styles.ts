@@ -0,0 +1,52 @@
+import type { CSSProperties } from "react";
+import { withOpacity, type ChartTheme } from "@/lib/themes";
+
+// Shared style helpers for the editor UI (font colors everywhere)
+export const baseFont = "Arial, sans-serif";
+export const black = "#000";
+export const gray = "#666";
+export const borderGray = "#ccc";
+
+export const inputStyle: CSSProperties = {
+  color: black,
+  background: "white",
+  border: `1px solid ${borderGray}`,
+  borderRadius: 6,
+  padding: 8,
+  outline: "none",
+};
+
+export const buttonStyle: CSSProperties = {
+  color: black,
+  background: "white",
+  border: `1px solid ${borderGray}`,
+  borderRadius: 8,
+  cursor: "pointer",
+  fontWeight: 800,
+};
+
+// The label strip on grid cells and tier items, in the chart's theme
+export function labelStripStyle(theme: ChartTheme): CSSProperties {
+  return {
+    padding: "8px 8px",
+    fontSize: 14,
+    fontWeight: 900,
+    color: theme.label.color,
+    background: withOpacity(theme.label.background, theme.label.opacity),
+    lineHeight: 1.2,
+  };
+}
+
+export const captionStyle: CSSProperties = { fontSize: "0.8em", fontWeight: 600, opacity: 0.85 };
+
+// Two-column settings forms (chart style, export): label column and compact inputs
+export const formLabelStyle: CSSProperties = { fontWeight: 900, alignSelf: "center" };
+export const formInputStyle: CSSProperties = {
+  color: black,
+  background: "white",
+  border: `1px solid ${borderGray}`,
+  borderRadius: 6,
+  height: 30,
+  padding: "0 6px",
+  outline: "none",
+};
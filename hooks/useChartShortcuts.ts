@@ -0,0 +1,89 @@
+import { useEffect, useEffectEvent } from "react";
+import { imageFileFromClipboard } from "@/lib/uploadImage";
+
+type ChartShortcutsOptions = {
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y
+  undoEnabled: boolean;
+  // The editing keys below and pasting images
+  editEnabled: boolean;
+  // Whether there's somewhere for a new cover to go (the selected cell, or a tier pool)
+  canAdd: boolean;
+  // Whether the selection has an image to clear
+  canClear: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  // "/"
+  onSearch: () => void;
+  // "U"
+  onUpload: () => void;
+  // Delete or Backspace
+  onClear: () => void;
+  // An image pasted from the clipboard
+  onPasteImage: (file: File) => void;
+};
+
+// Page-wide keyboard shortcuts. The editing ones are ignored while typing, so
+// they never eat characters from inputs, and text pastes into inputs are left alone.
+export function useChartShortcuts(options: ChartShortcutsOptions) {
+  const { undoEnabled, editEnabled } = options;
+
+  const handleUndoKeys = useEffectEvent((e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      options.onUndo();
+    } else if ((key === "z" && e.shiftKey) || key === "y") {
+      e.preventDefault();
+      options.onRedo();
+    }
+  });
+
+  useEffect(() => {
+    if (!undoEnabled) return;
+    const onKeyDown = (e: KeyboardEvent) => handleUndoKeys(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undoEnabled]);
+
+  const handleEditKeys = useEffectEvent((e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+
+    if (e.key === "/" && options.canAdd) {
+      e.preventDefault();
+      options.onSearch();
+    } else if (e.key.toLowerCase() === "u" && options.canAdd) {
+      e.preventDefault();
+      options.onUpload();
+    } else if ((e.key === "Delete" || e.key === "Backspace") && options.canClear) {
+      e.preventDefault();
+      options.onClear();
+    }
+  });
+
+  const handlePaste = useEffectEvent((e: ClipboardEvent) => {
+    const file = imageFileFromClipboard(e.clipboardData);
+    if (!file) return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest("input, textarea, [contenteditable='true']")) return;
+    if (!options.canAdd) return;
+
+    e.preventDefault();
+    options.onPasteImage(file);
+  });
+
+  useEffect(() => {
+    if (!editEnabled) return;
+    const onKeyDown = (e: KeyboardEvent) => handleEditKeys(e);
+    const onPaste = (e: ClipboardEvent) => handlePaste(e);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("paste", onPaste);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("paste", onPaste);
+    };
+  }, [editEnabled]);
+}
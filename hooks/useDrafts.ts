@@ -0,0 +1,263 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import { defaultChartState, type ChartState } from "@/lib/chart";
+import { ChartSchemaError } from "@/lib/chartSchema";
+import {
+  copyDraft,
+  loadDraft,
+  loadDraftIndex,
+  newDraftId,
+  pruneUnusedImages,
+  removeDraft,
+  saveDraft,
+  saveDraftIndex,
+  type DraftIndex,
+} from "@/lib/drafts";
+import { ROOM_ID_PATTERN, ROOM_PARAM } from "@/lib/room";
+import { decodeSharedChart, readSharedChartParam } from "@/lib/shareLink";
+
+type DraftsOptions = {
+  chart: ChartState;
+  // Puts another chart on screen (a draft being switched to, or a new one)
+  showChart: (state: ChartState) => void;
+  onNotice: (notice: string) => void;
+  // For a room link the page was opened with
+  onJoinRoom: (roomId: string) => void;
+};
+
+// The saved charts (autosaved to localStorage, uploads in IndexedDB) and which
+// one is open. Nothing is saved until the last open draft has been restored.
+export function useDrafts({ chart, showChart, onNotice, onJoinRoom }: DraftsOptions) {
+  const [draftIndex, setDraftIndex] = useState<DraftIndex>({ activeId: null, drafts: [] });
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  function commitDraftIndex(next: DraftIndex) {
+    setDraftIndex(next);
+    saveDraftIndex(next);
+  }
+
+  // Restore the last open draft, or start the first one from the default chart
+  const restore = useEffectEvent(async (isCancelled: () => boolean) => {
+    const index = loadDraftIndex();
+
+    // A room link opens its own draft (the same one on reload), which then takes
+    // the room's chart once connected
+    const room = new URLSearchParams(window.location.search).get(ROOM_PARAM);
+    if (room && ROOM_ID_PATTERN.test(room)) {
+      const name = `Room ${room}`;
+      const existing = index.drafts.find((d) => d.name === name);
+      const id = existing?.id ?? newDraftId();
+      const saved = existing ? await loadDraft(id) : null;
+      if (isCancelled()) return;
+
+      showChart(saved ?? defaultChartState());
+      commitDraftIndex({
+        activeId: id,
+        drafts: existing ? index.drafts : [...index.drafts, { id, name, updatedAt: Date.now() }],
+      });
+      onJoinRoom(room);
+      setIsHydrated(true);
+      return;
+    }
+
+    // A shared link opens as its own new draft so it never overwrites local work
+    const shared = readSharedChartParam(window.location);
+    if (shared) {
+      window.history.replaceState(null, "", window.location.pathname);
+      try {
+        const state = await decodeSharedChart(shared);
+        if (isCancelled()) return;
+
+        const id = newDraftId();
+        showChart(state);
+        commitDraftIndex({
+          activeId: id,
+          drafts: [...index.drafts, { id, name: `Shared: ${state.title}`, updatedAt: Date.now() }],
+        });
+        setIsHydrated(true);
+        return;
+      } catch (err) {
+        onNotice(
+          err instanceof ChartSchemaError ? err.message : "This share link could not be opened."
+        );
+      }
+    }
+
+    const activeId = index.activeId ?? index.drafts[0]?.id;
+    const saved = activeId ? await loadDraft(activeId) : null;
+    if (isCancelled()) return;
+
+    if (activeId && saved) {
+      showChart(saved);
+      commitDraftIndex({ ...index, activeId });
+    } else {
+      const id = newDraftId();
+      const name = defaultChartState().title;
+      commitDraftIndex({
+        activeId: id,
+        drafts: [...index.drafts, { id, name, updatedAt: Date.now() }],
+      });
+    }
+    setIsHydrated(true);
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    restore(() => cancelled).catch((err) => {
+      console.error(err);
+      setIsHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave shortly after the last edit
+  useEffect(() => {
+    const activeId = draftIndex.activeId;
+    if (!isHydrated || !activeId) return;
+
+    const timer = window.setTimeout(() => {
+      saveDraft(activeId, chart)
+        .then(() => {
+          setDraftIndex((prev) => {
+            const next = {
+              ...prev,
+              drafts: prev.drafts.map((d) =>
+                d.id === activeId ? { ...d, updatedAt: Date.now() } : d
+              ),
+            };
+            saveDraftIndex(next);
+            return next;
+          });
+        })
+        .catch((err) => console.error("Autosave failed", err));
+    }, 500);
+
+    return () => window.clearTimeout(timer);
+  }, [isHydrated, draftIndex.activeId, chart]);
+
+  // Save the open chart right away instead of waiting on the autosave timer
+  async function flushActiveDraft() {
+    if (draftIndex.activeId) await saveDraft(draftIndex.activeId, chart);
+  }
+
+  // Resolves to whether the action went through
+  async function runDraftAction(action: () => Promise<void>) {
+    setDraftError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error(err);
+      setDraftError(
+        "Could not save drafts. Browser storage may be full or disabled in this window."
+      );
+      return false;
+    }
+  }
+
+  function switchDraft(id: string) {
+    if (id === draftIndex.activeId) return;
+
+    runDraftAction(async () => {
+      await flushActiveDraft();
+      const saved = await loadDraft(id);
+      if (!saved) throw new Error(`Draft ${id} could not be loaded`);
+      showChart(saved);
+      commitDraftIndex({ ...draftIndex, activeId: id });
+    });
+  }
+
+  // Saves `state` as a new draft next to the existing ones and opens it
+  function addDraft(state: ChartState, name: string) {
+    return runDraftAction(async () => {
+      await flushActiveDraft();
+      const id = newDraftId();
+      await saveDraft(id, state);
+      showChart(state);
+      commitDraftIndex({
+        activeId: id,
+        drafts: [...draftIndex.drafts, { id, name, updatedAt: Date.now() }],
+      });
+    });
+  }
+
+  function createDraft() {
+    const name = window.prompt("Name for the new chart:", "Untitled chart");
+    if (name === null) return;
+    addDraft(defaultChartState(), name.trim() || "Untitled chart");
+  }
+
+  function renameDraft() {
+    const active = draftIndex.drafts.find((d) => d.id === draftIndex.activeId);
+    if (!active) return;
+
+    const name = window.prompt("Rename chart:", active.name);
+    if (name === null || !name.trim()) return;
+
+    commitDraftIndex({
+      ...draftIndex,
+      drafts: draftIndex.drafts.map((d) => (d.id === active.id ? { ...d, name: name.trim() } : d)),
+    });
+  }
+
+  function duplicateDraft() {
+    const active = draftIndex.drafts.find((d) => d.id === draftIndex.activeId);
+    if (!active) return;
+
+    runDraftAction(async () => {
+      await flushActiveDraft();
+      const id = newDraftId();
+      copyDraft(active.id, id);
+      commitDraftIndex({
+        activeId: id,
+        drafts: [
+          ...draftIndex.drafts,
+          { id, name: `${active.name} (copy)`, updatedAt: Date.now() },
+        ],
+      });
+    });
+  }
+
+  function deleteDraft() {
+    const active = draftIndex.drafts.find((d) => d.id === draftIndex.activeId);
+    if (!active) return;
+    if (!window.confirm(`Delete "${active.name}"? This can't be undone.`)) return;
+
+    runDraftAction(async () => {
+      removeDraft(active.id);
+      const remaining = draftIndex.drafts.filter((d) => d.id !== active.id);
+
+      // Always keep at least one draft open
+      const next = remaining[0];
+      if (next) {
+        const saved = await loadDraft(next.id);
+        showChart(saved ?? defaultChartState());
+        commitDraftIndex({ activeId: next.id, drafts: remaining });
+      } else {
+        const id = newDraftId();
+        const fresh = defaultChartState();
+        showChart(fresh);
+        commitDraftIndex({
+          activeId: id,
+          drafts: [{ id, name: "Untitled chart", updatedAt: Date.now() }],
+        });
+      }
+
+      await pruneUnusedImages({ activeId: null, drafts: remaining });
+    });
+  }
+
+  return {
+    draftIndex,
+    isHydrated,
+    draftError,
+    switchDraft,
+    addDraft,
+    createDraft,
+    renameDraft,
+    duplicateDraft,
+    deleteDraft,
+  };
+}
@@ -0,0 +1,156 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { ChartState } from "@/lib/chart";
+import {
+  ROOM_PARAM,
+  acknowledgeRoomOps,
+  incomingRoomOps,
+  newRoomId,
+  newRoomSync,
+  outgoingRoomOps,
+  roomSocketUrl,
+  type RoomOp,
+  type RoomPeer,
+  type RoomRegisters,
+  type RoomSync,
+} from "@/lib/room";
+import { RoomConnection, type RoomStatus } from "@/lib/roomClient";
+
+// When the room can't take one of our edits (see outgoingRoomOps)
+const ROOM_HELD_NOTICE = "An edit is too large to share with the room; only you can see it.";
+
+type RoomOptions = {
+  chart: ChartState;
+  // The grid cell we have selected, shown on everyone else's grid
+  selected: number | null;
+  // Edits from the room, to apply to the chart as they are
+  onRemoteOps: (ops: RoomOp[], registers: RoomRegisters) => void;
+  onNotice: (notice: string) => void;
+};
+
+// Collaborative editing of the open chart (see lib/room.ts and server.ts). The
+// room's id is in the page URL while joined, so the link can be shared as is.
+export function useRoom({ chart, selected, onRemoteOps, onNotice }: RoomOptions) {
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [status, setStatus] = useState<RoomStatus>("connecting");
+  const [peers, setPeers] = useState<RoomPeer[]>([]);
+  const [name, setName] = useState("");
+  const [clientId, setClientId] = useState<string | null>(null);
+  // Connection plus what the room has agreed on and what's on its way (see
+  // RoomSync); `clientId` is set by the server's welcome, which also (re)starts syncing
+  const roomRef = useRef<{
+    connection: RoomConnection;
+    clientId: string | null;
+    sync: RoomSync;
+  } | null>(null);
+
+  function roomLink(id: string) {
+    const url = new URL(window.location.href);
+    url.search = "";
+    url.hash = "";
+    url.searchParams.set(ROOM_PARAM, id);
+    return url.toString();
+  }
+
+  async function copyLink(id = roomId) {
+    if (!id) return;
+    try {
+      await navigator.clipboard.writeText(roomLink(id));
+      onNotice("Room link copied. Anyone who opens it edits this chart with you.");
+    } catch {
+      onNotice(`Share this link to invite people: ${roomLink(id)}`);
+    }
+  }
+
+  // The current chart becomes the room's starting point
+  function startRoom() {
+    const id = newRoomId();
+    window.history.replaceState(null, "", roomLink(id));
+    setRoomId(id);
+    copyLink(id);
+  }
+
+  // For a room link the page was opened with; the room's chart replaces ours once connected
+  function joinRoom(id: string) {
+    setRoomId(id);
+  }
+
+  function leaveRoom() {
+    window.history.replaceState(null, "", window.location.pathname);
+    setRoomId(null);
+  }
+
+  const applyRemoteOps = useEffectEvent((ops: RoomOp[], registers: RoomRegisters) => {
+    if (ops.length) onRemoteOps(ops, registers);
+  });
+  const noticeHeldEdits = useEffectEvent(() => onNotice(ROOM_HELD_NOTICE));
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    // Messages only arrive after this effect has run, so `room` is set by then
+    const connection = new RoomConnection(
+      roomSocketUrl(window.location, roomId),
+      (message) => {
+        if (message.type === "welcome") {
+          // The room's state wins over whatever we had; anything it doesn't hold
+          // yet is sent by the sync effect below
+          room.clientId = message.clientId;
+          setClientId(message.clientId);
+          room.sync = newRoomSync();
+          applyRemoteOps(incomingRoomOps(room.sync, message.ops), room.sync.registers);
+        } else if (message.type === "ops") {
+          applyRemoteOps(incomingRoomOps(room.sync, message.ops), room.sync.registers);
+        } else if (message.type === "ack") {
+          const held = acknowledgeRoomOps(room.sync, message.accepted, message.rejected);
+          if (held.length) noticeHeldEdits();
+        } else if (message.type === "peers") {
+          setPeers(message.peers);
+        }
+      },
+      setStatus
+    );
+    const room = {
+      connection,
+      clientId: null as string | null,
+      sync: newRoomSync(),
+    };
+    roomRef.current = room;
+
+    return () => {
+      room.connection.close();
+      roomRef.current = null;
+      setStatus("connecting");
+      setPeers([]);
+      setClientId(null);
+    };
+  }, [roomId]);
+
+  // Send whatever changed locally since the room last agreed
+  useEffect(() => {
+    const room = roomRef.current;
+    if (status !== "open" || !room?.clientId) return;
+
+    const { ops, held } = outgoingRoomOps(room.sync, chart, room.clientId);
+    if (ops.length) room.connection.send({ type: "ops", ops });
+    if (held.length) noticeHeldEdits();
+  }, [chart, status]);
+
+  // Our name and selected cell, for everyone else's grid
+  useEffect(() => {
+    if (status !== "open") return;
+    roomRef.current?.connection.send({ type: "presence", name, selected });
+  }, [status, name, selected]);
+
+  return {
+    roomId,
+    status,
+    peers,
+    clientId,
+    name,
+    setName,
+    startRoom,
+    joinRoom,
+    leaveRoom,
+    copyLink,
+  };
+}
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import type { TierSlot, TierTarget } from "@/lib/tierList";
+import { TIER_DRAG_TYPE, type TierInteraction } from "@/components/TierItem";
+
+type TierDragDropOptions = {
+  // Image files dropped from outside the page
+  onDropFiles: (files: File[], target: TierTarget) => void;
+  // One of the list's own items, dragged somewhere else in it
+  onMoveItem: (from: TierSlot, to: TierTarget) => void;
+};
+
+type TierDragDrop = Pick<
+  TierInteraction,
+  "dragOver" | "onDragOver" | "onDragLeave" | "onDrop" | "onDragEnd"
+>;
+
+// Drag and drop for the tier rows and the pool: moving items around, and
+// dropping image files onto them. Dropping on an item targets that item;
+// dropping on a row or the pool appends to it.
+export function useTierDragDrop({ onDropFiles, onMoveItem }: TierDragDropOptions): TierDragDrop {
+  // "row" or "row:index" under the pointer while dragging
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  function isTierDrag(e: React.DragEvent) {
+    const types = Array.from(e.dataTransfer.types);
+    return types.includes(TIER_DRAG_TYPE) || types.includes("Files");
+  }
+
+  function onDragOver(e: React.DragEvent, key: string) {
+    if (!isTierDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragOver !== key) setDragOver(key);
+  }
+
+  function onDrop(e: React.DragEvent, target: TierTarget) {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver(null);
+
+    const files = Array.from(e.dataTransfer.files ?? []);
+    if (files.length) {
+      onDropFiles(files, target);
+      return;
+    }
+
+    try {
+      const from = JSON.parse(e.dataTransfer.getData(TIER_DRAG_TYPE)) as TierSlot;
+      if (!Number.isInteger(from?.row) || !Number.isInteger(from?.index)) return;
+      onMoveItem(from, target);
+    } catch {
+      // Not one of our items
+    }
+  }
+
+  return {
+    dragOver,
+    onDragOver,
+    onDragLeave: (key) => setDragOver((prev) => (prev === key ? null : prev)),
+    onDrop,
+    onDragEnd: () => setDragOver(null),
+  };
+}
@@ -0,0 +1,152 @@
+import type { CellData } from "./chart";
+import { SearchError } from "./search/errors";
+import type { SearchResult } from "./search/types";
+
+// Bulk fill: a pasted list of titles is matched against a search provider, one
+// cell per line, and the proposals are reviewed before anything touches `cells`.
+//
+//   Chrono Trigger                  -> next cell in order
+//   Favorite Villain: Kefka         -> the cell labelled "Favorite Villain"
+//
+// "Label: title" only targets a cell when the label matches one, so titles
+// with colons ("Star Wars: A New Hope") still work as plain lines.
+
+export type BulkEntry = {
+  cellIndex: number;
+  query: string;
+};
+
+export type BulkMatch = BulkEntry & {
+  // Top result first; empty when nothing was found
+  candidates: SearchResult[];
+  // Index into candidates of the proposed pick, or -1 to leave the cell alone
+  chosen: number;
+  // The top result's title isn't an obvious match for the query
+  ambiguous: boolean;
+  error?: string;
+};
+
+// How many results are kept per line as alternates in the review screen
+export const BULK_CANDIDATES = 5;
+
+// One search per this interval keeps a full 10x10 chart under the search
+// routes' per-IP limit (60 requests a minute)
+export const BULK_REQUEST_INTERVAL_MS = 1100;
+
+// Longest Retry-After we'll sit through before giving up on a line
+const MAX_RETRY_WAIT_S = 60;
+
+export function parseBulkList(text: string, cells: CellData[]): BulkEntry[] {
+  const byLabel = new Map<string, number>();
+  cells.forEach((cell, i) => {
+    const key = cell.label.trim().toLowerCase();
+    if (key && !byLabel.has(key)) byLabel.set(key, i);
+  });
+
+  const taken = new Set<number>();
+  const entries: BulkEntry[] = [];
+  const unlabeled: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const sep = line.indexOf(":");
+    const target = sep > 0 ? byLabel.get(line.slice(0, sep).trim().toLowerCase()) : undefined;
+    const query = target !== undefined ? line.slice(sep + 1).trim() : line;
+    if (!query) continue;
+
+    if (target !== undefined && !taken.has(target)) {
+      taken.add(target);
+      entries.push({ cellIndex: target, query });
+    } else {
+      unlabeled.push(query);
+    }
+  }
+
+  // Plain lines fill the remaining cells in grid order; extras are dropped
+  let next = 0;
+  for (const query of unlabeled) {
+    while (next < cells.length && taken.has(next)) next++;
+    if (next >= cells.length) break;
+    taken.add(next);
+    entries.push({ cellIndex: next, query });
+  }
+
+  return entries.sort((a, b) => a.cellIndex - b.cellIndex);
+}
+
+function normalizeTitle(title: string) {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // accents left over from NFKD
+    .toLowerCase()
+    .replace(/[^a-z0-9\u3040-\u30ff\u4e00-\u9fff]+/g, " ")
+    .trim();
+}
+
+// Exact (ignoring case, accents and punctuation) is confident; anything else
+// gets flagged so the review screen shows the alternates up front
+export function isConfidentMatch(query: string, result: SearchResult) {
+  return normalizeTitle(query) === normalizeTitle(result.title);
+}
+
+function delay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+// Runs one search per entry, spaced BULK_REQUEST_INTERVAL_MS apart (cached
+// searches return early and don't wait). A rate-limited search is retried once
+// after the server's Retry-After.
+export async function matchBulkEntries(
+  entries: BulkEntry[],
+  search: (query: string) => Promise<{ results: SearchResult[]; cached: boolean }>,
+  { signal, onProgress }: { signal: AbortSignal; onProgress: (matches: BulkMatch[]) => void }
+) {
+  const matches: BulkMatch[] = [];
+
+  for (const entry of entries) {
+    let match: BulkMatch;
+    let cached = false;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const page = await search(entry.query);
+        cached = page.cached;
+        const candidates = page.results.slice(0, BULK_CANDIDATES);
+        match = {
+          ...entry,
+          candidates,
+          chosen: candidates.length ? 0 : -1,
+          ambiguous: candidates.length > 0 && !isConfidentMatch(entry.query, candidates[0]),
+        };
+        break;
+      } catch (e) {
+        if (signal.aborted) throw e;
+        const retryAfter = e instanceof SearchError ? e.retryAfter : undefined;
+        if (attempt === 0 && retryAfter !== undefined && retryAfter <= MAX_RETRY_WAIT_S) {
+          await delay(retryAfter * 1000, signal);
+          continue;
+        }
+        const error = e instanceof Error ? e.message : "Search failed";
+        match = { ...entry, candidates: [], chosen: -1, ambiguous: false, error };
+        break;
+      }
+    }
+
+    matches.push(match);
+    onProgress([...matches]);
+
+    if (!cached && matches.length < entries.length) {
+      await delay(BULK_REQUEST_INTERVAL_MS, signal);
+    }
+  }
+
+  return matches;
+}
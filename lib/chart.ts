@@ -0,0 +1,85 @@
+import type { CellCrop } from "./crop";
+import { DEFAULT_PRESET, type GridLayout } from "./layouts";
+import { DEFAULT_THEME, type ChartTheme } from "./themes";
+import { defaultTierList, type ChartMode, type TierList } from "./tierList";
+
+// The search result a cell's cover came from: which title sits in the cell, so
+// alternate artwork can be looked up again and captions/links can be shown
+export type CellSource = {
+  provider: string;
+  id: string;
+  title?: string;
+  year?: number;
+  url?: string; // details page on AniList/IGDB/etc.; always https
+};
+
+export type CellData = {
+  label: string;
+  imageUrl?: string;
+  source?: CellSource;
+  // Zoom/focal point/fit for the image; unset means centered cover
+  crop?: CellCrop;
+};
+
+export type ChartState = {
+  title: string;
+  presetId: string;
+  layout: GridLayout;
+  theme: ChartTheme;
+  cells: CellData[];
+  // Cells a smaller grid cut off, in order after the last visible one. Growing
+  // the grid brings them back; nothing else shows or shares them.
+  hiddenCells?: CellData[];
+  // Which view is shown and exported; both keep their content when switching
+  mode: ChartMode;
+  tierList: TierList;
+};
+
+// "Title (Year)" for the caption, or "" when the cell has no known title
+export function cellCaption(cell: CellData) {
+  const { title, year } = cell.source ?? {};
+  if (!title) return "";
+  return year ? `${title} (${year})` : title;
+}
+
+// Screen reader name for a cell or tier item: its prompt (or `fallback` when it
+// has none), then what fills it, e.g. "Favorite Villain: Kefka (1994)"
+export function cellAccessibleName(cell: CellData, fallback: string) {
+  const prompt = cell.label.trim() || fallback;
+  const content = cellCaption(cell) || (cell.imageUrl ? "image" : "empty");
+  return `${prompt}: ${content}`;
+}
+
+export const DEFAULT_CHART_TITLE = "About You: Video Games/Anime";
+
+export function defaultChartState(): ChartState {
+  return {
+    title: DEFAULT_CHART_TITLE,
+    presetId: DEFAULT_PRESET.id,
+    layout: DEFAULT_PRESET.layout,
+    theme: DEFAULT_THEME,
+    cells: DEFAULT_PRESET.labels.map((label) => ({ label })),
+    mode: "grid",
+    tierList: defaultTierList(),
+  };
+}
+
+// "cell" swaps everything (label and image); "image" swaps everything except the
+// labels, so labels stay where they are
+export type SwapMode = "cell" | "image";
+
+export function swapCells(cells: CellData[], from: number, to: number, mode: SwapMode) {
+  if (from === to || !cells[from] || !cells[to]) return cells;
+
+  const copy = [...cells];
+  if (mode === "cell") {
+    copy[from] = cells[to];
+    copy[to] = cells[from];
+  } else {
+    const { label: fromLabel, ...fromImage } = cells[from];
+    const { label: toLabel, ...toImage } = cells[to];
+    copy[from] = { ...toImage, label: fromLabel };
+    copy[to] = { ...fromImage, label: toLabel };
+  }
+  return copy;
+}
@@ -0,0 +1,67 @@
+import type { ChartState } from "./chart";
+import {
+  ChartSchemaError,
+  deserializeChart,
+  parseSerializedChart,
+  serializeChart,
+  type SerializedChart,
+} from "./chartSchema";
+
+// Portable .json chart files: the serialized chart with uploads embedded as
+// base64, tagged with a format marker so we can tell them apart from random JSON.
+export const CHART_FILE_FORMAT = "anime-game-chart-maker";
+
+// A full 10x10 grid of uploaded images stays well under this
+export const MAX_CHART_FILE_BYTES = 30 * 1024 * 1024;
+
+type ChartFile = SerializedChart & { format: typeof CHART_FILE_FORMAT };
+
+export async function exportChartFile(state: ChartState) {
+  const chart = await serializeChart(state, async (imageUrl) =>
+    imageUrl.startsWith("data:")
+      ? { type: "embedded", dataUrl: imageUrl }
+      : { type: "url", url: imageUrl }
+  );
+
+  const file: ChartFile = { format: CHART_FILE_FORMAT, ...chart };
+  return new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+}
+
+export function chartFileName(title: string) {
+  return `${(title || "chart").replace(/[\\/:*?"<>|]/g, "")}.json`;
+}
+
+function formatMB(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Throws ChartSchemaError with a user-facing message for anything we can't load
+export async function importChartFile(file: Blob): Promise<ChartState> {
+  if (file.size > MAX_CHART_FILE_BYTES) {
+    throw new ChartSchemaError(
+      `That file is ${formatMB(file.size)}; chart files can be at most ${formatMB(MAX_CHART_FILE_BYTES)}.`
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new ChartSchemaError("That file isn't valid JSON.");
+  }
+
+  // Files without the marker are still accepted if they otherwise parse as a chart
+  const format = (raw as { format?: unknown } | null)?.format;
+  if (format !== undefined && format !== CHART_FILE_FORMAT) {
+    throw new ChartSchemaError("That JSON file isn't a chart exported from this app.");
+  }
+
+  const chart = parseSerializedChart(raw);
+
+  // "stored" images only exist in the IndexedDB of the browser that saved them
+  return deserializeChart(chart, async (image) => {
+    if (image.type === "embedded") return image.dataUrl;
+    if (image.type === "url") return image.url;
+    return undefined;
+  });
+}
@@ -0,0 +1,128 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { importChartFile } from "./chartFile";
+import {
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  renderChartImage,
+  type ChartImageSize,
+} from "./chartImage";
+
+// Renders the exported chart files in __fixtures__/charts and compares each PNG
+// with its snapshot. satori and resvg are bundled with next/og (wasm, with its
+// own font), so the same chart gives the same bytes on every machine. After an
+// intended change to the image, look at it through /api/render and update the
+// snapshots with `npx vitest run -u`.
+//
+// The fixtures' covers are embedded PNGs; the one cover URL in grid.json isn't
+// on the proxy allowlist, so nothing here touches the network.
+
+const FIXTURES = ["grid", "tiered", "tier-list"];
+
+function loadFixture(name: string) {
+  const json = readFileSync(new URL(`./__fixtures__/charts/${name}.json`, import.meta.url));
+  return importChartFile(new Blob([json]));
+}
+
+async function render(name: string, size: ChartImageSize) {
+  const res = await renderChartImage(await loadFixture(name), size);
+  const png = Buffer.from(await res.arrayBuffer());
+  return {
+    type: res.headers.get("content-type"),
+    // From the PNG's IHDR chunk
+    width: png.readUInt32BE(16),
+    height: png.readUInt32BE(20),
+    sha256: createHash("sha256").update(png).digest("hex"),
+  };
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe("renderChartImage", () => {
+  it.each(FIXTURES)("renders the %s fixture at its full size", async (name) => {
+    expect(await render(name, "full")).toMatchSnapshot();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each(FIXTURES)("renders the %s fixture as an Open Graph card", async (name) => {
+    const image = await render(name, "og");
+    expect(image).toMatchObject({ width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT });
+    expect(image).toMatchSnapshot();
+  });
+
+  it("sizes full images to the grid", async () => {
+    // Three 200px columns plus padding; two rows of 192x288 covers under the title
+    expect(await render("grid", "full")).toMatchObject({ width: 648, height: 692 });
+  });
+
+  it("renders the same image every time", async () => {
+    expect(await render("tier-list", "full")).toEqual(await render("tier-list", "full"));
+  });
+
+  it("leaves a cell empty when its cover can't be fetched", async () => {
+    const chart = await loadFixture("grid");
+    const cells = chart.cells.map((cell) => ({
+      ...cell,
+      imageUrl: cell.imageUrl && "https://s4.anilist.co/file/anilistcdn/media/anime/cover/1.jpg",
+    }));
+    fetchMock.mockResolvedValue(new Response("Not found", { status: 404 }));
+
+    const withDeadCovers = await renderChartImage({ ...chart, cells }, "full");
+    const withoutCovers = await renderChartImage(
+      { ...chart, cells: chart.cells.map(({ label, source }) => ({ label, source })) },
+      "full"
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(Buffer.from(await withDeadCovers.arrayBuffer())).toEqual(
+      Buffer.from(await withoutCovers.arrayBuffer())
+    );
+  });
+
+  it("stops taking covers once a render has fetched its share of image bytes", async () => {
+    const chart = await loadFixture("grid");
+    // A 7MB cover: the fixture's first PNG with padding after its end, which
+    // decoders skip, so it draws the same as the original
+    const dataUrl = chart.cells[0].imageUrl!;
+    const png = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+    const padded = Buffer.concat([png, Buffer.alloc(7 * 1024 * 1024 - png.length)]);
+    fetchMock.mockImplementation(
+      async () => new Response(padded, { headers: { "content-type": "image/png" } })
+    );
+
+    const cells = chart.cells.map((cell, i) => ({
+      ...cell,
+      imageUrl: `https://s4.anilist.co/file/anilistcdn/media/anime/cover/${i}.jpg`,
+    }));
+    const withLargeCovers = await renderChartImage({ ...chart, cells }, "full");
+
+    // Four fit the budget; the last two cells are left empty without a request
+    const expected = chart.cells.map((cell, i) => ({
+      ...cell,
+      imageUrl: i < 4 ? dataUrl : undefined,
+    }));
+    const withFourCovers = await renderChartImage({ ...chart, cells: expected }, "full");
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(Buffer.from(await withLargeCovers.arrayBuffer())).toEqual(
+      Buffer.from(await withFourCovers.arrayBuffer())
+    );
+  });
+
+  it("passes response headers through", async () => {
+    const res = await renderChartImage(await loadFixture("grid"), "og", {
+      "cache-control": "no-store",
+    });
+    expect(res.headers.get("cache-control")).toBe("no-store");
+  });
+});
@@ -0,0 +1,505 @@
+import { ImageResponse } from "next/og";
+import type { CSSProperties } from "react";
+import { cellCaption, type CellData, type ChartState } from "./chart";
+import { DEFAULT_CROP, clampCrop, type CellCrop } from "./crop";
+import {
+  MAX_PROXIED_IMAGE_BYTES,
+  PROXIED_IMAGE_TIMEOUT_MS,
+  fetchAllowedImage,
+  isAllowedImageUrl,
+  limitBytes,
+  unproxiedImageUrl,
+} from "./imageProxy";
+import { aspectRatio, rowSizes } from "./layouts";
+import { backgroundStyle, withOpacity, type ChartTheme } from "./themes";
+
+// Server-side PNG of a chart (satori via next/og, no headless browser). Mirrors
+// the export area in app/ChartMaker.tsx: title, then one flex row per grid row,
+// with the same theme colors, borders, label strips, captions and crops. Satori
+// has no CSS grid, so every size is computed up front. Web fonts fall back to
+// the bundled sans. Tier lists render their rows (not the unranked pool), the
+// same as the client's export.
+
+export type ChartImageSize = "full" | "og";
+
+// Open Graph cards are 1200x630; "full" sizes the image to the grid
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+const PADDING = 24;
+const TITLE_SIZE = 32;
+const TITLE_GAP = 16;
+const LABEL_SIZE = 12;
+const LABEL_PADDING = 6;
+const BELOW_LABEL_HEIGHT = 26;
+const CAPTION_HEIGHT = 14;
+const CELL_WIDTH = 200; // for the widest row in "full" images
+const MAX_FULL_WIDTH = 2400;
+const TIER_WIDTH = 1000;
+const TIER_LABEL_WIDTH = 110;
+const TIER_ITEM_WIDTH = 100;
+const TIER_ITEM_GAP = 4;
+
+type Box = { width: number; height: number };
+
+// Covers fetched at once per render; a 12x12 grid would otherwise open 144
+const IMAGE_CONCURRENCY = 6;
+// Image bytes held per render, covers and background together. Each cover may
+// be up to MAX_PROXIED_IMAGE_BYTES, so a full 12x12 grid could otherwise pull
+// over a gigabyte into memory; covers past the budget are left out.
+const MAX_RENDER_IMAGE_BYTES = 32 * 1024 * 1024;
+
+type InlinedImage = { dataUrl: string; bytes: number };
+
+// Covers are fetched here rather than by satori, so every request goes through
+// the proxy allowlist and a dead cover leaves an empty cell instead of failing
+// the whole render. Uploads are already data URLs. Nothing larger than
+// `maxBytes` is kept.
+async function inlineImage(imageUrl: string, maxBytes: number): Promise<InlinedImage | undefined> {
+  if (imageUrl.startsWith("data:image/")) {
+    // Decoded size of the base64 payload
+    const bytes = Math.floor(((imageUrl.length - imageUrl.indexOf(",") - 1) * 3) / 4);
+    return bytes <= maxBytes ? { dataUrl: imageUrl, bytes } : undefined;
+  }
+
+  const url = unproxiedImageUrl(imageUrl);
+  if (!isAllowedImageUrl(url)) return undefined;
+
+  try {
+    const resp = await fetchAllowedImage(url, AbortSignal.timeout(PROXIED_IMAGE_TIMEOUT_MS));
+    const type = resp.headers.get("content-type") || "";
+    if (!resp.ok || !resp.body || !type.startsWith("image/")) return undefined;
+    if (Number(resp.headers.get("content-length") || 0) > maxBytes) {
+      await resp.body.cancel();
+      return undefined;
+    }
+
+    // Errors (and is caught below) as soon as the body passes the cap
+    const limited = resp.body.pipeThrough(limitBytes(maxBytes));
+    const bytes = await new Response(limited).arrayBuffer();
+    return {
+      dataUrl: `data:${type};base64,${Buffer.from(bytes).toString("base64")}`,
+      bytes: bytes.byteLength,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+async function inlineImages(state: ChartState) {
+  const urls = new Set<string>();
+  const cells = state.mode === "tier" ? state.tierList.rows.flatMap((r) => r.items) : state.cells;
+  for (const cell of cells) if (cell.imageUrl) urls.add(cell.imageUrl);
+  if (state.theme.background.type === "image") urls.add(state.theme.background.imageUrl);
+
+  // A few workers share one queue of URLs. Each sets aside room for the largest
+  // image it would take before starting, and gives back what it didn't use, so
+  // what's in flight never goes over the budget; once it's used up, the rest of
+  // the queue is skipped without fetching.
+  const queue = [...urls];
+  const images = new Map<string, string | undefined>();
+  let available = MAX_RENDER_IMAGE_BYTES;
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      const reserved = Math.min(MAX_PROXIED_IMAGE_BYTES, available);
+      if (reserved <= 0) {
+        images.set(url, undefined);
+        continue;
+      }
+
+      available -= reserved;
+      const image = await inlineImage(url, reserved);
+      available += reserved - (image?.bytes ?? 0);
+      images.set(url, image?.dataUrl);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IMAGE_CONCURRENCY, queue.length) }, worker));
+  return images;
+}
+
+// Satori sizes background images inconsistently, so covers are drawn as an
+// <img> with object-fit; same focal point and zoom as cropImageStyle
+function cropImgStyle(crop: CellCrop | undefined): CSSProperties {
+  const { zoom, x, y, fit } = clampCrop(crop ?? DEFAULT_CROP);
+  return {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: "100%",
+    objectFit: fit,
+    objectPosition: `${x}% ${y}%`,
+    ...(zoom === 1 ? {} : { transform: `scale(${zoom})`, transformOrigin: `${x}% ${y}%` }),
+  };
+}
+
+// Cell boxes for each row at a given scale, plus the overall image size
+function measure(state: ChartState, contentWidth: number, scale: number) {
+  const { theme, layout } = state;
+  const gap = theme.gap * scale;
+  const ratio = aspectRatio(layout.aspect);
+  const captionHeight = theme.label.caption === "none" ? 0 : CAPTION_HEIGHT;
+  const labelBelow =
+    theme.label.position === "below" ? (BELOW_LABEL_HEIGHT + captionHeight) * scale : 0;
+
+  const rows = rowSizes(layout).map((n) => {
+    const width = (contentWidth - gap * (n - 1)) / n;
+    return { count: n, cell: { width, height: width / ratio } as Box };
+  });
+
+  const gridHeight =
+    rows.reduce((sum, row) => sum + row.cell.height + labelBelow, 0) + gap * (rows.length - 1);
+  const height =
+    PADDING * 2 * scale + (TITLE_SIZE * 1.25 + TITLE_GAP) * scale + Math.max(0, gridHeight);
+
+  return { rows, gap, labelBelow, width: contentWidth + PADDING * 2 * scale, height };
+}
+
+function fullContentWidth(state: ChartState) {
+  const widest = Math.max(1, ...rowSizes(state.layout));
+  return Math.min(MAX_FULL_WIDTH, widest * CELL_WIDTH);
+}
+
+// Tier rows wrap their covers, so each row is as tall as its number of lines
+function measureTiers(state: ChartState, scale: number) {
+  const item = {
+    width: TIER_ITEM_WIDTH * scale,
+    height: (TIER_ITEM_WIDTH / aspectRatio(state.layout.aspect)) * scale,
+  };
+  const gap = TIER_ITEM_GAP * scale;
+  const perLine = Math.max(
+    1,
+    Math.floor((TIER_WIDTH - TIER_LABEL_WIDTH - TIER_ITEM_GAP) / (TIER_ITEM_WIDTH + TIER_ITEM_GAP))
+  );
+  const rowHeights = state.tierList.rows.map((row) => {
+    const lines = Math.max(1, Math.ceil(row.items.length / perLine));
+    return lines * (item.height + gap) + gap;
+  });
+
+  const rowGap = state.theme.gap * scale;
+  const listHeight =
+    rowHeights.reduce((sum, h) => sum + h, 0) + rowGap * Math.max(0, rowHeights.length - 1);
+  const height = PADDING * 2 * scale + (TITLE_SIZE * 1.25 + TITLE_GAP) * scale + listHeight;
+
+  return { item, gap, rowGap, rowHeights, width: (TIER_WIDTH + PADDING * 2) * scale, height };
+}
+
+function measureChart(state: ChartState, scale: number) {
+  return state.mode === "tier"
+    ? measureTiers(state, scale)
+    : measure(state, fullContentWidth(state) * scale, scale);
+}
+
+// Scale that fits the whole chart inside the Open Graph card
+function ogScale(state: ChartState) {
+  const full = measureChart(state, 1);
+  return Math.min(OG_IMAGE_WIDTH / full.width, OG_IMAGE_HEIGHT / full.height);
+}
+
+function tierItem(
+  item: CellData,
+  key: number,
+  box: Box,
+  theme: ChartTheme,
+  images: Map<string, string | undefined>,
+  scale: number
+) {
+  const imageUrl = item.imageUrl ? images.get(item.imageUrl) : undefined;
+  const caption = theme.label.caption === "none" ? "" : cellCaption(item);
+  const lines = theme.label.caption === "above" ? [caption, item.label] : [item.label, caption];
+
+  return (
+    <div
+      key={key}
+      style={{
+        display: "flex",
+        position: "relative",
+        width: box.width,
+        height: box.height,
+        border: `${theme.border.width * scale}px solid ${theme.border.color}`,
+        borderRadius: theme.border.radius * scale,
+        background: theme.cellBackground,
+        overflow: "hidden",
+      }}
+    >
+      {imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element -- satori only renders <img>
+        <img src={imageUrl} alt="" style={cropImgStyle(item.crop)} />
+      ) : null}
+      {item.label || caption ? (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            position: "absolute",
+            left: 0,
+            right: 0,
+            [theme.label.position === "top" ? "top" : "bottom"]: 0,
+            padding: 3 * scale,
+            background: withOpacity(theme.label.background, theme.label.opacity),
+            color: theme.label.color,
+            fontSize: 10 * scale,
+            fontWeight: 900,
+            textAlign: "center",
+          }}
+        >
+          {lines.filter(Boolean).map((line, i) => (
+            <div key={i}>{line}</div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function tierRows(
+  state: ChartState,
+  t: ReturnType<typeof measureTiers>,
+  images: Map<string, string | undefined>,
+  scale: number
+) {
+  const { theme } = state;
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: t.rowGap }}>
+      {state.tierList.rows.map((row, r) => (
+        <div
+          key={r}
+          style={{
+            display: "flex",
+            height: t.rowHeights[r],
+            border: `${theme.border.width * scale}px solid ${theme.border.color}`,
+            borderRadius: theme.border.radius * scale,
+            background: theme.cellBackground,
+            overflow: "hidden",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              width: TIER_LABEL_WIDTH * scale,
+              flexShrink: 0,
+              padding: 6 * scale,
+              background: row.color,
+              color: "#111111",
+              fontSize: (row.label.length > 3 ? 16 : 32) * scale,
+              fontWeight: 900,
+              textAlign: "center",
+            }}
+          >
+            {row.label}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              alignContent: "flex-start",
+              gap: t.gap,
+              padding: t.gap,
+              flex: 1,
+            }}
+          >
+            {row.items.map((item, i) => tierItem(item, i, t.item, theme, images, scale))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export async function renderChartImage(
+  state: ChartState,
+  size: ChartImageSize,
+  headers?: Record<string, string>
+) {
+  const { theme } = state;
+  const scale = size === "og" ? ogScale(state) : 1;
+  const m = measure(state, fullContentWidth(state) * scale, scale);
+  const box = measureChart(state, scale);
+  const labelPosition = theme.label.position;
+  const captionPlacement = theme.label.caption;
+
+  const images = await inlineImages(state);
+  const backgroundImage =
+    theme.background.type === "image" ? images.get(theme.background.imageUrl) : undefined;
+  // Image backgrounds are drawn as an <img> layer over their base color
+  const background = backgroundStyle(
+    theme.background.type === "image"
+      ? { type: "color", color: theme.background.color }
+      : theme.background
+  );
+
+  let index = 0;
+  const chart = (
+    <div
+      style={{
+        ...background,
+        display: "flex",
+        flexDirection: "column",
+        width: box.width,
+        height: box.height,
+        position: "relative",
+        padding: PADDING * scale,
+      }}
+    >
+      {backgroundImage ? (
+        // eslint-disable-next-line @next/next/no-img-element -- satori only renders <img>
+        <img
+          src={backgroundImage}
+          alt=""
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "cover",
+          }}
+        />
+      ) : null}
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          height: TITLE_SIZE * 1.25 * scale,
+          marginBottom: TITLE_GAP * scale,
+          fontSize: TITLE_SIZE * scale,
+          fontWeight: 900,
+          color: theme.titleColor,
+        }}
+      >
+        {state.title}
+      </div>
+
+      {state.mode === "tier" ? (
+        tierRows(state, measureTiers(state, scale), images, scale)
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: m.gap }}>
+          {m.rows.map((row, rowIndex) => (
+            <div key={rowIndex} style={{ display: "flex", gap: m.gap }}>
+              {Array.from({ length: row.count }).map(() => {
+                const i = index++;
+                const cell = state.cells[i] ?? { label: "" };
+                const imageUrl = cell.imageUrl ? images.get(cell.imageUrl) : undefined;
+                const caption = captionPlacement === "none" ? "" : cellCaption(cell);
+                const showStrip =
+                  !!(cell.label || caption) &&
+                  (labelPosition === "top" || labelPosition === "bottom");
+                const captionLine = caption ? (
+                  <div
+                    style={{ fontSize: LABEL_SIZE * 0.8 * scale, fontWeight: 600, opacity: 0.85 }}
+                  >
+                    {caption}
+                  </div>
+                ) : null;
+                // A fragment would be laid out as a row by satori
+                const labelText = (
+                  <div style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+                    {captionPlacement === "above" ? captionLine : null}
+                    {cell.label ? <div>{cell.label}</div> : null}
+                    {captionPlacement === "below" ? captionLine : null}
+                  </div>
+                );
+
+                return (
+                  <div
+                    key={i}
+                    style={{ display: "flex", flexDirection: "column", width: row.cell.width }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        position: "relative",
+                        width: row.cell.width,
+                        height: row.cell.height,
+                        border: `${theme.border.width * scale}px solid ${theme.border.color}`,
+                        borderRadius: theme.border.radius * scale,
+                        background: theme.cellBackground,
+                        overflow: "hidden",
+                      }}
+                    >
+                      {imageUrl ? (
+                        // eslint-disable-next-line @next/next/no-img-element -- satori only renders <img>
+                        <img src={imageUrl} alt="" style={cropImgStyle(cell.crop)} />
+                      ) : null}
+
+                      {showStrip ? (
+                        <div
+                          style={{
+                            display: "flex",
+                            flexDirection: "column",
+                            alignItems: "center",
+                            position: "absolute",
+                            left: 0,
+                            right: 0,
+                            [labelPosition]: 0,
+                            padding: LABEL_PADDING * scale,
+                            background: withOpacity(theme.label.background, theme.label.opacity),
+                            color: theme.label.color,
+                            fontSize: LABEL_SIZE * scale,
+                            fontWeight: 900,
+                            textAlign: "center",
+                          }}
+                        >
+                          {labelText}
+                        </div>
+                      ) : null}
+                    </div>
+
+                    {m.labelBelow ? (
+                      <div
+                        style={{
+                          display: "flex",
+                          flexDirection: "column",
+                          justifyContent: "center",
+                          alignItems: "center",
+                          height: m.labelBelow,
+                          color: theme.titleColor,
+                          fontSize: LABEL_SIZE * scale,
+                          fontWeight: 900,
+                          overflow: "hidden",
+                        }}
+                      >
+                        {labelText}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (size === "full") {
+    return new ImageResponse(chart, {
+      width: Math.round(box.width),
+      height: Math.round(box.height),
+      headers,
+    });
+  }
+
+  // Letterbox into the card using the chart's base color
+  const fill =
+    theme.background.type === "gradient" ? theme.background.from : theme.background.color;
+  return new ImageResponse(
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        width: "100%",
+        height: "100%",
+        background: fill,
+      }}
+    >
+      {chart}
+    </div>,
+    { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, headers }
+  );
+}
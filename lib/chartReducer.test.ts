@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { defaultChartState, type ChartState } from "./chart";
+import { chartReducer } from "./chartReducer";
+import { getPreset } from "./layouts";
+import { BUILT_IN_TEMPLATES } from "./templates";
+import { DEFAULT_THEME } from "./themes";
+import { POOL_ROW } from "./tierList";
+
+function chart(patch: Partial<ChartState> = {}): ChartState {
+  return { ...defaultChartState(), ...patch };
+}
+
+describe("chartReducer", () => {
+  it("replaces the whole chart on load", () => {
+    const loaded = chart({ title: "Loaded" });
+    expect(chartReducer(chart(), { type: "load", state: loaded })).toBe(loaded);
+  });
+
+  it("sets the title and a cell label", () => {
+    let state = chartReducer(chart(), { type: "setTitle", title: "Mine" });
+    state = chartReducer(state, { type: "setLabel", index: 2, label: "Best" });
+    expect(state.title).toBe("Mine");
+    expect(state.cells[2].label).toBe("Best");
+  });
+
+  it("drops the crop when a cell gets a new cover", () => {
+    const start = chartReducer(chart(), {
+      type: "updateCell",
+      index: 0,
+      patch: { imageUrl: "https://a.example/old.jpg", crop: { zoom: 2, x: 10, y: 20 } },
+    });
+    const state = chartReducer(start, {
+      type: "setImage",
+      index: 0,
+      imageUrl: "https://a.example/new.jpg",
+      source: { provider: "anime", id: "1", title: "New" },
+    });
+    expect(state.cells[0]).toEqual({
+      label: start.cells[0].label,
+      imageUrl: "https://a.example/new.jpg",
+      source: { provider: "anime", id: "1", title: "New" },
+      crop: undefined,
+    });
+  });
+
+  it("ignores edits to cells that don't exist", () => {
+    const start = chart();
+    expect(chartReducer(start, { type: "setLabel", index: 999, label: "x" })).toBe(start);
+  });
+
+  it("patches several cells at once", () => {
+    const state = chartReducer(chart(), {
+      type: "updateCells",
+      patches: [
+        { index: 0, patch: { imageUrl: "a" } },
+        { index: 3, patch: { imageUrl: "b" } },
+      ],
+    });
+    expect(state.cells.map((c) => c.imageUrl).slice(0, 4)).toEqual([
+      "a",
+      undefined,
+      undefined,
+      "b",
+    ]);
+  });
+
+  it("swaps whole cells or only their images", () => {
+    const start = chartReducer(chart(), {
+      type: "updateCells",
+      patches: [
+        { index: 0, patch: { imageUrl: "a" } },
+        { index: 1, patch: { imageUrl: "b" } },
+      ],
+    });
+    const [first, second] = start.cells;
+
+    const cells = chartReducer(start, { type: "swapCells", from: 0, to: 1, mode: "cell" }).cells;
+    expect(cells.slice(0, 2)).toEqual([second, first]);
+
+    const images = chartReducer(start, { type: "swapCells", from: 0, to: 1, mode: "image" }).cells;
+    expect(images.slice(0, 2)).toEqual([
+      { label: first.label, imageUrl: "b" },
+      { label: second.label, imageUrl: "a" },
+    ]);
+  });
+
+  it("turns a preset into a custom grid on resize and clamps the size", () => {
+    const state = chartReducer(chart(), { type: "resizeGrid", rows: 2, cols: 40 });
+    expect(state.presetId).toBe("custom");
+    expect(state.layout).toMatchObject({ rows: 2, cols: 12 });
+    expect(state.cells).toHaveLength(24);
+  });
+
+  it("keeps the cells a smaller grid cuts off and brings them back when it grows", () => {
+    const start = chartReducer(chart(), {
+      type: "updateCell",
+      index: 17,
+      patch: { imageUrl: "last" },
+    });
+    const shrunk = chartReducer(start, { type: "resizeGrid", rows: 1 });
+    expect(shrunk.cells).toEqual(start.cells.slice(0, 6));
+    expect(shrunk.hiddenCells).toEqual(start.cells.slice(6));
+
+    const grown = chartReducer(shrunk, { type: "resizeGrid", rows: 4 });
+    expect(grown.cells.slice(0, 18)).toEqual(start.cells);
+    expect(grown.cells.slice(18)).toEqual(Array(6).fill({ label: "" }));
+    expect(grown.hiddenCells).toBeUndefined();
+  });
+
+  it("doesn't keep empty cells past the grid", () => {
+    const grown = chartReducer(chart(), { type: "resizeGrid", rows: 4 });
+    expect(chartReducer(grown, { type: "resizeGrid", rows: 3 }).hiddenCells).toBeUndefined();
+  });
+
+  it("applies a preset's layout and labels", () => {
+    const preset = getPreset("topster-3x3")!;
+    const state = chartReducer(chart(), { type: "applyPreset", presetId: preset.id });
+    expect(state.presetId).toBe(preset.id);
+    expect(state.layout).toEqual(preset.layout);
+    expect(state.cells).toHaveLength(9);
+    expect(state.hiddenCells).toHaveLength(9);
+  });
+
+  it("leaves the chart alone for an unknown preset", () => {
+    const start = chart();
+    expect(chartReducer(start, { type: "applyPreset", presetId: "nope" })).toBe(start);
+  });
+
+  it("rewrites title, grid and labels from a template but keeps the covers", () => {
+    const start = chartReducer(chart(), {
+      type: "updateCell",
+      index: 0,
+      patch: { imageUrl: "kept" },
+    });
+    const state = chartReducer(start, {
+      type: "applyTemplate",
+      template: {
+        id: "t",
+        name: "T",
+        title: "Template",
+        layout: { rows: 1, cols: 2, aspect: "1 / 1" },
+        labels: ["One", "Two"],
+      },
+    });
+    expect(state.title).toBe("Template");
+    expect(state.cells).toEqual([{ label: "One", imageUrl: "kept" }, { label: "Two" }]);
+  });
+
+  it("keeps the covers past a smaller template's grid", () => {
+    const start = chartReducer(chart(), {
+      type: "updateCells",
+      patches: [12, 17].map((index) => ({ index, patch: { imageUrl: `cover-${index}` } })),
+    });
+    const template = BUILT_IN_TEMPLATES.find((t) => t.name === "Favorite per Year")!;
+    const state = chartReducer(start, { type: "applyTemplate", template });
+
+    expect(state.cells).toHaveLength(12);
+    expect(state.hiddenCells).toEqual(start.cells.slice(12));
+    const grown = chartReducer(state, { type: "resizeGrid", rows: 5 });
+    expect(grown.cells.slice(12, 18)).toEqual(start.cells.slice(12));
+  });
+
+  it("updates aspect, theme and mode", () => {
+    let state = chartReducer(chart(), { type: "setAspect", aspect: "1 / 1" });
+    state = chartReducer(state, { type: "updateTheme", patch: { titleColor: "#000000" } });
+    state = chartReducer(state, { type: "setMode", mode: "tier" });
+    expect(state.layout.aspect).toBe("1 / 1");
+    expect(state.theme).toEqual({ ...DEFAULT_THEME, titleColor: "#000000" });
+    expect(state.mode).toBe("tier");
+  });
+
+  it("adds, places, updates and removes tier items", () => {
+    let state = chartReducer(chart(), {
+      type: "insertTierItems",
+      target: { row: POOL_ROW },
+      items: [{ label: "a" }, { label: "b" }],
+    });
+    state = chartReducer(state, {
+      type: "updateTierItem",
+      slot: { row: POOL_ROW, index: 1 },
+      patch: { imageUrl: "b.jpg" },
+    });
+    state = chartReducer(state, { type: "removeTierItem", slot: { row: POOL_ROW, index: 0 } });
+    expect(state.tierList.pool).toEqual([{ label: "b", imageUrl: "b.jpg" }]);
+  });
+
+  it("moves tier items from where they are when the action runs", () => {
+    let state = chartReducer(chart(), {
+      type: "insertTierItems",
+      target: { row: POOL_ROW },
+      items: [{ label: "a" }, { label: "b" }],
+    });
+    // Two moves dispatched from the same render: the second still finds "b"
+    const from = { row: POOL_ROW, index: 0 };
+    state = chartReducer(state, { type: "moveTierItem", from, to: { row: 0 } });
+    state = chartReducer(state, { type: "moveTierItem", from, to: { row: 1 } });
+    expect(state.tierList.rows[0].items).toEqual([{ label: "a" }]);
+    expect(state.tierList.rows[1].items).toEqual([{ label: "b" }]);
+    expect(state.tierList.pool).toEqual([]);
+  });
+
+  it("adds, renames, reorders and removes tiers", () => {
+    const start = chart();
+    let state = chartReducer(start, { type: "addTier" });
+    expect(state.tierList.rows).toHaveLength(start.tierList.rows.length + 1);
+
+    state = chartReducer(state, { type: "updateTier", row: 0, patch: { label: "Top" } });
+    state = chartReducer(state, { type: "moveTier", row: 0, to: 1 });
+    expect(state.tierList.rows.slice(0, 2).map((r) => r.label)).toEqual(["A", "Top"]);
+
+    state = chartReducer(state, {
+      type: "insertTierItems",
+      target: { row: 1 },
+      items: [{ label: "x" }],
+    });
+    state = chartReducer(state, { type: "removeTier", row: 1 });
+    expect(state.tierList.rows.map((r) => r.label)).not.toContain("Top");
+    expect(state.tierList.pool).toEqual([{ label: "x" }]);
+  });
+
+  it("applies merged room ops", () => {
+    const op = { key: "cell/1/label", value: "Remote", clock: 1, client: "b" };
+    const state = chartReducer(chart(), {
+      type: "applyRoomOps",
+      ops: [op],
+      registers: new Map([[op.key, op]]),
+    });
+    expect(state.cells[1].label).toBe("Remote");
+  });
+});
@@ -0,0 +1,203 @@
+import { swapCells, type CellData, type CellSource, type ChartState, type SwapMode } from "./chart";
+import {
+  applyPresetToCells,
+  cellCount,
+  clampGridSize,
+  getPreset,
+  overflowCells,
+  resizeCells,
+  type CellAspect,
+  type GridLayout,
+  type LayoutPreset,
+} from "./layouts";
+import { applyRoomOps, type RoomOp, type RoomRegisters } from "./room";
+import { templatePresetId } from "./templates";
+import type { ChartTheme } from "./themes";
+import {
+  addTier,
+  insertTierItems,
+  moveTier,
+  moveTierItem,
+  removeTier,
+  removeTierItem,
+  updateTier,
+  updateTierItem,
+  type ChartMode,
+  type TierRow,
+  type TierSlot,
+  type TierTarget,
+} from "./tierList";
+
+// Every change to the chart content is one of these actions, applied by
+// chartReducer. Selection, modals and undo history stay in the component; the
+// reducer only knows about ChartState.
+
+export type ChartAction =
+  // Replaces the whole chart (drafts, imports, share links, undo/redo)
+  | { type: "load"; state: ChartState }
+  | { type: "setTitle"; title: string }
+  | { type: "setLabel"; index: number; label: string }
+  // A new cover for a cell; any crop is dropped since it was for the old image
+  | { type: "setImage"; index: number; imageUrl?: string; source?: CellSource }
+  | { type: "updateCell"; index: number; patch: Partial<CellData> }
+  // Several cells at once, e.g. a bulk fill
+  | { type: "updateCells"; patches: Array<{ index: number; patch: Partial<CellData> }> }
+  | { type: "swapCells"; from: number; to: number; mode: SwapMode }
+  // Editing rows/cols by hand turns any preset into a plain uniform grid. Cells
+  // a smaller grid cuts off move to hiddenCells and come back when it grows.
+  | { type: "resizeGrid"; rows?: number; cols?: number }
+  | { type: "applyPreset"; presetId: string }
+  // Rewrites title, grid and labels; covers stay in their cells, and any past a
+  // smaller template's grid are kept hidden like a shrink's
+  | { type: "applyTemplate"; template: LayoutPreset & { title: string } }
+  | { type: "setAspect"; aspect: CellAspect }
+  | { type: "setTheme"; theme: ChartTheme }
+  | { type: "updateTheme"; patch: Partial<ChartTheme> }
+  | { type: "setMode"; mode: ChartMode }
+  // Tier list edits, each the helper of the same name from tierList.ts run on the
+  // list as it is when the action is applied
+  | { type: "updateTierItem"; slot: TierSlot; patch: Partial<CellData> }
+  | { type: "insertTierItems"; target: TierTarget; items: CellData[] }
+  | { type: "removeTierItem"; slot: TierSlot }
+  | { type: "moveTierItem"; from: TierSlot; to: TierTarget }
+  | { type: "addTier" }
+  | { type: "removeTier"; row: number }
+  | { type: "moveTier"; row: number; to: number }
+  | { type: "updateTier"; row: number; patch: Partial<Omit<TierRow, "items">> }
+  // Edits from other people in a collaborative room (see room.ts)
+  | { type: "applyRoomOps"; ops: RoomOp[]; registers: RoomRegisters };
+
+function updateCells(cells: CellData[], patches: Map<number, Partial<CellData>>) {
+  return cells.map((cell, i) => {
+    const patch = patches.get(i);
+    return patch ? { ...cell, ...patch } : cell;
+  });
+}
+
+// The grid's cells followed by the ones a smaller grid cut off
+function allCells(state: ChartState) {
+  return state.hiddenCells ? [...state.cells, ...state.hiddenCells] : state.cells;
+}
+
+function hiddenCells(cells: CellData[], count: number) {
+  const hidden = overflowCells(cells, count);
+  return hidden.length > 0 ? hidden : undefined;
+}
+
+export function chartReducer(state: ChartState, action: ChartAction): ChartState {
+  switch (action.type) {
+    case "load":
+      return action.state;
+
+    case "setTitle":
+      return { ...state, title: action.title };
+
+    case "setLabel":
+      return chartReducer(state, {
+        type: "updateCell",
+        index: action.index,
+        patch: { label: action.label },
+      });
+
+    case "setImage":
+      return chartReducer(state, {
+        type: "updateCell",
+        index: action.index,
+        patch: { imageUrl: action.imageUrl, source: action.source, crop: undefined },
+      });
+
+    case "updateCell":
+      if (!state.cells[action.index]) return state;
+      return { ...state, cells: updateCells(state.cells, new Map([[action.index, action.patch]])) };
+
+    case "updateCells":
+      return {
+        ...state,
+        cells: updateCells(state.cells, new Map(action.patches.map((p) => [p.index, p.patch]))),
+      };
+
+    case "swapCells":
+      return { ...state, cells: swapCells(state.cells, action.from, action.to, action.mode) };
+
+    case "resizeGrid": {
+      const layout: GridLayout = {
+        rows: clampGridSize(action.rows ?? state.layout.rows),
+        cols: clampGridSize(action.cols ?? state.layout.cols),
+        aspect: state.layout.aspect,
+      };
+      const cells = allCells(state);
+      return {
+        ...state,
+        presetId: "custom",
+        layout,
+        cells: resizeCells(cells, cellCount(layout)),
+        hiddenCells: hiddenCells(cells, cellCount(layout)),
+      };
+    }
+
+    case "applyPreset": {
+      const preset = getPreset(action.presetId);
+      if (!preset) return state;
+      const cells = allCells(state);
+      return {
+        ...state,
+        presetId: preset.id,
+        layout: preset.layout,
+        cells: applyPresetToCells(cells, preset),
+        hiddenCells: hiddenCells(cells, cellCount(preset.layout)),
+      };
+    }
+
+    case "applyTemplate": {
+      const { template } = action;
+      const cells = allCells(state);
+      return {
+        ...state,
+        title: template.title,
+        presetId: templatePresetId(template.layout),
+        layout: template.layout,
+        cells: applyPresetToCells(cells, template),
+        hiddenCells: hiddenCells(cells, cellCount(template.layout)),
+      };
+    }
+
+    case "setAspect":
+      return { ...state, layout: { ...state.layout, aspect: action.aspect } };
+
+    case "setTheme":
+      return { ...state, theme: action.theme };
+
+    case "updateTheme":
+      return { ...state, theme: { ...state.theme, ...action.patch } };
+
+    case "setMode":
+      return { ...state, mode: action.mode };
+
+    case "updateTierItem":
+      return { ...state, tierList: updateTierItem(state.tierList, action.slot, action.patch) };
+
+    case "insertTierItems":
+      return { ...state, tierList: insertTierItems(state.tierList, action.target, action.items) };
+
+    case "removeTierItem":
+      return { ...state, tierList: removeTierItem(state.tierList, action.slot) };
+
+    case "moveTierItem":
+      return { ...state, tierList: moveTierItem(state.tierList, action.from, action.to).list };
+
+    case "addTier":
+      return { ...state, tierList: addTier(state.tierList) };
+
+    case "removeTier":
+      return { ...state, tierList: removeTier(state.tierList, action.row) };
+
+    case "moveTier":
+      return { ...state, tierList: moveTier(state.tierList, action.row, action.to) };
+
+    case "updateTier":
+      return { ...state, tierList: updateTier(state.tierList, action.row, action.patch) };
+
+    case "applyRoomOps":
+      return applyRoomOps(state, action.ops, action.registers);
+  }
+}
@@ -0,0 +1,376 @@
+import type { CellData, ChartState } from "./chart";
+import { clampCrop } from "./crop";
+import {
+  CELL_ASPECTS,
+  MAX_GRID_SIZE,
+  MIN_GRID_SIZE,
+  cellCount,
+  resizeCells,
+  type GridLayout,
+} from "./layouts";
+import { DEFAULT_THEME, parseTheme, type ChartTheme, type ThemeBackground } from "./themes";
+import {
+  MAX_TIERS,
+  MAX_TIER_LABEL_LENGTH,
+  defaultTierList,
+  type ChartMode,
+  type TierList,
+  type TierRow,
+} from "./tierList";
+
+// Bump when the serialized shape changes, and teach migrateChart() the old shape
+export const CHART_SCHEMA_VERSION = 1;
+
+export type SerializedImage =
+  // Searched covers (or any other plain URL)
+  | { type: "url"; url: string }
+  // Uploads kept in IndexedDB, see lib/imageStore.ts
+  | { type: "stored"; id: string }
+  // Uploads inlined as base64 data URLs, for portable .json chart files
+  | { type: "embedded"; dataUrl: string };
+
+export type SerializedCell = Omit<CellData, "imageUrl"> & {
+  image?: SerializedImage;
+};
+
+// Theme with an image background goes through the same image encoding as cells
+export type SerializedTheme = Omit<ChartTheme, "background"> & {
+  background:
+    | Exclude<ThemeBackground, { type: "image" }>
+    | { type: "image"; color: string; image: SerializedImage };
+};
+
+export type SerializedTierList = {
+  rows: Array<Omit<TierRow, "items"> & { items: SerializedCell[] }>;
+  pool: SerializedCell[];
+};
+
+export type SerializedChart = {
+  version: typeof CHART_SCHEMA_VERSION;
+  title: string;
+  presetId: string;
+  layout: GridLayout;
+  // Optional so charts saved before themes existed still load with the default
+  theme?: SerializedTheme;
+  cells: SerializedCell[];
+  // Cells a smaller grid cut off (see ChartState.hiddenCells)
+  hiddenCells?: SerializedCell[];
+  // Optional too: charts from before tier lists open as a grid with the default tiers
+  mode?: ChartMode;
+  tierList?: SerializedTierList;
+};
+
+export class ChartSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartSchemaError";
+  }
+}
+
+export async function serializeChart(
+  state: ChartState,
+  encodeImage: (imageUrl: string) => Promise<SerializedImage>
+): Promise<SerializedChart> {
+  const encodeCells = (cells: CellData[]) =>
+    Promise.all(
+      cells.map(async ({ imageUrl, ...rest }) => {
+        const cell: SerializedCell = { ...rest };
+        if (imageUrl) cell.image = await encodeImage(imageUrl);
+        return cell;
+      })
+    );
+  const cells = await encodeCells(state.cells);
+  const hiddenCells = state.hiddenCells?.length ? await encodeCells(state.hiddenCells) : undefined;
+  const tierList: SerializedTierList = {
+    rows: await Promise.all(
+      state.tierList.rows.map(async (row) => ({ ...row, items: await encodeCells(row.items) }))
+    ),
+    pool: await encodeCells(state.tierList.pool),
+  };
+
+  const { background, ...themeRest } = state.theme;
+  const theme: SerializedTheme =
+    background.type === "image"
+      ? {
+          ...themeRest,
+          background: {
+            type: "image",
+            color: background.color,
+            image: await encodeImage(background.imageUrl),
+          },
+        }
+      : { ...themeRest, background };
+
+  return {
+    version: CHART_SCHEMA_VERSION,
+    title: state.title,
+    presetId: state.presetId,
+    layout: state.layout,
+    theme,
+    cells,
+    hiddenCells,
+    mode: state.mode,
+    tierList,
+  };
+}
+
+export async function deserializeChart(
+  chart: SerializedChart,
+  decodeImage: (image: SerializedImage) => Promise<string | undefined>
+): Promise<ChartState> {
+  const decodeCells = (cells: SerializedCell[]) =>
+    Promise.all(
+      cells.map(async ({ image, ...rest }) => {
+        const cell: CellData = { ...rest };
+        if (image) {
+          const imageUrl = await decodeImage(image);
+          if (imageUrl) cell.imageUrl = imageUrl;
+        }
+        return cell;
+      })
+    );
+  const cells = await decodeCells(chart.cells);
+  const hiddenCells = chart.hiddenCells ? await decodeCells(chart.hiddenCells) : undefined;
+  const tierList: TierList = chart.tierList
+    ? {
+        rows: await Promise.all(
+          chart.tierList.rows.map(async (row) => ({ ...row, items: await decodeCells(row.items) }))
+        ),
+        pool: await decodeCells(chart.tierList.pool),
+      }
+    : defaultTierList();
+
+  let theme = DEFAULT_THEME;
+  if (chart.theme) {
+    const { background } = chart.theme;
+    const imageUrl = background.type === "image" ? await decodeImage(background.image) : undefined;
+    // An image background whose image is gone falls back to its color
+    theme = parseTheme(
+      background.type === "image" && !imageUrl
+        ? { ...chart.theme, background: { type: "color", color: background.color } }
+        : chart.theme,
+      imageUrl
+    );
+  }
+
+  return {
+    title: chart.title,
+    presetId: chart.presetId,
+    layout: chart.layout,
+    theme,
+    cells,
+    hiddenCells,
+    mode: chart.mode ?? "grid",
+    tierList,
+  };
+}
+
+// Every image reference a chart holds, e.g. to keep stored uploads alive
+export function imageRefs(chart: SerializedChart) {
+  const tierCells = chart.tierList
+    ? [...chart.tierList.rows.flatMap((r) => r.items), ...chart.tierList.pool]
+    : [];
+  const refs = [...chart.cells, ...(chart.hiddenCells ?? []), ...tierCells].flatMap((c) =>
+    c.image ? [c.image] : []
+  );
+  if (chart.theme?.background.type === "image") refs.push(chart.theme.background.image);
+  return refs;
+}
+
+// ====== Validation ======
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isGridSize(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= MIN_GRID_SIZE && (v as number) <= MAX_GRID_SIZE;
+}
+
+export function parseLayout(raw: unknown): GridLayout {
+  if (!isRecord(raw)) throw new ChartSchemaError("Chart layout is missing.");
+
+  const { rows, cols, aspect, tiers } = raw;
+  if (!isGridSize(rows) || !isGridSize(cols)) {
+    throw new ChartSchemaError(
+      `Chart grid must be between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE} rows and columns.`
+    );
+  }
+  if (!CELL_ASPECTS.some((a) => a.value === aspect)) {
+    throw new ChartSchemaError("Chart has an unknown cell aspect ratio.");
+  }
+
+  const layout: GridLayout = { rows, cols, aspect: aspect as GridLayout["aspect"] };
+  if (tiers !== undefined) {
+    // One size per row, so a tiered grid is never bigger than a full 12x12 one
+    if (
+      !Array.isArray(tiers) ||
+      tiers.length !== rows ||
+      tiers.length > MAX_GRID_SIZE ||
+      !tiers.every(isGridSize)
+    ) {
+      throw new ChartSchemaError("Chart has invalid tier sizes.");
+    }
+    layout.tiers = tiers;
+  }
+  return layout;
+}
+
+function parseImage(raw: unknown): SerializedImage {
+  if (isRecord(raw)) {
+    if (raw.type === "url" && typeof raw.url === "string") return { type: "url", url: raw.url };
+    if (raw.type === "stored" && typeof raw.id === "string") return { type: "stored", id: raw.id };
+    if (
+      raw.type === "embedded" &&
+      typeof raw.dataUrl === "string" &&
+      raw.dataUrl.startsWith("data:image/")
+    ) {
+      return { type: "embedded", dataUrl: raw.dataUrl };
+    }
+  }
+  throw new ChartSchemaError("Chart has a cell with an invalid image.");
+}
+
+// Themes are validated leniently (see parseTheme); only an image background's
+// reference has to be well-formed
+function parseSerializedTheme(raw: unknown): SerializedTheme | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  const bg = isRecord(raw.background) ? raw.background : null;
+  if (bg?.type === "image") {
+    const image = parseImage(bg.image);
+    const { background, ...rest } = parseTheme(raw, "image");
+    const color = background.type === "image" ? background.color : "#ffffff";
+    return { ...rest, background: { type: "image", color, image } };
+  }
+
+  const { background, ...rest } = parseTheme(raw);
+  if (background.type === "image") return undefined;
+  return { ...rest, background };
+}
+
+export function parseCell(raw: unknown): SerializedCell {
+  if (!isRecord(raw) || typeof raw.label !== "string") {
+    throw new ChartSchemaError("Chart has a cell without a label.");
+  }
+
+  const cell: SerializedCell = { label: raw.label };
+  if (raw.image !== undefined) cell.image = parseImage(raw.image);
+  // Source is optional metadata; drop it rather than reject the chart if it's malformed
+  if (
+    isRecord(raw.source) &&
+    typeof raw.source.provider === "string" &&
+    typeof raw.source.id === "string"
+  ) {
+    const { provider, id, title, year, url } = raw.source;
+    cell.source = { provider, id };
+    if (typeof title === "string" && title) cell.source.title = title.slice(0, 300);
+    if (typeof year === "number" && Number.isInteger(year)) cell.source.year = year;
+    // Rendered as a link, so nothing but plain https
+    if (typeof url === "string" && url.startsWith("https://")) cell.source.url = url;
+  }
+  if (isRecord(raw.crop)) {
+    const { zoom, x, y, fit } = raw.crop;
+    if (typeof zoom === "number" && typeof x === "number" && typeof y === "number") {
+      cell.crop = clampCrop({ zoom, x, y, fit: fit === "contain" ? "contain" : "cover" });
+    }
+  }
+  return cell;
+}
+
+function parseTierList(raw: unknown): SerializedTierList | undefined {
+  if (!isRecord(raw) || !Array.isArray(raw.rows) || !Array.isArray(raw.pool)) return undefined;
+
+  const rows = raw.rows.slice(0, MAX_TIERS).map((row) => {
+    if (!isRecord(row) || !Array.isArray(row.items)) {
+      throw new ChartSchemaError("Chart has an invalid tier list row.");
+    }
+    return {
+      label: typeof row.label === "string" ? row.label.slice(0, MAX_TIER_LABEL_LENGTH) : "",
+      color:
+        typeof row.color === "string" && /^#[0-9a-f]{6}$/i.test(row.color) ? row.color : "#cfcfcf",
+      items: row.items.map(parseCell),
+    };
+  });
+  return { rows, pool: raw.pool.map(parseCell) };
+}
+
+// v0 charts predate the schema: just a title and the raw CellData list as they
+// were held in state, on a fixed 3x6 grid. Hand-written chart files also tend to
+// look like this.
+function migrateV0(raw: Record<string, unknown>) {
+  const cells = Array.isArray(raw.cells)
+    ? raw.cells.map((c) => {
+        if (!isRecord(c) || typeof c.imageUrl !== "string") return c;
+        const { imageUrl, ...rest } = c;
+        const image = imageUrl.startsWith("data:")
+          ? { type: "embedded", dataUrl: imageUrl }
+          : { type: "url", url: imageUrl };
+        return { ...rest, image };
+      })
+    : raw.cells;
+
+  return {
+    version: 1,
+    title: raw.title ?? raw.chartTitle,
+    presetId: "custom",
+    layout: raw.layout ?? { rows: 3, cols: 6, aspect: "2 / 3" },
+    cells,
+  };
+}
+
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  0: migrateV0,
+};
+
+// Upgrades older serialized charts one version at a time to the current version
+function migrateChart(raw: Record<string, unknown>) {
+  const initial = raw.version ?? 0;
+  if (typeof initial !== "number" || !Number.isInteger(initial)) {
+    throw new ChartSchemaError("Chart has an invalid schema version.");
+  }
+
+  let data = raw;
+  let version = initial;
+  if (version > CHART_SCHEMA_VERSION) {
+    throw new ChartSchemaError("Chart was saved by a newer version of the app.");
+  }
+
+  while (version < CHART_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new ChartSchemaError(`Chart schema version ${version} is not supported.`);
+    data = migrate(data);
+    version = data.version as number;
+  }
+  return data;
+}
+
+export function parseSerializedChart(raw: unknown): SerializedChart {
+  if (!isRecord(raw)) throw new ChartSchemaError("Chart data is not an object.");
+
+  const data = migrateChart(raw);
+  if (typeof data.title !== "string") throw new ChartSchemaError("Chart title is missing.");
+  if (!Array.isArray(data.cells)) throw new ChartSchemaError("Chart cells are missing.");
+
+  const layout = parseLayout(data.layout);
+  // Tolerate cell lists that don't match the grid rather than rejecting the chart;
+  // cells past the grid are kept hidden like the ones a shrink cuts off
+  const count = cellCount(layout);
+  const allCells = [...data.cells, ...(Array.isArray(data.hiddenCells) ? data.hiddenCells : [])]
+    .slice(0, MAX_GRID_SIZE * MAX_GRID_SIZE)
+    .map(parseCell);
+  const cells = resizeCells(allCells.slice(0, count), count);
+  const hiddenCells = allCells.slice(count);
+
+  return {
+    version: CHART_SCHEMA_VERSION,
+    title: data.title,
+    presetId: typeof data.presetId === "string" ? data.presetId : "custom",
+    layout,
+    theme: parseSerializedTheme(data.theme),
+    cells,
+    hiddenCells: hiddenCells.length > 0 ? hiddenCells : undefined,
+    mode: data.mode === "tier" ? "tier" : "grid",
+    tierList: parseTierList(data.tierList),
+  };
+}
@@ -0,0 +1,114 @@
+import { proxiedImageUrl, unproxiedImageUrl } from "./imageProxy";
+
+// Compact "source:id" references for searched covers, so a chart can point at a
+// cover without carrying the whole URL (used by share links). Sizes are left out
+// when they're the one search results use.
+//
+//   igdb:co1wyy                     -> images.igdb.com/.../t_cover_big/co1wyy.jpg
+//   igdb:t_1080p/ar5l8              -> images.igdb.com/.../t_1080p/ar5l8.jpg
+//   anilist:anime/large/bx21-x.jpg  -> s4.anilist.co/.../media/anime/cover/large/bx21-x.jpg
+//   anilist-banner:anime/21-x.jpg   -> s4.anilist.co/.../media/anime/banner/21-x.jpg
+//   anilist-char:large/b40-x.png    -> s4.anilist.co/.../character/large/b40-x.png
+//   tmdb:abc123.jpg                 -> image.tmdb.org/t/p/w500/abc123.jpg
+//   tmdb:w1280/abc123.jpg           -> image.tmdb.org/t/p/w1280/abc123.jpg
+//   ol:8739161                      -> covers.openlibrary.org/b/id/8739161-L.jpg
+//   caa:<release group mbid>        -> coverartarchive.org/release-group/<mbid>/front-500
+
+const IGDB_PATTERN = /^https:\/\/images\.igdb\.com\/igdb\/image\/upload\/(t_\w+)\/(\w+)\.jpg$/;
+const TMDB_PATTERN = /^https:\/\/image\.tmdb\.org\/t\/p\/(w\d+)\/([\w.-]+)$/;
+const OPEN_LIBRARY_PATTERN = /^https:\/\/covers\.openlibrary\.org\/b\/id\/(\d+)-L\.jpg$/;
+const CAA_PATTERN = /^https:\/\/coverartarchive\.org\/release-group\/([\w-]+)\/front-500$/;
+const ANILIST_PATTERN =
+  /^https:\/\/s4\.anilist\.co\/file\/anilistcdn\/media\/(anime|manga)\/cover\/(\w+)\/([\w.-]+)$/;
+const ANILIST_BANNER_PATTERN =
+  /^https:\/\/s4\.anilist\.co\/file\/anilistcdn\/media\/(anime|manga)\/banner\/([\w.-]+)$/;
+
+const ANILIST_CHARACTER_PATTERN =
+  /^https:\/\/s4\.anilist\.co\/file\/anilistcdn\/character\/(\w+)\/([\w.-]+)$/;
+
+const ANILIST_BASE = "https://s4.anilist.co/file/anilistcdn/media";
+const ANILIST_CHARACTER_BASE = "https://s4.anilist.co/file/anilistcdn/character";
+
+export function toCoverRef(imageUrl: string): string | null {
+  const url = unproxiedImageUrl(imageUrl);
+
+  const igdb = url.match(IGDB_PATTERN);
+  if (igdb) return igdb[1] === "t_cover_big" ? `igdb:${igdb[2]}` : `igdb:${igdb[1]}/${igdb[2]}`;
+
+  const anilist = url.match(ANILIST_PATTERN);
+  if (anilist) return `anilist:${anilist[1]}/${anilist[2]}/${anilist[3]}`;
+
+  const banner = url.match(ANILIST_BANNER_PATTERN);
+  if (banner) return `anilist-banner:${banner[1]}/${banner[2]}`;
+
+  const character = url.match(ANILIST_CHARACTER_PATTERN);
+  if (character) return `anilist-char:${character[1]}/${character[2]}`;
+
+  const tmdb = url.match(TMDB_PATTERN);
+  if (tmdb) return tmdb[1] === "w500" ? `tmdb:${tmdb[2]}` : `tmdb:${tmdb[1]}/${tmdb[2]}`;
+
+  const openLibrary = url.match(OPEN_LIBRARY_PATTERN);
+  if (openLibrary) return `ol:${openLibrary[1]}`;
+
+  const caa = url.match(CAA_PATTERN);
+  if (caa) return `caa:${caa[1]}`;
+
+  return null;
+}
+
+// Splits "size/id" refs, filling in the default size when there's no slash
+function sized(id: string, defaultSize: string) {
+  const slash = id.indexOf("/");
+  return slash === -1 ? [defaultSize, id] : [id.slice(0, slash), id.slice(slash + 1)];
+}
+
+// Returns the proxied image URL for a reference, or null if it isn't recognised
+export function fromCoverRef(ref: string): string | null {
+  const sep = ref.indexOf(":");
+  if (sep === -1) return null;
+
+  const source = ref.slice(0, sep);
+  const id = ref.slice(sep + 1);
+
+  if (source === "igdb") {
+    const [size, imageId] = sized(id, "t_cover_big");
+    if (!/^t_\w+$/.test(size) || !/^\w+$/.test(imageId)) return null;
+    return proxiedImageUrl(`https://images.igdb.com/igdb/image/upload/${size}/${imageId}.jpg`);
+  }
+
+  if (source === "anilist") {
+    const [type, size, file] = id.split("/");
+    if (!/^(anime|manga)$/.test(type) || !/^\w+$/.test(size) || !/^[\w.-]+$/.test(file ?? "")) {
+      return null;
+    }
+    return proxiedImageUrl(`${ANILIST_BASE}/${type}/cover/${size}/${file}`);
+  }
+
+  if (source === "anilist-banner") {
+    const [type, file] = id.split("/");
+    if (!/^(anime|manga)$/.test(type) || !/^[\w.-]+$/.test(file ?? "")) return null;
+    return proxiedImageUrl(`${ANILIST_BASE}/${type}/banner/${file}`);
+  }
+
+  if (source === "anilist-char") {
+    const [size, file] = id.split("/");
+    if (!/^\w+$/.test(size) || !/^[\w.-]+$/.test(file ?? "")) return null;
+    return proxiedImageUrl(`${ANILIST_CHARACTER_BASE}/${size}/${file}`);
+  }
+
+  if (source === "tmdb") {
+    const [size, file] = sized(id, "w500");
+    if (!/^w\d+$/.test(size) || !/^[\w.-]+$/.test(file)) return null;
+    return proxiedImageUrl(`https://image.tmdb.org/t/p/${size}/${file}`);
+  }
+
+  if (source === "ol" && /^\d+$/.test(id)) {
+    return proxiedImageUrl(`https://covers.openlibrary.org/b/id/${id}-L.jpg`);
+  }
+
+  if (source === "caa" && /^[\w-]+$/.test(id)) {
+    return proxiedImageUrl(`https://coverartarchive.org/release-group/${id}/front-500`);
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import type { CSSProperties } from "react";
+
+// How a cover sits inside its cell. The same style drives the grid, the editor
+// preview and the PNG export, so what the editor shows is what gets exported.
+//   zoom: 1 = fills the cell (cover) or fits inside it (contain)
+//   x, y: focal point in percent of the image; zooming scales around it
+export type CellCrop = {
+  zoom: number;
+  x: number;
+  y: number;
+  fit?: "cover" | "contain";
+};
+
+export const DEFAULT_CROP: CellCrop = { zoom: 1, x: 50, y: 50, fit: "cover" };
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+
+function clamp(n: number, min: number, max: number) {
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function clampCrop(crop: CellCrop): CellCrop {
+  return {
+    zoom: clamp(crop.zoom, MIN_ZOOM, MAX_ZOOM),
+    x: clamp(crop.x, 0, 100),
+    y: clamp(crop.y, 0, 100),
+    fit: crop.fit === "contain" ? "contain" : "cover",
+  };
+}
+
+export function isDefaultCrop(crop: CellCrop | undefined) {
+  if (!crop) return true;
+  const c = clampCrop(crop);
+  return c.zoom === 1 && c.x === 50 && c.y === 50 && c.fit === "cover";
+}
+
+// Style for an absolutely positioned layer inside an overflow-hidden cell
+export function cropImageStyle(imageUrl: string, crop: CellCrop | undefined): CSSProperties {
+  const { zoom, x, y, fit } = clampCrop(crop ?? DEFAULT_CROP);
+
+  return {
+    position: "absolute",
+    inset: 0,
+    backgroundImage: `url(${imageUrl})`,
+    backgroundRepeat: "no-repeat",
+    backgroundSize: fit,
+    backgroundPosition: `${x}% ${y}%`,
+    transform: zoom === 1 ? undefined : `scale(${zoom})`,
+    transformOrigin: `${x}% ${y}%`,
+  };
+}
+
+// Moves the focal point by a pointer drag of (dx, dy) pixels over a box of the
+// given size. Dragging right reveals more of the left side, like panning a photo.
+export function panCrop(crop: CellCrop, dx: number, dy: number, width: number, height: number) {
+  return clampCrop({
+    ...crop,
+    x: crop.x - (dx / width) * (100 / crop.zoom),
+    y: crop.y - (dy / height) * (100 / crop.zoom),
+  });
+}
@@ -0,0 +1,108 @@
+import type { ChartState } from "./chart";
+import {
+  deserializeChart,
+  imageRefs,
+  parseSerializedChart,
+  serializeChart,
+  type SerializedChart,
+} from "./chartSchema";
+import { getImage, pruneImages, putImage } from "./imageStore";
+
+// localStorage layout:
+//   chart-maker:drafts         -> DraftIndex (names + which draft is open)
+//   chart-maker:draft:<id>     -> SerializedChart for that draft
+const INDEX_KEY = "chart-maker:drafts";
+const DRAFT_KEY_PREFIX = "chart-maker:draft:";
+
+export type DraftMeta = {
+  id: string;
+  name: string;
+  updatedAt: number;
+};
+
+export type DraftIndex = {
+  activeId: string | null;
+  drafts: DraftMeta[];
+};
+
+function draftKey(id: string) {
+  return `${DRAFT_KEY_PREFIX}${id}`;
+}
+
+export function newDraftId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadDraftIndex(): DraftIndex {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    if (!raw) return { activeId: null, drafts: [] };
+
+    const parsed = JSON.parse(raw) as Partial<DraftIndex>;
+    const drafts = Array.isArray(parsed.drafts)
+      ? parsed.drafts.filter((d) => typeof d?.id === "string" && typeof d?.name === "string")
+      : [];
+    const activeId = drafts.some((d) => d.id === parsed.activeId) ? parsed.activeId! : null;
+    return { activeId, drafts };
+  } catch {
+    return { activeId: null, drafts: [] };
+  }
+}
+
+export function saveDraftIndex(index: DraftIndex) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+function readSerializedDraft(id: string): SerializedChart | null {
+  try {
+    const raw = localStorage.getItem(draftKey(id));
+    return raw ? parseSerializedChart(JSON.parse(raw)) : null;
+  } catch (err) {
+    console.error(`Ignoring unreadable draft ${id}`, err);
+    return null;
+  }
+}
+
+// Data URL uploads go to IndexedDB; everything else is stored as a plain URL
+export async function saveDraft(id: string, state: ChartState) {
+  const chart = await serializeChart(state, async (imageUrl) =>
+    imageUrl.startsWith("data:")
+      ? { type: "stored", id: await putImage(imageUrl) }
+      : { type: "url", url: imageUrl }
+  );
+  localStorage.setItem(draftKey(id), JSON.stringify(chart));
+}
+
+export async function loadDraft(id: string): Promise<ChartState | null> {
+  const chart = readSerializedDraft(id);
+  if (!chart) return null;
+
+  return deserializeChart(chart, async (image) => {
+    if (image.type === "stored") return getImage(image.id);
+    if (image.type === "embedded") return image.dataUrl;
+    return image.url;
+  });
+}
+
+// Copies the stored JSON as-is; image references are shared, not duplicated
+export function copyDraft(fromId: string, toId: string) {
+  const raw = localStorage.getItem(draftKey(fromId));
+  if (raw) localStorage.setItem(draftKey(toId), raw);
+}
+
+export function removeDraft(id: string) {
+  localStorage.removeItem(draftKey(id));
+}
+
+// Drops uploaded images no remaining draft refers to
+export async function pruneUnusedImages(index: DraftIndex) {
+  const keep = new Set<string>();
+  for (const d of index.drafts) {
+    const chart = readSerializedDraft(d.id);
+    if (!chart) continue;
+    for (const image of imageRefs(chart)) {
+      if (image.type === "stored") keep.add(image.id);
+    }
+  }
+  await pruneImages(keep);
+}
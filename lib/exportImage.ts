@@ -0,0 +1,141 @@
+import { toCanvas } from "html-to-image";
+
+// Image export for the chart: html-to-image renders the export area to a canvas
+// once, then we letterbox it into a target size, add the footer line and encode.
+
+export type ExportFormat = "png" | "jpeg" | "webp";
+
+export const EXPORT_FORMATS: Array<{
+  id: ExportFormat;
+  label: string;
+  mime: string;
+  lossy: boolean;
+}> = [
+  { id: "png", label: "PNG", mime: "image/png", lossy: false },
+  { id: "jpeg", label: "JPEG", mime: "image/jpeg", lossy: true },
+  { id: "webp", label: "WebP", mime: "image/webp", lossy: true },
+];
+
+export type ExportSize =
+  { type: "scale"; pixelRatio: number } | { type: "target"; width: number; height: number };
+
+export const EXPORT_PIXEL_RATIOS = [1, 2, 3, 4];
+
+export const EXPORT_TARGETS: Array<{ id: string; label: string; width: number; height: number }> = [
+  { id: "instagram", label: "Instagram post", width: 1080, height: 1080 },
+  { id: "instagram-portrait", label: "Instagram portrait", width: 1080, height: 1350 },
+  { id: "story", label: "Story", width: 1080, height: 1920 },
+  { id: "twitter", label: "Twitter / X", width: 1200, height: 675 },
+];
+
+export type ExportOptions = {
+  format: ExportFormat;
+  quality: number; // 0..1, lossy formats only
+  size: ExportSize;
+  watermark: string; // footer line; empty for none
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "png",
+  quality: 0.92,
+  size: { type: "scale", pixelRatio: 2 },
+  watermark: "",
+};
+
+// Colors and font the composed image uses outside the captured chart
+export type ExportStyle = {
+  fill: string;
+  textColor: string;
+  fontFamily: string;
+};
+
+// Footer text height in CSS pixels (scaled with the output like the chart is)
+const FOOTER_FONT_SIZE = 14;
+const FOOTER_PADDING = 10;
+
+function footerHeight(options: ExportOptions) {
+  return options.watermark.trim() ? FOOTER_FONT_SIZE + FOOTER_PADDING * 2 : 0;
+}
+
+// Render scale for the capture: targets get enough pixels to fill the box
+// without upscaling the chart.
+export function capturePixelRatio(node: HTMLElement, options: ExportOptions) {
+  const { size } = options;
+  if (size.type === "scale") return size.pixelRatio;
+
+  const width = node.offsetWidth || 1;
+  const height = (node.offsetHeight || 1) + footerHeight(options);
+  return Math.min(size.width / width, size.height / height);
+}
+
+export async function captureChart(node: HTMLElement, pixelRatio: number) {
+  return toCanvas(node, { cacheBust: true, pixelRatio });
+}
+
+// Lays the captured chart out on the final canvas (fit + centered for targets)
+export function composeExport(
+  chart: HTMLCanvasElement,
+  pixelRatio: number,
+  options: ExportOptions,
+  style: ExportStyle
+) {
+  const footer = footerHeight(options) * pixelRatio;
+  const { size } = options;
+
+  const width = size.type === "target" ? size.width : chart.width;
+  const height = size.type === "target" ? size.height : chart.height + footer;
+  const scale =
+    size.type === "target" ? Math.min(width / chart.width, (height - footer) / chart.height, 1) : 1;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  // Also keeps the rounded corners from turning black in JPEG
+  ctx.fillStyle = style.fill;
+  ctx.fillRect(0, 0, width, height);
+
+  const chartWidth = Math.round(chart.width * scale);
+  const chartHeight = Math.round(chart.height * scale);
+  const x = Math.round((width - chartWidth) / 2);
+  const y = Math.round((height - footer - chartHeight) / 2);
+  ctx.drawImage(chart, x, y, chartWidth, chartHeight);
+
+  if (footer > 0) {
+    ctx.fillStyle = style.textColor;
+    ctx.globalAlpha = 0.75;
+    ctx.font = `${FOOTER_FONT_SIZE * pixelRatio}px ${style.fontFamily}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(options.watermark.trim(), width / 2, height - footer / 2, width * 0.9);
+    ctx.globalAlpha = 1;
+  }
+
+  return canvas;
+}
+
+export async function encodeCanvas(canvas: HTMLCanvasElement, format: ExportFormat, quality = 1) {
+  const { mime, lossy } = EXPORT_FORMATS.find((f) => f.id === format) ?? EXPORT_FORMATS[0];
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mime, lossy ? quality : undefined)
+  );
+  if (!blob) throw new Error("Could not encode the image");
+
+  // Browsers without an encoder (e.g. WebP in older Safari) silently fall back to PNG
+  if (blob.type !== mime) throw new Error(`This browser can't export ${format.toUpperCase()}`);
+  return blob;
+}
+
+export function exportFileName(title: string, format: ExportFormat) {
+  const ext = format === "jpeg" ? "jpg" : format;
+  return `${(title || "chart").replace(/[\\/:*?"<>|]/g, "")}.${ext}`;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,42 @@
+// Keeps Tab and Shift+Tab inside a modal panel, wrapping at either end. Call it
+// from the panel's keydown handler.
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+export function focusableElements(container: HTMLElement) {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => el.offsetParent !== null || el === document.activeElement
+  );
+}
+
+// Accepts DOM and React keyboard events alike
+type TabEvent = Pick<KeyboardEvent, "key" | "shiftKey" | "preventDefault">;
+
+export function trapFocus(e: TabEvent, container: HTMLElement) {
+  if (e.key !== "Tab") return;
+  const focusable = focusableElements(container);
+  if (focusable.length === 0) {
+    e.preventDefault();
+    return;
+  }
+
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = document.activeElement;
+  const outside = !(active instanceof Node) || !container.contains(active);
+
+  if (e.shiftKey && (active === first || outside)) {
+    e.preventDefault();
+    last.focus();
+  } else if (!e.shiftKey && (active === last || outside)) {
+    e.preventDefault();
+    first.focus();
+  }
+}
@@ -0,0 +1,94 @@
+import type { ChartState } from "./chart";
+import { tierListItems } from "./tierList";
+
+// Undo/redo stacks of whole-chart snapshots. Snapshots share unchanged cells and
+// image strings with each other, so the real cost of a deep stack is the distinct
+// images it keeps alive; both the step count and that image total are capped.
+export const MAX_HISTORY_STEPS = 100;
+export const MAX_HISTORY_IMAGE_BYTES = 64 * 1024 * 1024;
+
+// Edits with the same key this close together collapse into one undo step
+// (e.g. every keystroke while typing a label)
+export const COALESCE_WINDOW_MS = 1000;
+
+export type ChartHistory = {
+  past: ChartState[];
+  future: ChartState[];
+  lastKey: string | null;
+  lastAt: number;
+};
+
+export const EMPTY_HISTORY: ChartHistory = { past: [], future: [], lastKey: null, lastAt: 0 };
+
+// Rough size of the images referenced across the stack, counting each image once.
+// Data URLs are UTF-16 in memory, hence the factor of 2.
+function imageBytes(states: ChartState[]) {
+  const seen = new Set<string>();
+  let total = 0;
+  for (const state of states) {
+    const cells = [...state.cells, ...(state.hiddenCells ?? []), ...tierListItems(state.tierList)];
+    for (const cell of cells) {
+      if (!cell.imageUrl || seen.has(cell.imageUrl)) continue;
+      seen.add(cell.imageUrl);
+      total += cell.imageUrl.length * 2;
+    }
+  }
+  return total;
+}
+
+// Drops the oldest snapshots until the stack fits both caps
+function trimPast(past: ChartState[]) {
+  let trimmed = past.slice(-MAX_HISTORY_STEPS);
+  while (trimmed.length > 1 && imageBytes(trimmed) > MAX_HISTORY_IMAGE_BYTES) {
+    trimmed = trimmed.slice(1);
+  }
+  return trimmed;
+}
+
+// Records `before` (the chart as it was before an edit) as an undo step
+export function recordHistory(
+  history: ChartHistory,
+  before: ChartState,
+  key: string | null,
+  now = Date.now()
+): ChartHistory {
+  const coalesce =
+    key !== null && key === history.lastKey && now - history.lastAt < COALESCE_WINDOW_MS;
+
+  return {
+    past: coalesce ? history.past : trimPast([...history.past, before]),
+    future: [],
+    lastKey: key,
+    lastAt: now,
+  };
+}
+
+export function undoHistory(history: ChartHistory, current: ChartState) {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+
+  return {
+    state: previous,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+      lastKey: null,
+      lastAt: 0,
+    },
+  };
+}
+
+export function redoHistory(history: ChartHistory, current: ChartState) {
+  const [next, ...future] = history.future;
+  if (!next) return null;
+
+  return {
+    state: next,
+    history: {
+      past: trimPast([...history.past, current]),
+      future,
+      lastKey: null,
+      lastAt: 0,
+    },
+  };
+}
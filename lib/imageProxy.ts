@@ -0,0 +1,118 @@
+// Cover hosts the /api/image route is willing to fetch from. Anything else is
+// rejected so the proxy can't be used to pull arbitrary URLs through our server.
+export const ALLOWED_IMAGE_HOSTS = [
+  "s4.anilist.co",
+  "images.igdb.com",
+  "image.tmdb.org",
+  "covers.openlibrary.org",
+  "coverartarchive.org",
+];
+
+// Open Library and Cover Art Archive redirect to archive.org, which also serves
+// anyone's uploads. Those hops are followed only to the cover items themselves
+// (Cover Art Archive's mbid-<release id>, Open Library's covers_NNNN batches),
+// on archive.org or one of its numbered mirrors.
+const ARCHIVE_HOST_PATTERN = /^(archive\.org|ia\d+\.us\.archive\.org)$/;
+const ARCHIVE_COVER_ITEM_PATTERN = /^(mbid-[0-9a-f-]{36}|[lms]_covers_\d{4}|olcovers\d+)$/;
+
+function isAllowedHost(hostname: string) {
+  return ALLOWED_IMAGE_HOSTS.includes(hostname);
+}
+
+// The archive.org item a download URL points into: /download/<item>/... on
+// archive.org, /<n>/items/<item>/... (or view_archive.php?archive=...) on a mirror
+function archiveItem(url: URL) {
+  const path =
+    url.pathname === "/view_archive.php" ? url.searchParams.get("archive") || "" : url.pathname;
+  // Nothing that could step out of the item once the server decodes it
+  if (/\.\.|%2f|%5c/i.test(path)) return undefined;
+
+  const pattern =
+    url.hostname === "archive.org" ? /^\/download\/([^/]+)\// : /^\/\d+\/items\/([^/]+)\//;
+  return path.match(pattern)?.[1];
+}
+
+function isAllowedRedirect(raw: string) {
+  if (isAllowedImageUrl(raw)) return true;
+
+  const url = new URL(raw);
+  if (url.protocol !== "https:" || !ARCHIVE_HOST_PATTERN.test(url.hostname)) return false;
+  return ARCHIVE_COVER_ITEM_PATTERN.test(archiveItem(url) ?? "");
+}
+
+// Upstream covers are a few hundred KB at most; anything past this is not a cover.
+export const MAX_PROXIED_IMAGE_BYTES = 8 * 1024 * 1024;
+// For the whole fetch, body included, so a slow host can't hold a request open
+export const PROXIED_IMAGE_TIMEOUT_MS = 8000;
+
+// Passes bytes through untouched but errors the stream once the cap is exceeded,
+// for upstreams that don't send (or lie about) content-length.
+export function limitBytes(max: number) {
+  let seen = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      seen += chunk.byteLength;
+      if (seen > max) {
+        controller.error(new Error("Image exceeds size limit"));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+export function isAllowedImageUrl(raw: string) {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:") return false;
+  return isAllowedHost(url.hostname);
+}
+
+const MAX_REDIRECTS = 3;
+
+// Follow redirects by hand so every hop is checked against the allowlist
+export async function fetchAllowedImage(url: string, signal?: AbortSignal) {
+  let current = url;
+
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    const resp = await fetch(current, {
+      redirect: "manual",
+      headers: { Accept: "image/*" },
+      signal,
+    });
+
+    if (resp.status < 300 || resp.status >= 400) return resp;
+
+    const location = resp.headers.get("location");
+    if (!location) return resp;
+
+    const next = new URL(location, current).toString();
+    if (!isAllowedRedirect(next)) {
+      throw new Error("Redirected to a host that is not allowed");
+    }
+    current = next;
+  }
+
+  throw new Error("Too many redirects");
+}
+
+// Rewrites an external cover URL to go through our same-origin proxy so
+// html-to-image can read the pixels during export. Data URLs (uploads) and
+// URLs that are already proxied are returned unchanged.
+export function proxiedImageUrl(raw: string) {
+  if (!raw || raw.startsWith("data:") || raw.startsWith("/api/image")) return raw;
+  if (!isAllowedImageUrl(raw)) return raw;
+  return `/api/image?url=${encodeURIComponent(raw)}`;
+}
+
+// Inverse of proxiedImageUrl: the original upstream URL for a proxied one
+export function unproxiedImageUrl(raw: string) {
+  if (!raw.startsWith("/api/image?")) return raw;
+  const params = new URLSearchParams(raw.slice("/api/image?".length));
+  return params.get("url") || raw;
+}
@@ -0,0 +1,80 @@
+// Uploaded images are data URLs that can easily run to several MB each, which would
+// blow through the localStorage quota. They live in IndexedDB instead, keyed by a
+// content hash so saving the same upload twice stores it once.
+
+const DB_NAME = "chart-maker";
+const DB_VERSION = 1;
+const STORE = "images";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) {
+        req.result.createObjectStore(STORE);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("Failed to open image store"));
+    };
+  });
+
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error ?? new Error("Image store request failed"));
+      })
+  );
+}
+
+// Hashing a multi-MB string on every autosave adds up, so remember recent results
+const idCache = new Map<string, string>();
+
+async function imageId(dataUrl: string) {
+  const cached = idCache.get(dataUrl);
+  if (cached) return cached;
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(dataUrl));
+  const id = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+
+  if (idCache.size > 200) idCache.clear();
+  idCache.set(dataUrl, id);
+  return id;
+}
+
+export async function putImage(dataUrl: string) {
+  const id = await imageId(dataUrl);
+  await run("readwrite", (store) => store.put(dataUrl, id));
+  return id;
+}
+
+export async function getImage(id: string) {
+  const value = await run<unknown>("readonly", (store) => store.get(id));
+  return typeof value === "string" ? value : undefined;
+}
+
+// Deletes every stored image that isn't in `keep`
+export async function pruneImages(keep: Set<string>) {
+  const ids = await run<IDBValidKey[]>("readonly", (store) => store.getAllKeys());
+  const stale = ids.filter((id) => typeof id === "string" && !keep.has(id));
+  if (stale.length === 0) return;
+
+  await run("readwrite", (store) => {
+    let last: IDBRequest<undefined> | null = null;
+    for (const id of stale) last = store.delete(id);
+    return last!;
+  });
+}
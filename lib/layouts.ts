@@ -0,0 +1,186 @@
+export type CellAspect = "2 / 3" | "1 / 1" | "3 / 4" | "16 / 9";
+
+export const CELL_ASPECTS: Array<{ value: CellAspect; label: string }> = [
+  { value: "2 / 3", label: "Portrait (2:3)" },
+  { value: "3 / 4", label: "Tall (3:4)" },
+  { value: "1 / 1", label: "Square (1:1)" },
+  { value: "16 / 9", label: "Wide (16:9)" },
+];
+
+export type GridLayout = {
+  rows: number;
+  cols: number;
+  aspect: CellAspect;
+  // Optional cells-per-row override for tiered charts (bigger covers on top).
+  // When set, `rows` is tiers.length and `cols` is the widest tier.
+  tiers?: number[];
+};
+
+export type LayoutPreset = {
+  id: string;
+  name: string;
+  layout: GridLayout;
+  labels: string[];
+};
+
+export const MIN_GRID_SIZE = 1;
+export const MAX_GRID_SIZE = 12;
+
+// The original "About You" prompts; also the game-focused template
+export const aboutYouLabels = [
+  "Favorite Game of all Time",
+  "Favorite Series",
+  "Best Soundtrack",
+  "Favorite Protagonist",
+  "Favorite Villain",
+  "Best Story",
+  "Have not played but want to",
+  "You Love Everyone Hates",
+  "You Hate Everyone Loves",
+  "Best Art Style",
+  "Favorite Ending",
+  "Favorite Boss Fight",
+  "Childhood Game",
+  "Relaxing Game",
+  "Stressful Game",
+  "Game you always come back to",
+  "Guilty Pleasure",
+  "Tons of Hours Played",
+];
+
+export const LAYOUT_PRESETS: LayoutPreset[] = [
+  {
+    id: "about-you",
+    name: "About You (18)",
+    layout: { rows: 3, cols: 6, aspect: "2 / 3" },
+    labels: aboutYouLabels,
+  },
+  {
+    id: "topster-3x3",
+    name: "Topster 3x3",
+    layout: { rows: 3, cols: 3, aspect: "1 / 1" },
+    labels: [],
+  },
+  {
+    id: "topster-5x5",
+    name: "Topster 5x5 (Top 25)",
+    layout: { rows: 5, cols: 5, aspect: "1 / 1" },
+    labels: [],
+  },
+  {
+    id: "topster-10x10",
+    name: "Topster 10x10 (Collage)",
+    layout: { rows: 10, cols: 10, aspect: "1 / 1" },
+    labels: [],
+  },
+  {
+    id: "tiered-42",
+    name: "Tiered 42",
+    layout: { rows: 6, cols: 10, aspect: "2 / 3", tiers: [5, 5, 6, 6, 10, 10] },
+    labels: [],
+  },
+];
+
+export const DEFAULT_PRESET = LAYOUT_PRESETS[0];
+
+export function getPreset(id: string) {
+  return LAYOUT_PRESETS.find((p) => p.id === id);
+}
+
+export function cellCount(layout: GridLayout) {
+  if (layout.tiers) return layout.tiers.reduce((sum, n) => sum + n, 0);
+  return layout.rows * layout.cols;
+}
+
+// Cells per visual row, used by the grid renderer
+export function rowSizes(layout: GridLayout) {
+  return layout.tiers ?? Array.from({ length: layout.rows }, () => layout.cols);
+}
+
+// Width / height of a cell aspect such as "2 / 3"
+export function aspectRatio(aspect: string) {
+  const [w, h] = aspect.split("/").map((n) => Number(n.trim()));
+  return w > 0 && h > 0 ? w / h : 2 / 3;
+}
+
+export function clampGridSize(n: number) {
+  if (!Number.isFinite(n)) return MIN_GRID_SIZE;
+  return Math.min(MAX_GRID_SIZE, Math.max(MIN_GRID_SIZE, Math.round(n)));
+}
+
+// Grows or shrinks a cell list to `count`, keeping existing cells in order.
+// Charts are ranked lists, so content is kept by index rather than by (row, col).
+export function resizeCells<T extends { label: string }>(
+  cells: T[],
+  count: number,
+  labels: string[] = []
+): T[] {
+  if (cells.length >= count) return cells.slice(0, count);
+
+  const added = Array.from(
+    { length: count - cells.length },
+    (_, i) => ({ label: labels[cells.length + i] ?? "" }) as T
+  );
+  return [...cells, ...added];
+}
+
+// Cells past `count` that are worth keeping for when the grid grows again: empty
+// ones at the end carry nothing, and nothing past the biggest grid can come back
+export function overflowCells<T extends { label: string; imageUrl?: string }>(
+  cells: T[],
+  count: number
+): T[] {
+  const overflow = cells.slice(count, MAX_GRID_SIZE * MAX_GRID_SIZE);
+  let end = overflow.length;
+  while (end > 0 && !overflow[end - 1].label && !overflow[end - 1].imageUrl) end--;
+  return overflow.slice(0, end);
+}
+
+// Switches to a preset's grid and labels while keeping any images already placed
+export function applyPresetToCells<T extends { label: string; imageUrl?: string }>(
+  cells: T[],
+  preset: LayoutPreset
+): T[] {
+  const count = cellCount(preset.layout);
+  return Array.from({ length: count }, (_, i) => {
+    const existing = cells[i];
+    const label = preset.labels[i] ?? "";
+    return (existing ? { ...existing, label } : { label }) as T;
+  });
+}
+
+export type GridDirection = "left" | "right" | "up" | "down";
+
+export const ARROW_KEY_DIRECTIONS: Record<string, GridDirection> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
+};
+
+// Index of the cell next to `index` in the given direction, or null at the edge.
+// Up/down keep the same relative column, which matters for tiered rows of
+// different widths.
+export function neighborIndex(layout: GridLayout, index: number, direction: GridDirection) {
+  const sizes = rowSizes(layout);
+  const total = cellCount(layout);
+
+  if (direction === "left") return index > 0 ? index - 1 : null;
+  if (direction === "right") return index < total - 1 ? index + 1 : null;
+
+  let row = 0;
+  let rowStart = 0;
+  while (row < sizes.length && index >= rowStart + sizes[row]) {
+    rowStart += sizes[row];
+    row++;
+  }
+  if (row >= sizes.length) return null;
+
+  const targetRow = direction === "up" ? row - 1 : row + 1;
+  if (targetRow < 0 || targetRow >= sizes.length) return null;
+
+  const targetStart = sizes.slice(0, targetRow).reduce((sum, n) => sum + n, 0);
+  const fraction = (index - rowStart + 0.5) / sizes[row];
+  const col = Math.min(sizes[targetRow] - 1, Math.floor(fraction * sizes[targetRow]));
+  return targetStart + col;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { LruCache } from "./lruCache";
+
+describe("LruCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new LruCache<number>(2, 1000);
+    cache.set("a", 1, 0);
+    cache.set("b", 2, 0);
+    expect(cache.get("a", 0)).toBe(1);
+
+    cache.set("c", 3, 0);
+    expect(cache.get("b", 0)).toBeUndefined();
+    expect(cache.get("a", 0)).toBe(1);
+    expect(cache.get("c", 0)).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it("drops entries once their TTL has passed", () => {
+    const cache = new LruCache<string>(10, 1000);
+    cache.set("q", "page", 0);
+
+    expect(cache.get("q", 999)).toBe("page");
+    expect(cache.get("q", 1000)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("restarts the TTL when an entry is set again", () => {
+    const cache = new LruCache<string>(10, 1000);
+    cache.set("q", "old", 0);
+    cache.set("q", "new", 800);
+
+    expect(cache.get("q", 1500)).toBe("new");
+    expect(cache.size).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+// Small in-memory LRU with a per-entry TTL. A Map keeps insertion order, so
+// re-inserting on read moves an entry to the "recent" end and the first key is
+// always the least recently used.
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+  private maxEntries: number;
+  private ttlMs: number;
+
+  constructor(maxEntries: number, ttlMs: number) {
+    this.maxEntries = maxEntries;
+    this.ttlMs = ttlMs;
+  }
+
+  get(key: string, now = Date.now()) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, now = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
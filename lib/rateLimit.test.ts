@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { clientIp, createRateLimiter } from "./rateLimit";
+
+describe("createRateLimiter", () => {
+  it("allows `limit` hits per window for each key", () => {
+    const check = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(check("a", 0)).toEqual({ ok: true });
+    expect(check("a", 1000)).toEqual({ ok: true });
+    expect(check("a", 2000)).toEqual({ ok: false, retryAfter: 58 });
+    expect(check("b", 2000)).toEqual({ ok: true });
+  });
+
+  it("slides the window instead of resetting it", () => {
+    const check = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    check("a", 0);
+    check("a", 30_000);
+
+    expect(check("a", 59_999)).toEqual({ ok: false, retryAfter: 1 });
+    expect(check("a", 60_000)).toEqual({ ok: true });
+    expect(check("a", 60_001)).toEqual({ ok: false, retryAfter: 30 });
+  });
+});
+
+describe("clientIp", () => {
+  const req = (headers: Record<string, string>) => new Request("http://localhost", { headers });
+
+  it("takes the first forwarded address", () => {
+    expect(clientIp(req({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" }))).toBe("203.0.113.7");
+    expect(clientIp(req({ "x-real-ip": "203.0.113.8" }))).toBe("203.0.113.8");
+    expect(clientIp(req({}))).toBe("unknown");
+  });
+});
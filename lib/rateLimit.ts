@@ -0,0 +1,37 @@
+// Per-key (client IP) sliding-window rate limiter, in memory. Good enough for a
+// single server instance; behind several instances each one limits separately.
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfter: number }; // seconds
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const hits = new Map<string, number[]>();
+
+  function prune(now: number) {
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    }
+  }
+
+  return function check(key: string, now = Date.now()): RateLimitResult {
+    // Keep memory bounded without a timer
+    if (hits.size > 10_000) prune(now);
+
+    const times = (hits.get(key) ?? []).filter((t) => t > now - windowMs);
+    if (times.length >= limit) {
+      hits.set(key, times);
+      return { ok: false, retryAfter: Math.max(1, Math.ceil((times[0] + windowMs - now) / 1000)) };
+    }
+
+    times.push(now);
+    hits.set(key, times);
+    return { ok: true };
+  };
+}
+
+// Best-effort client address. Only meaningful behind a proxy that sets these
+// headers (Vercel, nginx); otherwise every request shares one bucket.
+export function clientIp(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { defaultChartState } from "./chart";
+import {
+  MAX_ROOM_IMAGE_LENGTH,
+  MAX_ROOM_TEXT_LENGTH,
+  acknowledgeRoomOps,
+  applyRoomOps,
+  diffRoomOps,
+  incomingRoomOps,
+  latestClock,
+  mergeRoomOps,
+  newRoomSync,
+  outgoingRoomOps,
+  parseRoomOp,
+  type RoomOp,
+  type RoomRegisters,
+} from "./room";
+
+function op(key: string, value: unknown, clock: number, client = "a"): RoomOp {
+  return { key, value, clock, client };
+}
+
+describe("mergeRoomOps", () => {
+  it("keeps the op with the higher clock, whatever order they arrive in", () => {
+    const older = op("title", "Old", 1, "z");
+    const newer = op("title", "New", 2, "a");
+
+    const forward: RoomRegisters = new Map();
+    expect(mergeRoomOps(forward, [older, newer])).toEqual([older, newer]);
+    const backward: RoomRegisters = new Map();
+    expect(mergeRoomOps(backward, [newer, older])).toEqual([newer]);
+
+    expect(forward.get("title")).toEqual(newer);
+    expect(backward.get("title")).toEqual(newer);
+  });
+
+  it("settles equal clocks by client id", () => {
+    const registers: RoomRegisters = new Map();
+    mergeRoomOps(registers, [op("title", "From b", 3, "b"), op("title", "From a", 3, "a")]);
+    expect(registers.get("title")?.value).toBe("From b");
+  });
+
+  it("keeps edits to different cells and fields of one cell apart", () => {
+    const registers: RoomRegisters = new Map();
+    const accepted = mergeRoomOps(registers, [
+      op("cell/0/label", "Mine", 1, "a"),
+      op("cell/0/image", { image: { type: "url", url: "https://a.example/x.jpg" } }, 1, "b"),
+      op("cell/1/label", "Theirs", 1, "b"),
+    ]);
+    expect(accepted).toHaveLength(3);
+    expect(latestClock(registers)).toBe(1);
+  });
+
+  it("drops malformed ops", () => {
+    const registers: RoomRegisters = new Map();
+    const accepted = mergeRoomOps(registers, [
+      null,
+      "title",
+      { key: "title", value: "No client", clock: 1 },
+      op("title", "Fractional", 1.5),
+      op("title", "Zero", 0),
+      op("title", 42, 1),
+      op("title", "x".repeat(MAX_ROOM_TEXT_LENGTH + 1), 1),
+      op("theme", {}, 1),
+      op("cell/144/label", "Past a 12x12 grid", 1),
+      op("cell/0/image", "not an object", 1),
+      op("cell/0/image", { image: { type: "stored", id: "local" } }, 1),
+      op("grid", { presetId: "custom", layout: { rows: 2, cols: 2, tiers: [1] } }, 1),
+    ]);
+    expect(accepted).toEqual([]);
+    expect(registers.size).toBe(0);
+  });
+
+  it("drops embedded covers over the size cap", () => {
+    const dataUrl = `data:image/webp;base64,${"A".repeat(MAX_ROOM_IMAGE_LENGTH)}`;
+    expect(parseRoomOp(op("cell/0/image", { image: { type: "embedded", dataUrl } }, 1))).toBe(null);
+  });
+});
+
+describe("diffRoomOps and applyRoomOps", () => {
+  it("sends only what differs from the room and numbers ops after the clock", () => {
+    const state = defaultChartState();
+    const registers: RoomRegisters = new Map();
+    const all = diffRoomOps(registers, state, 0, "me");
+    // Title, grid and a label and image per cell
+    expect(all).toHaveLength(2 + state.cells.length * 2);
+    mergeRoomOps(registers, all);
+
+    const edited = { ...state, title: "Edited" };
+    expect(diffRoomOps(registers, edited, 40, "me")).toEqual([op("title", "Edited", 41, "me")]);
+  });
+
+  it("brings a second chart in line with the room", () => {
+    const mine = { ...defaultChartState(), title: "Mine" };
+    mine.cells = mine.cells.map((cell, i) =>
+      i === 0 ? { ...cell, imageUrl: "https://a.example/0.jpg" } : cell
+    );
+    const registers: RoomRegisters = new Map();
+    const ops = mergeRoomOps(registers, diffRoomOps(registers, mine, 0, "me"));
+
+    const theirs = applyRoomOps(defaultChartState(), ops, registers);
+    expect(theirs.title).toBe("Mine");
+    expect(theirs.cells).toEqual(mine.cells);
+  });
+
+  it("fills cells a grid change adds from the registers", () => {
+    const registers: RoomRegisters = new Map();
+    const ops = mergeRoomOps(registers, [
+      op("cell/20/label", "Added later", 1),
+      op("grid", { presetId: "custom", layout: { rows: 3, cols: 7, aspect: "2 / 3" } }, 2),
+    ]);
+    const state = applyRoomOps(defaultChartState(), ops, registers);
+    expect(state.cells).toHaveLength(21);
+    expect(state.cells[20].label).toBe("Added later");
+  });
+});
+
+describe("syncing a chart with the room", () => {
+  // A chart the room already agrees on, and the sync that says so
+  function synced() {
+    const state = defaultChartState();
+    const sync = newRoomSync();
+    incomingRoomOps(sync, diffRoomOps(sync.registers, state, 0, "me"));
+    return { state, sync };
+  }
+
+  it("waits for the server before treating our ops as agreed", () => {
+    const { state, sync } = synced();
+    const edited = { ...state, title: "Edited" };
+
+    const { ops } = outgoingRoomOps(sync, edited, "me");
+    expect(ops).toEqual([op("title", "Edited", sync.clock, "me")]);
+    expect(sync.registers.get("title")?.value).toBe(state.title);
+    // Pending ops aren't sent again while the server has them
+    expect(outgoingRoomOps(sync, edited, "me").ops).toEqual([]);
+
+    acknowledgeRoomOps(sync, ops, []);
+    expect(sync.registers.get("title")).toEqual(ops[0]);
+    expect(sync.pending.size).toBe(0);
+  });
+
+  it("holds back what the room would refuse instead of sending it on every change", () => {
+    const { state, sync } = synced();
+    const dataUrl = `data:image/webp;base64,${"A".repeat(MAX_ROOM_IMAGE_LENGTH)}`;
+    const huge = {
+      ...state,
+      cells: state.cells.map((c, i) => (i ? c : { ...c, imageUrl: dataUrl })),
+    };
+
+    const first = outgoingRoomOps(sync, huge, "me");
+    expect(first.ops).toEqual([]);
+    expect(first.held.map((o) => o.key)).toEqual(["cell/0/image"]);
+
+    const next = outgoingRoomOps(sync, { ...huge, title: "Edited" }, "me");
+    expect(next.ops.map((o) => o.key)).toEqual(["title"]);
+    expect(next.held).toEqual([]);
+  });
+
+  it("holds back ops the server refused", () => {
+    const { state, sync } = synced();
+    const edited = { ...state, title: "Refused" };
+    const { ops } = outgoingRoomOps(sync, edited, "me");
+
+    expect(acknowledgeRoomOps(sync, [], ops)).toEqual(ops);
+    expect(sync.registers.get("title")?.value).toBe(state.title);
+    expect(outgoingRoomOps(sync, edited, "me").ops).toEqual([]);
+    expect(outgoingRoomOps(sync, { ...edited, title: "Changed" }, "me").ops).toHaveLength(1);
+  });
+
+  it("sends an edit again after it lost to a newer one", () => {
+    const { state, sync } = synced();
+    const { ops } = outgoingRoomOps(sync, { ...state, title: "Mine" }, "me");
+    const theirs = op("title", "Theirs", sync.clock + 1, "them");
+    const chart = applyRoomOps(state, incomingRoomOps(sync, [theirs]), sync.registers);
+    expect(acknowledgeRoomOps(sync, [], ops)).toEqual([]);
+
+    expect(chart.title).toBe("Theirs");
+    expect(outgoingRoomOps(sync, { ...chart, title: "Mine" }, "me").ops).toHaveLength(1);
+  });
+
+  it("doesn't apply someone else's edit over a newer one of ours on its way", () => {
+    const { state, sync } = synced();
+    outgoingRoomOps(sync, { ...state, title: "Mine" }, "me");
+
+    const theirs = op("title", "Theirs", 1, "them");
+    expect(incomingRoomOps(sync, [theirs])).toEqual([]);
+    const later = op("title", "Later", sync.clock + 1, "them");
+    expect(incomingRoomOps(sync, [later])).toEqual([later]);
+  });
+});
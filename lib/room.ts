@@ -0,0 +1,340 @@
+import type { CellData, ChartState } from "./chart";
+import { ChartSchemaError, parseCell, parseLayout, type SerializedCell } from "./chartSchema";
+import { MAX_GRID_SIZE, cellCount, resizeCells, type GridLayout } from "./layouts";
+
+// Collaborative rooms: everyone in a room edits the same chart title, grid and
+// cells over a WebSocket (see server.ts and roomServer.ts). The shared chart is a set of
+// last-writer-wins registers, one per title, grid, cell label and cell image, so
+// two people editing different cells (or the label and cover of one cell) never
+// overwrite each other. Concurrent writes to the same register are settled by a
+// Lamport clock, ties by client id, so every browser ends up with the same chart.
+//
+// The theme, mode and tier list stay local to each browser.
+
+// The room a page is in: https://example.com/?room=<id>
+export const ROOM_PARAM = "room";
+// WebSocket endpoint on the app's own origin: /rooms/<id>
+export const ROOM_PATH = "/rooms";
+
+export const ROOM_ID_PATTERN = /^[a-z0-9-]{4,40}$/;
+export const MAX_ROOM_NAME_LENGTH = 32;
+
+// WebSocket close codes: the room has as many people as it takes, or the server
+// holds as many rooms as it takes. Neither is worth retrying right away.
+export const ROOM_FULL_CODE = 4003;
+export const ROOM_LIMIT_CODE = 4004;
+
+// Caps on a single register, so a room can't be made to hold unbounded data.
+// Uploads are downscaled far below this before they reach a cell (uploadImage.ts).
+export const MAX_ROOM_TEXT_LENGTH = 1000;
+export const MAX_ROOM_IMAGE_LENGTH = 2 * 1024 * 1024;
+// Ops per message, and register values held per room (JSON length). Browsers
+// check their own ops against these before sending, so the server only refuses
+// ops that lost a race or that don't fit its total across rooms.
+export const MAX_OPS_PER_MESSAGE = 1000;
+export const MAX_ROOM_BYTES = 32 * 1024 * 1024;
+// How far past the room's latest clock an op may jump. A browser's ops are at
+// most one per register above the latest clock it has seen.
+export const MAX_ROOM_CLOCK_STEP = 1000;
+
+export type RoomOp = {
+  key: string;
+  value: unknown;
+  clock: number;
+  client: string;
+};
+
+export type RoomPeer = {
+  id: string;
+  name: string;
+  color: string;
+  selected: number | null; // grid cell index
+};
+
+export type RoomClientMessage =
+  { type: "ops"; ops: RoomOp[] } | { type: "presence"; name: string; selected: number | null };
+
+export type RoomServerMessage =
+  // First message after connecting: our id and every register the room holds
+  | { type: "welcome"; clientId: string; ops: RoomOp[] }
+  | { type: "ops"; ops: RoomOp[] }
+  // Reply to our own ops message: what the room took and what it refused (over
+  // its limits, or older than what it already holds)
+  | { type: "ack"; accepted: RoomOp[]; rejected: RoomOp[] }
+  | { type: "peers"; peers: RoomPeer[] };
+
+// Latest op per register key
+export type RoomRegisters = Map<string, RoomOp>;
+
+// A browser's side of a room. Its ops count as agreed only once the server
+// accepts them; until then they wait in `pending`. Values the room can't take are
+// kept in `held` (as JSON, by key) and not sent again unless the chart changes them.
+export type RoomSync = {
+  registers: RoomRegisters;
+  pending: Map<string, RoomOp>;
+  held: Map<string, string>;
+  clock: number;
+};
+
+type GridRegister = { presetId: string; layout: GridLayout };
+type ImageRegister = Omit<SerializedCell, "label">;
+
+export function newRoomId() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function roomSocketUrl(location: { protocol: string; host: string }, roomId: string) {
+  const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${location.host}${ROOM_PATH}/${encodeURIComponent(roomId)}`;
+}
+
+// ====== Registers ======
+
+function labelKey(index: number) {
+  return `cell/${index}/label`;
+}
+
+function imageKey(index: number) {
+  return `cell/${index}/image`;
+}
+
+// Only cells a 12x12 grid can have, which also bounds how many keys a room holds
+function cellIndex(key: string) {
+  const match = /^cell\/(\d{1,3})\/(label|image)$/.exec(key);
+  const index = Number(match?.[1]);
+  if (!match || index >= MAX_GRID_SIZE * MAX_GRID_SIZE) return null;
+  return { index, field: match[2] as "label" | "image" };
+}
+
+// Cover, source and crop travel together: a new cover always comes with its own crop
+function imageRegister(cell: CellData): ImageRegister {
+  const register: ImageRegister = {};
+  if (cell.imageUrl) {
+    register.image = cell.imageUrl.startsWith("data:")
+      ? { type: "embedded", dataUrl: cell.imageUrl }
+      : { type: "url", url: cell.imageUrl };
+  }
+  if (cell.source) register.source = cell.source;
+  if (cell.crop) register.crop = cell.crop;
+  return register;
+}
+
+// Register values as this browser's chart has them
+export function chartRegisters(state: ChartState) {
+  const values = new Map<string, unknown>();
+  values.set("title", state.title);
+  values.set("grid", { presetId: state.presetId, layout: state.layout } satisfies GridRegister);
+  state.cells.forEach((cell, i) => {
+    values.set(labelKey(i), cell.label);
+    values.set(imageKey(i), imageRegister(cell));
+  });
+  return values;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_ROOM_TEXT_LENGTH;
+}
+
+// Ops come from other browsers, so they get the same checks as imported charts.
+// Returns null for anything malformed.
+function parseRegister(key: string, value: unknown): unknown {
+  try {
+    if (key === "title") return isText(value) ? value : null;
+    if (key === "grid") {
+      const grid = value as Partial<GridRegister> | null;
+      if (!isText(grid?.presetId)) return null;
+      return { presetId: grid.presetId, layout: parseLayout(grid.layout) };
+    }
+
+    const cell = cellIndex(key);
+    if (cell?.field === "label") return isText(value) ? value : null;
+    if (cell?.field === "image") {
+      if (typeof value !== "object" || value === null) return null;
+      const { image, source, crop } = parseCell({ ...value, label: "" });
+      if (image?.type === "stored") return null;
+      const ref = image?.type === "url" ? image.url : image?.dataUrl;
+      if (ref !== undefined && ref.length > MAX_ROOM_IMAGE_LENGTH) return null;
+      return { image, source, crop } satisfies ImageRegister;
+    }
+    return null;
+  } catch (err) {
+    if (err instanceof ChartSchemaError) return null;
+    throw err;
+  }
+}
+
+// The op with its value checked, or null. Used by browsers and by the server
+// (server.ts), so an op one side accepts is never dropped by the other.
+export function parseRoomOp(raw: unknown): RoomOp | null {
+  const op = raw as Partial<RoomOp> | null;
+  if (typeof op?.key !== "string" || typeof op.client !== "string") return null;
+  if (!Number.isSafeInteger(op.clock) || (op.clock as number) < 1) return null;
+
+  const value = parseRegister(op.key, op.value);
+  if (value === null) return null;
+  return { key: op.key, value, clock: op.clock as number, client: op.client };
+}
+
+// Lamport clock first, then client id, so every copy picks the same winner
+export function isNewerOp(op: RoomOp, than: RoomOp | undefined) {
+  if (!than) return true;
+  return op.clock > than.clock || (op.clock === than.clock && op.client > than.client);
+}
+
+// Folds ops into the registers and returns the ones that won
+export function mergeRoomOps(registers: RoomRegisters, ops: unknown[]) {
+  const accepted: RoomOp[] = [];
+  for (const raw of ops) {
+    const op = parseRoomOp(raw);
+    if (!op || !isNewerOp(op, registers.get(op.key))) continue;
+    registers.set(op.key, op);
+    accepted.push(op);
+  }
+  return accepted;
+}
+
+// Highest clock seen, so the next local op sorts after everything merged so far
+export function latestClock(registers: RoomRegisters) {
+  let clock = 0;
+  for (const op of registers.values()) clock = Math.max(clock, op.clock);
+  return clock;
+}
+
+// Ops for every register where the chart differs from what the room last agreed on
+export function diffRoomOps(
+  registers: RoomRegisters,
+  state: ChartState,
+  clock: number,
+  client: string
+) {
+  const ops: RoomOp[] = [];
+  for (const [key, value] of chartRegisters(state)) {
+    const current = registers.get(key);
+    if (current && JSON.stringify(current.value) === JSON.stringify(value)) continue;
+    ops.push({ key, value, clock: ++clock, client });
+  }
+  return ops;
+}
+
+// ====== Syncing a browser's chart ======
+
+export function newRoomSync(): RoomSync {
+  return { registers: new Map(), pending: new Map(), held: new Map(), clock: 0 };
+}
+
+function valueSize(op: RoomOp | undefined) {
+  return op ? JSON.stringify(op.value).length : 0;
+}
+
+// Ops for what changed locally, checked the way the server checks them. Ops that
+// pass move to `pending`; the ones that don't are returned as `held`.
+export function outgoingRoomOps(sync: RoomSync, state: ChartState, client: string) {
+  const known = new Map([...sync.registers, ...sync.pending]);
+  let bytes = 0;
+  for (const op of sync.registers.values()) bytes += valueSize(op);
+
+  const ops: RoomOp[] = [];
+  const held: RoomOp[] = [];
+  for (const op of diffRoomOps(known, state, sync.clock, client)) {
+    const json = JSON.stringify(op.value);
+    if (sync.held.get(op.key) === json) continue;
+    if (ops.length >= MAX_OPS_PER_MESSAGE) break;
+
+    const growth = json.length - valueSize(sync.registers.get(op.key));
+    if (!parseRoomOp(op) || bytes + growth > MAX_ROOM_BYTES) {
+      sync.held.set(op.key, json);
+      held.push(op);
+      continue;
+    }
+    bytes += growth;
+    sync.pending.set(op.key, op);
+    ops.push(op);
+  }
+  if (ops.length > 0) sync.clock = ops[ops.length - 1].clock;
+  return { ops, held };
+}
+
+// The server's answer to our ops: accepted ones become agreed. A refused op lost
+// to a newer edit, which reached us before this answer and is already in the
+// chart; otherwise it was over the room's limits and is held so it isn't sent on
+// every change. Returns the held ops.
+export function acknowledgeRoomOps(sync: RoomSync, accepted: unknown[], rejected: unknown[]) {
+  mergeRoomOps(sync.registers, accepted);
+  const held: RoomOp[] = [];
+  for (const raw of [...accepted, ...rejected]) {
+    const op = parseRoomOp(raw);
+    if (!op || sync.pending.get(op.key)?.clock !== op.clock) continue;
+    sync.pending.delete(op.key);
+    if (rejected.includes(raw) && isNewerOp(op, sync.registers.get(op.key))) {
+      sync.held.set(op.key, JSON.stringify(op.value));
+      held.push(op);
+    }
+  }
+  return held;
+}
+
+// Merges someone else's ops and returns the ones to apply to the chart: not
+// those a pending op of ours will beat once the server has it
+export function incomingRoomOps(sync: RoomSync, ops: unknown[]) {
+  const accepted = mergeRoomOps(sync.registers, ops);
+  sync.clock = Math.max(sync.clock, latestClock(sync.registers));
+  return accepted.filter((op) => {
+    const mine = sync.pending.get(op.key);
+    return !mine || !isNewerOp(mine, op);
+  });
+}
+
+// ====== Applying to the chart ======
+
+function withImage(cell: CellData, register: ImageRegister): CellData {
+  const { image, source, crop } = register;
+  const next: CellData = { label: cell.label };
+  if (image && image.type !== "stored") {
+    next.imageUrl = image.type === "url" ? image.url : image.dataUrl;
+  }
+  if (source) next.source = source;
+  if (crop) next.crop = crop;
+  return next;
+}
+
+function applyCellOp(cell: CellData, field: "label" | "image", value: unknown) {
+  return field === "label"
+    ? { ...cell, label: value as string }
+    : withImage(cell, value as ImageRegister);
+}
+
+// Applies merged ops to the chart. Cells added by a grid change are filled from
+// the registers, in case the room already has content for them.
+export function applyRoomOps(
+  state: ChartState,
+  ops: RoomOp[],
+  registers: RoomRegisters
+): ChartState {
+  let next = state;
+  for (const op of ops) {
+    if (op.key === "title") {
+      next = { ...next, title: op.value as string };
+      continue;
+    }
+
+    if (op.key === "grid") {
+      const { presetId, layout } = op.value as GridRegister;
+      const cells = resizeCells(next.cells, cellCount(layout)).map((cell, i) => {
+        if (i < next.cells.length) return cell;
+        const label = registers.get(labelKey(i));
+        const image = registers.get(imageKey(i));
+        const filled = label ? applyCellOp(cell, "label", label.value) : cell;
+        return image ? applyCellOp(filled, "image", image.value) : filled;
+      });
+      next = { ...next, presetId, layout, cells };
+      continue;
+    }
+
+    const target = cellIndex(op.key);
+    if (!target || !next.cells[target.index]) continue;
+    const cells = [...next.cells];
+    cells[target.index] = applyCellOp(cells[target.index], target.field, op.value);
+    next = { ...next, cells };
+  }
+  return next;
+}
@@ -0,0 +1,81 @@
+import {
+  ROOM_FULL_CODE,
+  ROOM_LIMIT_CODE,
+  type RoomClientMessage,
+  type RoomServerMessage,
+} from "./room";
+
+// "open" once the server's welcome has arrived; "offline" while retrying
+export type RoomStatus = "connecting" | "open" | "offline" | "full" | "unavailable";
+
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000];
+
+// One WebSocket to a room, reconnecting with backoff until close() is called.
+// Messages sent while disconnected are dropped: every welcome carries the full
+// room state, and the chart is diffed against it again after a reconnect.
+export class RoomConnection {
+  private url: string;
+  private onMessage: (message: RoomServerMessage) => void;
+  private onStatus: (status: RoomStatus) => void;
+  private socket: WebSocket | null = null;
+  private retries = 0;
+  private retryTimer: number | undefined;
+  private closed = false;
+
+  constructor(
+    url: string,
+    onMessage: (message: RoomServerMessage) => void,
+    onStatus: (status: RoomStatus) => void
+  ) {
+    this.url = url;
+    this.onMessage = onMessage;
+    this.onStatus = onStatus;
+    this.connect();
+  }
+
+  private connect() {
+    this.onStatus(this.retries === 0 ? "connecting" : "offline");
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onmessage = (e) => {
+      let message: RoomServerMessage;
+      try {
+        message = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (message.type === "welcome") {
+        this.retries = 0;
+        this.onStatus("open");
+      }
+      this.onMessage(message);
+    };
+
+    socket.onclose = (e) => {
+      if (this.closed) return;
+      if (e.code === ROOM_FULL_CODE) {
+        this.onStatus("full");
+        return;
+      }
+      if (e.code === ROOM_LIMIT_CODE) {
+        this.onStatus("unavailable");
+        return;
+      }
+      const delay = RETRY_DELAYS_MS[Math.min(this.retries, RETRY_DELAYS_MS.length - 1)];
+      this.retries++;
+      this.onStatus("offline");
+      this.retryTimer = window.setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  send(message: RoomClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.closed = true;
+    window.clearTimeout(this.retryTimer);
+    this.socket?.close();
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ROOM_CLOCK_STEP,
+  ROOM_FULL_CODE,
+  ROOM_LIMIT_CODE,
+  type RoomOp,
+  type RoomServerMessage,
+} from "./room";
+import { MAX_PEERS_PER_ROOM, MAX_ROOMS, RoomHub, type RoomSocket } from "./roomServer";
+
+function fakeSocket() {
+  const socket = {
+    readyState: 1,
+    OPEN: 1,
+    sent: [] as RoomServerMessage[],
+    closedWith: null as number | null,
+    send(data: string) {
+      socket.sent.push(JSON.parse(data));
+    },
+    close(code: number) {
+      socket.closedWith = code;
+    },
+  };
+  return socket satisfies RoomSocket;
+}
+
+type FakeSocket = ReturnType<typeof fakeSocket>;
+
+function opsSent(socket: FakeSocket): RoomOp[] {
+  return socket.sent.flatMap((m) => (m.type === "ops" ? m.ops : []));
+}
+
+function welcome(socket: FakeSocket) {
+  const message = socket.sent[0];
+  if (message?.type !== "welcome") throw new Error("No welcome");
+  return message;
+}
+
+describe("RoomHub", () => {
+  it("relays valid ops and stamps them with the sender's id", () => {
+    const hub = new RoomHub();
+    const a = fakeSocket();
+    const b = fakeSocket();
+    const member = hub.join("room-1", a)!;
+    hub.join("room-1", b);
+
+    member.receive(
+      JSON.stringify({
+        type: "ops",
+        ops: [
+          { key: "title", value: "Hi", clock: 1, client: "someone-else" },
+          { key: "title", value: 7, clock: 2 },
+          { key: "nonsense", value: "x", clock: 3 },
+          { key: "cell/0/label", value: "Too far", clock: 4 + MAX_ROOM_CLOCK_STEP },
+        ],
+      })
+    );
+
+    expect(opsSent(b)).toEqual([
+      { key: "title", value: "Hi", clock: 1, client: welcome(a).clientId },
+    ]);
+  });
+
+  it("tells the sender which of its ops the room took", () => {
+    const hub = new RoomHub();
+    const a = fakeSocket();
+    const member = hub.join("room-1", a)!;
+    const client = welcome(a).clientId;
+
+    member.receive(
+      JSON.stringify({
+        type: "ops",
+        ops: [
+          { key: "title", value: "Hi", clock: 2 },
+          { key: "title", value: "Older", clock: 1 },
+          { key: "nonsense", value: "x", clock: 3 },
+        ],
+      })
+    );
+
+    expect(a.sent.at(-1)).toEqual({
+      type: "ack",
+      accepted: [{ key: "title", value: "Hi", clock: 2, client }],
+      rejected: [{ key: "title", value: "Older", clock: 1, client }],
+    });
+    expect(opsSent(a)).toEqual([]);
+  });
+
+  it("lets the clock move forward a step at a time", () => {
+    const hub = new RoomHub();
+    const member = hub.join("room-1", fakeSocket())!;
+    const late = fakeSocket();
+
+    for (const clock of [MAX_ROOM_CLOCK_STEP, 2 * MAX_ROOM_CLOCK_STEP]) {
+      member.receive(JSON.stringify({ type: "ops", ops: [{ key: "title", value: "x", clock }] }));
+    }
+    hub.join("room-1", late);
+    expect(welcome(late).ops.map((op) => op.clock)).toEqual([2 * MAX_ROOM_CLOCK_STEP]);
+  });
+
+  it("refuses people past the room limit", () => {
+    const hub = new RoomHub();
+    for (let i = 0; i < MAX_PEERS_PER_ROOM; i++) hub.join("room-1", fakeSocket());
+    const extra = fakeSocket();
+    expect(hub.join("room-1", extra)).toBe(null);
+    expect(extra.closedWith).toBe(ROOM_FULL_CODE);
+  });
+
+  it("makes room for new rooms by dropping empty ones", () => {
+    const hub = new RoomHub();
+    const members = Array.from({ length: MAX_ROOMS }, (_, i) =>
+      hub.join(`room-${i}`, fakeSocket())
+    );
+    const refused = fakeSocket();
+    expect(hub.join("one-more", refused)).toBe(null);
+    expect(refused.closedWith).toBe(ROOM_LIMIT_CODE);
+
+    members[0]!.leave();
+    expect(hub.join("one-more", fakeSocket())).not.toBe(null);
+    expect(hub.roomCount).toBe(MAX_ROOMS);
+  });
+});
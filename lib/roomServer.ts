@@ -0,0 +1,214 @@
+import {
+  MAX_OPS_PER_MESSAGE,
+  MAX_ROOM_BYTES,
+  MAX_ROOM_CLOCK_STEP,
+  MAX_ROOM_NAME_LENGTH,
+  ROOM_FULL_CODE,
+  ROOM_LIMIT_CODE,
+  isNewerOp,
+  parseRoomOp,
+  type RoomOp,
+  type RoomPeer,
+  type RoomServerMessage,
+} from "./room";
+import { MAX_GRID_SIZE } from "./layouts";
+
+// The room side of server.ts, kept apart from the HTTP and WebSocket plumbing.
+// A room is the winning op per register plus the peers connected to it, all in
+// memory. Ops are checked with the same rules browsers apply (lib/room.ts), so
+// nothing reaches the room that a browser would throw away.
+
+export const MAX_PEERS_PER_ROOM = 20;
+export const MAX_ROOMS = 1000;
+// Register values held across all rooms (MAX_ROOM_BYTES per room is in
+// lib/room.ts); keys per room are already bounded by the grid size (see cellIndex)
+export const MAX_TOTAL_ROOM_BYTES = 512 * 1024 * 1024;
+// Rooms nobody is in are forgotten after this
+export const EMPTY_ROOM_TTL_MS = 60 * 60 * 1000;
+
+const PEER_COLORS = ["#e5484d", "#0070f3", "#30a46c", "#f76b15", "#8e4ec6", "#12a594"];
+
+// The parts of a ws WebSocket the hub uses
+export type RoomSocket = {
+  readonly readyState: number;
+  readonly OPEN: number;
+  send(data: string): void;
+  close(code: number, reason: string): void;
+};
+
+// What the server forwards from a joined socket
+export type RoomMember = {
+  receive(data: string): void;
+  leave(): void;
+};
+
+type Peer = RoomPeer & { defaultName: string };
+
+type Room = {
+  registers: Map<string, RoomOp>;
+  // Serialized size of each register's value, summed in `bytes`
+  sizes: Map<string, number>;
+  bytes: number;
+  clock: number;
+  peers: Map<RoomSocket, Peer>;
+  joined: number;
+  expiry?: ReturnType<typeof setTimeout>;
+};
+
+function send(socket: RoomSocket, message: RoomServerMessage) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: RoomServerMessage, except?: RoomSocket) {
+  const data = JSON.stringify(message);
+  for (const socket of room.peers.keys()) {
+    if (socket !== except && socket.readyState === socket.OPEN) socket.send(data);
+  }
+}
+
+function broadcastPeers(room: Room) {
+  const peers = [...room.peers.values()].map(({ id, name, color, selected }) => ({
+    id,
+    name,
+    color,
+    selected,
+  }));
+  broadcast(room, { type: "peers", peers });
+}
+
+function parseSelected(value: unknown) {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < MAX_GRID_SIZE ** 2
+    ? (value as number)
+    : null;
+}
+
+export class RoomHub {
+  private rooms = new Map<string, Room>();
+  private bytes = 0;
+
+  get roomCount() {
+    return this.rooms.size;
+  }
+
+  // Adds the socket to the room, or closes it and returns null when the room or
+  // the server is full
+  join(roomId: string, socket: RoomSocket): RoomMember | null {
+    const room = this.getRoom(roomId);
+    if (!room) {
+      socket.close(ROOM_LIMIT_CODE, "Too many rooms");
+      return null;
+    }
+    if (room.peers.size >= MAX_PEERS_PER_ROOM) {
+      socket.close(ROOM_FULL_CODE, "Room is full");
+      return null;
+    }
+
+    const number = ++room.joined;
+    const peer: Peer = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      defaultName: `Guest ${number}`,
+      name: `Guest ${number}`,
+      color: PEER_COLORS[(number - 1) % PEER_COLORS.length],
+      selected: null,
+    };
+    room.peers.set(socket, peer);
+
+    send(socket, { type: "welcome", clientId: peer.id, ops: [...room.registers.values()] });
+    broadcastPeers(room);
+
+    return {
+      receive: (data) => this.handleMessage(room, socket, peer, data),
+      leave: () => {
+        room.peers.delete(socket);
+        broadcastPeers(room);
+        if (room.peers.size === 0) {
+          room.expiry = setTimeout(() => this.deleteRoom(roomId), EMPTY_ROOM_TTL_MS);
+        }
+      },
+    };
+  }
+
+  // Null when the server holds MAX_ROOMS rooms and none of them is empty
+  private getRoom(id: string) {
+    let room = this.rooms.get(id);
+    if (!room) {
+      if (this.rooms.size >= MAX_ROOMS && !this.evictEmptyRoom()) return null;
+      room = {
+        registers: new Map(),
+        sizes: new Map(),
+        bytes: 0,
+        clock: 0,
+        peers: new Map(),
+        joined: 0,
+      };
+      this.rooms.set(id, room);
+    }
+    clearTimeout(room.expiry);
+    return room;
+  }
+
+  // Maps keep insertion order, so this is the oldest room nobody is in
+  private evictEmptyRoom() {
+    for (const [id, room] of this.rooms) {
+      if (room.peers.size > 0) continue;
+      this.deleteRoom(id);
+      return true;
+    }
+    return false;
+  }
+
+  private deleteRoom(id: string) {
+    const room = this.rooms.get(id);
+    if (!room) return;
+    clearTimeout(room.expiry);
+    this.bytes -= room.bytes;
+    this.rooms.delete(id);
+  }
+
+  private handleMessage(room: Room, socket: RoomSocket, peer: Peer, data: string) {
+    let message: { type?: unknown; ops?: unknown; name?: unknown; selected?: unknown };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message?.type === "ops" && Array.isArray(message.ops)) {
+      const accepted: RoomOp[] = [];
+      const rejected: RoomOp[] = [];
+      for (const raw of message.ops.slice(0, MAX_OPS_PER_MESSAGE)) {
+        // Clients can't write under someone else's id
+        const op = parseRoomOp({ ...(raw as object), client: peer.id });
+        if (op) (this.applyOp(room, op) ? accepted : rejected).push(op);
+      }
+      send(socket, { type: "ack", accepted, rejected });
+      if (accepted.length) broadcast(room, { type: "ops", ops: accepted }, socket);
+    } else if (message?.type === "presence") {
+      const name = typeof message.name === "string" ? message.name.trim() : "";
+      peer.name = name.slice(0, MAX_ROOM_NAME_LENGTH) || peer.defaultName;
+      peer.selected = parseSelected(message.selected);
+      broadcastPeers(room);
+    }
+  }
+
+  // Stores the op if it's within the room's limits and newer than what the room
+  // has. Returns whether it was stored.
+  private applyOp(room: Room, op: RoomOp) {
+    // A huge clock would win every register for good
+    if (op.clock > room.clock + MAX_ROOM_CLOCK_STEP) return false;
+    if (!isNewerOp(op, room.registers.get(op.key))) return false;
+
+    const size = JSON.stringify(op.value).length;
+    const growth = size - (room.sizes.get(op.key) ?? 0);
+    if (room.bytes + growth > MAX_ROOM_BYTES || this.bytes + growth > MAX_TOTAL_ROOM_BYTES) {
+      return false;
+    }
+
+    room.registers.set(op.key, op);
+    room.sizes.set(op.key, size);
+    room.bytes += growth;
+    this.bytes += growth;
+    room.clock = Math.max(room.clock, op.clock);
+    return true;
+  }
+}
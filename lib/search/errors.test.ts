@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  SearchError,
+  parseRetryAfter,
+  readSearchError,
+  searchErrorResponse,
+  upstreamError,
+} from "./errors";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("30", now)).toBe(30);
+    expect(parseRetryAfter("1.2", now)).toBe(2);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:45 GMT", now)).toBe(45);
+  });
+
+  it("never returns a negative wait", () => {
+    expect(parseRetryAfter("-5", now)).toBe(0);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing and malformed headers", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("", now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("upstreamError", () => {
+  it("turns a 429 into a rate limit with its wait", async () => {
+    const resp = new Response("", { status: 429, headers: { "retry-after": "12" } });
+    expect(await upstreamError(resp, "AniList")).toMatchObject({
+      code: "upstream_rate_limited",
+      message: "AniList is rate limiting requests",
+      retryAfter: 12,
+    });
+  });
+
+  it("logs the body of other failures but keeps it out of the message", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const err = await upstreamError(new Response("<html>oops</html>", { status: 500 }), "IGDB");
+
+    expect(err).toMatchObject({ code: "upstream_error", message: "IGDB responded with 500" });
+    expect(log).toHaveBeenCalledWith("IGDB responded with 500: <html>oops</html>");
+  });
+});
+
+describe("searchErrorResponse", () => {
+  it("maps each code to its status and passes on Retry-After", async () => {
+    const res = searchErrorResponse(new SearchError("upstream_rate_limited", "Slow down", 30));
+    expect(res.status).toBe(503);
+    expect(res.headers.get("retry-after")).toBe("30");
+    expect(await res.json()).toEqual({
+      error: { code: "upstream_rate_limited", message: "Slow down", retryAfter: 30 },
+    });
+
+    expect(searchErrorResponse(new SearchError("missing_credentials", "")).status).toBe(503);
+    expect(searchErrorResponse(new SearchError("rate_limited", "")).status).toBe(429);
+    expect(searchErrorResponse(new SearchError("unknown_provider", "")).status).toBe(404);
+  });
+
+  it("reports anything else as an upstream error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = searchErrorResponse(new TypeError("fetch failed"));
+
+    expect(res.status).toBe(502);
+    expect(res.headers.get("retry-after")).toBeNull();
+    expect((await res.json()).error).toEqual({ code: "upstream_error", message: "fetch failed" });
+  });
+});
+
+describe("readSearchError", () => {
+  it("explains each error code", async () => {
+    const message = (e: SearchError) => readSearchError(searchErrorResponse(e), "AniList");
+
+    expect(await message(new SearchError("missing_credentials", ""))).toBe(
+      "AniList search isn't set up on this server (missing API credentials)."
+    );
+    expect(await message(new SearchError("upstream_rate_limited", "", 1))).toBe(
+      "AniList is getting too many requests right now. Try again in 1 second."
+    );
+    expect(await message(new SearchError("upstream_rate_limited", ""))).toBe(
+      "AniList is getting too many requests right now. Try again shortly."
+    );
+    expect(await message(new SearchError("rate_limited", "", 20))).toBe(
+      "You're searching too fast. Try again in 20 seconds."
+    );
+    expect(await message(new SearchError("upstream_error", "IGDB responded with 500"))).toBe(
+      "AniList search is having trouble right now. Try again later."
+    );
+  });
+
+  it("falls back to the status for responses that aren't an envelope", async () => {
+    const res = new Response("<html>Bad Gateway</html>", { status: 502 });
+    expect(await readSearchError(res, "AniList")).toBe("Search failed (502)");
+  });
+});
@@ -0,0 +1,105 @@
+// Errors from the search and artwork routes. Providers throw SearchError; the
+// routes turn it into a JSON envelope the search modal can explain to the user:
+//   { "error": { "code": "upstream_rate_limited", "message": "...", "retryAfter": 30 } }
+
+export type SearchErrorCode =
+  | "missing_credentials" // server is missing API keys for this provider
+  | "upstream_rate_limited" // the provider answered 429
+  | "upstream_error" // the provider failed or returned something unusable
+  | "rate_limited" // this client hit our own per-IP limit
+  | "unknown_provider";
+
+export type SearchErrorBody = {
+  error: { code: SearchErrorCode; message: string; retryAfter?: number };
+};
+
+const STATUS: Record<SearchErrorCode, number> = {
+  missing_credentials: 503,
+  upstream_rate_limited: 503,
+  upstream_error: 502,
+  rate_limited: 429,
+  unknown_provider: 404,
+};
+
+export class SearchError extends Error {
+  code: SearchErrorCode;
+  retryAfter?: number; // seconds
+
+  constructor(code: SearchErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = "SearchError";
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Seconds from a Retry-After header (delta-seconds or an HTTP date)
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+// For a non-ok upstream response. The body is kept for server logs only;
+// upstream error pages aren't something to show in the modal.
+export async function upstreamError(resp: Response, provider: string) {
+  const body = await resp.text().catch(() => "");
+  if (resp.status === 429) {
+    return new SearchError(
+      "upstream_rate_limited",
+      `${provider} is rate limiting requests`,
+      parseRetryAfter(resp.headers.get("retry-after"))
+    );
+  }
+
+  console.error(`${provider} responded with ${resp.status}: ${body.slice(0, 500)}`);
+  return new SearchError("upstream_error", `${provider} responded with ${resp.status}`);
+}
+
+export function searchErrorResponse(e: unknown) {
+  const err =
+    e instanceof SearchError
+      ? e
+      : new SearchError("upstream_error", e instanceof Error ? e.message : "Search failed");
+  if (!(e instanceof SearchError)) console.error(e);
+
+  const body: SearchErrorBody = {
+    error: { code: err.code, message: err.message, retryAfter: err.retryAfter },
+  };
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (err.retryAfter !== undefined) headers["retry-after"] = String(err.retryAfter);
+
+  return new Response(JSON.stringify(body), { status: STATUS[err.code], headers });
+}
+
+// ====== Client side ======
+
+function waitHint(retryAfter: number | undefined) {
+  return retryAfter ? ` Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.` : "";
+}
+
+// A user-facing message for a failed search/artwork response
+export async function readSearchError(res: Response, providerLabel: string) {
+  let body: Partial<SearchErrorBody> | null = null;
+  try {
+    body = await res.json();
+  } catch {
+    // Not our envelope (e.g. a proxy error page)
+  }
+
+  const error = body?.error;
+  switch (error?.code) {
+    case "missing_credentials":
+      return `${providerLabel} search isn't set up on this server (missing API credentials).`;
+    case "upstream_rate_limited":
+      return `${providerLabel} is getting too many requests right now.${waitHint(error.retryAfter) || " Try again shortly."}`;
+    case "rate_limited":
+      return `You're searching too fast.${waitHint(error.retryAfter)}`;
+    case "upstream_error":
+      return `${providerLabel} search is having trouble right now. Try again later.`;
+    default:
+      return error?.message || `Search failed (${res.status})`;
+  }
+}
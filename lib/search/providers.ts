@@ -0,0 +1,101 @@
+// Client-safe list of search providers, used for the modal's select. The server
+// side implementations live in lib/search/registry.ts, keyed by the same ids.
+// `filters` lists which SearchFilters each provider honours, so the modal only
+// shows the controls that do something.
+
+export type SearchFilterKind = "year" | "format" | "platform" | "covers";
+
+export const ANIME_FORMATS = [
+  { value: "TV", label: "TV" },
+  { value: "TV_SHORT", label: "TV Short" },
+  { value: "MOVIE", label: "Movie" },
+  { value: "OVA", label: "OVA" },
+  { value: "ONA", label: "ONA" },
+  { value: "SPECIAL", label: "Special" },
+];
+
+export const MANGA_FORMATS = [
+  { value: "MANGA", label: "Manga" },
+  { value: "NOVEL", label: "Light Novel" },
+  { value: "ONE_SHOT", label: "One Shot" },
+];
+
+// A hand-picked subset of IGDB platform ids; the full list has 200+ entries
+export const IGDB_PLATFORMS = [
+  { value: 6, label: "PC" },
+  { value: 167, label: "PlayStation 5" },
+  { value: 48, label: "PlayStation 4" },
+  { value: 9, label: "PlayStation 3" },
+  { value: 8, label: "PlayStation 2" },
+  { value: 7, label: "PlayStation" },
+  { value: 46, label: "PS Vita" },
+  { value: 38, label: "PSP" },
+  { value: 130, label: "Nintendo Switch" },
+  { value: 41, label: "Wii U" },
+  { value: 5, label: "Wii" },
+  { value: 21, label: "GameCube" },
+  { value: 4, label: "Nintendo 64" },
+  { value: 19, label: "SNES" },
+  { value: 18, label: "NES" },
+  { value: 37, label: "Nintendo 3DS" },
+  { value: 20, label: "Nintendo DS" },
+  { value: 24, label: "Game Boy Advance" },
+  { value: 169, label: "Xbox Series X|S" },
+  { value: 49, label: "Xbox One" },
+  { value: 12, label: "Xbox 360" },
+  { value: 11, label: "Xbox" },
+  { value: 39, label: "iOS" },
+  { value: 34, label: "Android" },
+];
+
+type ProviderInfo = {
+  id: string;
+  label: string;
+  source: string;
+  filters: readonly SearchFilterKind[];
+  // Has an artwork endpoint for picking alternate covers
+  artwork?: boolean;
+  formats?: ReadonlyArray<{ value: string; label: string }>;
+};
+
+export const SEARCH_PROVIDERS = [
+  {
+    id: "game",
+    label: "Games",
+    source: "IGDB",
+    filters: ["year", "platform", "covers"],
+    artwork: true,
+  },
+  {
+    id: "anime",
+    label: "Anime",
+    source: "AniList",
+    filters: ["year", "format", "covers"],
+    formats: ANIME_FORMATS,
+    artwork: true,
+  },
+  {
+    id: "manga",
+    label: "Manga",
+    source: "AniList",
+    filters: ["year", "format", "covers"],
+    formats: MANGA_FORMATS,
+    artwork: true,
+  },
+  { id: "movie", label: "Movies", source: "TMDB", filters: ["year", "covers"], artwork: true },
+  { id: "tv", label: "TV Shows", source: "TMDB", filters: ["year", "covers"], artwork: true },
+  { id: "book", label: "Books", source: "Open Library", filters: ["year", "covers"] },
+  { id: "album", label: "Albums", source: "MusicBrainz", filters: ["year"] },
+  { id: "anime-character", label: "Anime Characters", source: "AniList", filters: ["covers"] },
+  { id: "game-character", label: "Game Characters", source: "IGDB", filters: ["covers"] },
+] as const satisfies readonly ProviderInfo[];
+
+export type SearchProviderId = (typeof SEARCH_PROVIDERS)[number]["id"];
+
+export function isSearchProviderId(id: string): id is SearchProviderId {
+  return SEARCH_PROVIDERS.some((p) => p.id === id);
+}
+
+export function getSearchProvider(id: SearchProviderId): ProviderInfo {
+  return SEARCH_PROVIDERS.find((p) => p.id === id) ?? SEARCH_PROVIDERS[0];
+}
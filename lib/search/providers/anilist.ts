@@ -0,0 +1,243 @@
+import {
+  SEARCH_PAGE_SIZE,
+  dropMissingCovers,
+  type SearchPage,
+  type SearchQuery,
+  type Artwork,
+  type SearchResult,
+} from "../types";
+import { upstreamError } from "../errors";
+import { fetchWithRetry } from "../retry";
+
+export type AniListMediaType = "ANIME" | "MANGA";
+
+export type AniListResponse = {
+  data?: {
+    Page?: {
+      pageInfo?: { hasNextPage?: boolean };
+      media?: Array<{
+        id: number;
+        siteUrl?: string;
+        title?: { romaji?: string; english?: string; native?: string };
+        coverImage?: { extraLarge?: string; large?: string };
+        seasonYear?: number;
+        startDate?: { year?: number };
+      }>;
+    };
+  };
+};
+
+// Null variables are ignored by AniList, so unset filters can be passed as null
+const QUERY = `
+  query (
+    $search: String
+    $type: MediaType
+    $page: Int
+    $perPage: Int
+    $format: [MediaFormat]
+    $startAfter: FuzzyDateInt
+    $startBefore: FuzzyDateInt
+  ) {
+    Page(page: $page, perPage: $perPage) {
+      pageInfo { hasNextPage }
+      media(
+        search: $search
+        type: $type
+        format_in: $format
+        startDate_greater: $startAfter
+        startDate_lesser: $startBefore
+        sort: POPULARITY_DESC
+      ) {
+        id
+        siteUrl
+        title { romaji english native }
+        coverImage { extraLarge large }
+        seasonYear
+        startDate { year }
+      }
+    }
+  }
+`;
+
+export function parseAniListResponse(json: AniListResponse, type: AniListMediaType) {
+  const provider = type === "ANIME" ? "anime" : "manga";
+
+  return (
+    json.data?.Page?.media?.map((m): SearchResult => {
+      const title = m.title?.english || m.title?.romaji || m.title?.native || "Untitled";
+      const imageUrl = m.coverImage?.extraLarge || m.coverImage?.large || "";
+      const year = m.seasonYear || m.startDate?.year;
+
+      return {
+        id: String(m.id),
+        title,
+        year,
+        imageUrl,
+        provider,
+        sourceUrl: m.siteUrl || `https://anilist.co/${provider}/${m.id}`,
+      };
+    }) ?? []
+  );
+}
+
+async function anilistRequest<T>(query: string, variables: Record<string, unknown>) {
+  // AniList rate limits bursts (90/min per IP) with short Retry-After waits
+  const resp = await fetchWithRetry(() =>
+    fetch("https://graphql.anilist.co", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+    })
+  );
+
+  if (!resp.ok) throw await upstreamError(resp, "AniList");
+
+  return (await resp.json()) as T;
+}
+
+export async function searchAniList(
+  type: AniListMediaType,
+  { q, page, filters }: SearchQuery
+): Promise<SearchPage> {
+  // FuzzyDateInt is YYYYMMDD with zeros for unknown parts
+  const startAfter = filters.yearFrom !== undefined ? filters.yearFrom * 10000 - 1 : null;
+  const startBefore = filters.yearTo !== undefined ? (filters.yearTo + 1) * 10000 : null;
+
+  const json = await anilistRequest<AniListResponse>(QUERY, {
+    search: q,
+    type,
+    page,
+    perPage: SEARCH_PAGE_SIZE,
+    format: filters.format ? [filters.format] : null,
+    startAfter,
+    startBefore,
+  });
+
+  return {
+    results: dropMissingCovers(parseAniListResponse(json, type), filters),
+    hasMore: json.data?.Page?.pageInfo?.hasNextPage ?? false,
+  };
+}
+
+// ====== Characters ======
+
+export type AniListCharactersResponse = {
+  data?: {
+    Page?: {
+      pageInfo?: { hasNextPage?: boolean };
+      characters?: Array<{
+        id: number;
+        siteUrl?: string;
+        name?: { full?: string; native?: string };
+        image?: { large?: string; medium?: string };
+        media?: {
+          nodes?: Array<{ title?: { romaji?: string; english?: string } }>;
+        };
+      }>;
+    };
+  };
+};
+
+// Only the most popular appearance is fetched; it's what the result card shows
+const CHARACTERS_QUERY = `
+  query ($search: String, $page: Int, $perPage: Int) {
+    Page(page: $page, perPage: $perPage) {
+      pageInfo { hasNextPage }
+      characters(search: $search, sort: FAVOURITES_DESC) {
+        id
+        siteUrl
+        name { full native }
+        image { large medium }
+        media(perPage: 1, sort: POPULARITY_DESC) {
+          nodes { title { romaji english } }
+        }
+      }
+    }
+  }
+`;
+
+export function parseAniListCharacters(json: AniListCharactersResponse) {
+  return (
+    json.data?.Page?.characters?.map((c): SearchResult => {
+      const media = c.media?.nodes?.[0]?.title;
+      // AniList's placeholder for characters without art isn't worth keeping
+      const image = c.image?.large || c.image?.medium || "";
+
+      return {
+        id: String(c.id),
+        title: c.name?.full || c.name?.native || "Unknown",
+        subtitle: media?.english || media?.romaji || undefined,
+        imageUrl: image.endsWith("/default.jpg") ? "" : image,
+        provider: "anime-character",
+        sourceUrl: c.siteUrl || `https://anilist.co/character/${c.id}`,
+      };
+    }) ?? []
+  );
+}
+
+export async function searchAniListCharacters({
+  q,
+  page,
+  filters,
+}: SearchQuery): Promise<SearchPage> {
+  const json = await anilistRequest<AniListCharactersResponse>(CHARACTERS_QUERY, {
+    search: q,
+    page,
+    perPage: SEARCH_PAGE_SIZE,
+  });
+
+  return {
+    results: dropMissingCovers(parseAniListCharacters(json), filters),
+    hasMore: json.data?.Page?.pageInfo?.hasNextPage ?? false,
+  };
+}
+
+// ====== Artwork ======
+
+export type AniListImagesResponse = {
+  data?: {
+    Media?: {
+      bannerImage?: string | null;
+      coverImage?: { extraLarge?: string; large?: string; medium?: string };
+    };
+  };
+};
+
+const IMAGES_QUERY = `
+  query ($id: Int) {
+    Media(id: $id) {
+      bannerImage
+      coverImage { extraLarge large medium }
+    }
+  }
+`;
+
+export function parseAniListImages(json: AniListImagesResponse): Artwork[] {
+  const media = json.data?.Media;
+  if (!media) return [];
+
+  const images: Artwork[] = [];
+  const cover = media.coverImage ?? {};
+  for (const size of ["extraLarge", "large", "medium"] as const) {
+    const url = cover[size];
+    // Small titles often reuse the same file for every size
+    if (url && !images.some((i) => i.imageUrl === url)) {
+      images.push({ id: size, kind: "cover", imageUrl: url });
+    }
+  }
+
+  if (media.bannerImage) {
+    images.push({ id: "banner", kind: "banner", imageUrl: media.bannerImage });
+  }
+
+  return images;
+}
+
+export async function anilistArtwork(id: string) {
+  if (!/^\d+$/.test(id)) return [];
+  const json = await anilistRequest<AniListImagesResponse>(IMAGES_QUERY, { id: Number(id) });
+  return parseAniListImages(json);
+}
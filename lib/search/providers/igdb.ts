@@ -0,0 +1,227 @@
+import {
+  SEARCH_PAGE_SIZE,
+  dropMissingCovers,
+  type SearchPage,
+  type SearchQuery,
+  type Artwork,
+  type SearchResult,
+} from "../types";
+import { SearchError, upstreamError } from "../errors";
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+async function getTwitchAppToken() {
+  const clientId = process.env.TWITCH_CLIENT_ID;
+  const clientSecret = process.env.TWITCH_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new SearchError(
+      "missing_credentials",
+      "Missing TWITCH_CLIENT_ID or TWITCH_CLIENT_SECRET in .env.local"
+    );
+  }
+
+  // Reuse token if still valid (with a safety buffer)
+  const now = Date.now();
+  if (cachedToken && cachedToken.expiresAt - 60_000 > now) {
+    return cachedToken.token;
+  }
+
+  const url = new URL("https://id.twitch.tv/oauth2/token");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("client_secret", clientSecret);
+  url.searchParams.set("grant_type", "client_credentials");
+
+  const resp = await fetch(url.toString(), { method: "POST" });
+  if (!resp.ok) throw await upstreamError(resp, "Twitch");
+
+  const json = (await resp.json()) as { access_token: string; expires_in: number };
+  cachedToken = {
+    token: json.access_token,
+    expiresAt: now + json.expires_in * 1000,
+  };
+
+  return cachedToken.token;
+}
+
+export type IGDBGame = {
+  id: number;
+  name: string;
+  slug?: string;
+  first_release_date?: number; // unix seconds
+  cover?: { image_id?: string };
+};
+
+export function parseIGDBGames(games: IGDBGame[]) {
+  return games.map((g): SearchResult => {
+    const year = g.first_release_date
+      ? new Date(g.first_release_date * 1000).getUTCFullYear()
+      : undefined;
+
+    // IGDB image URL pattern
+    const imageUrl = g.cover?.image_id
+      ? `https://images.igdb.com/igdb/image/upload/t_cover_big/${g.cover.image_id}.jpg`
+      : "";
+
+    return {
+      id: String(g.id),
+      title: g.name,
+      year,
+      imageUrl,
+      provider: "game",
+      sourceUrl: g.slug ? `https://www.igdb.com/games/${g.slug}` : undefined,
+    };
+  });
+}
+
+// Apicalypse `where` clauses for the filters IGDB supports
+function whereClauses({ filters }: SearchQuery) {
+  const clauses = ["version_parent = null"];
+
+  if (filters.yearFrom !== undefined) {
+    clauses.push(`first_release_date >= ${Date.UTC(filters.yearFrom, 0, 1) / 1000}`);
+  }
+  if (filters.yearTo !== undefined) {
+    clauses.push(`first_release_date < ${Date.UTC(filters.yearTo + 1, 0, 1) / 1000}`);
+  }
+  if (filters.platform !== undefined) clauses.push(`platforms = (${filters.platform})`);
+  if (!filters.includeNoCover) clauses.push("cover != null");
+
+  return clauses.join(" & ");
+}
+
+// POSTs an Apicalypse query to an IGDB endpoint with app credentials
+async function igdbRequest<T>(endpoint: string, body: string) {
+  const token = await getTwitchAppToken();
+  const clientId = process.env.TWITCH_CLIENT_ID!;
+
+  const resp = await fetch(`https://api.igdb.com/v4/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Client-ID": clientId,
+      Authorization: `Bearer ${token}`,
+      Accept: "application/json",
+      "Content-Type": "text/plain",
+    },
+    body,
+  });
+
+  if (!resp.ok) throw await upstreamError(resp, "IGDB");
+
+  return (await resp.json()) as T;
+}
+
+export async function searchIGDB(query: SearchQuery): Promise<SearchPage> {
+  // IGDB queries are usually POST with a text/plain body (Apicalypse).
+  // One extra row tells us whether another page exists.
+  const body = `
+    search "${query.q.replace(/"/g, "")}";
+    fields name, slug, first_release_date, cover.image_id;
+    where ${whereClauses(query)};
+    limit ${SEARCH_PAGE_SIZE + 1};
+    offset ${(query.page - 1) * SEARCH_PAGE_SIZE};
+  `.trim();
+
+  const games = await igdbRequest<IGDBGame[]>("games", body);
+  return {
+    results: dropMissingCovers(parseIGDBGames(games.slice(0, SEARCH_PAGE_SIZE)), query.filters),
+    hasMore: games.length > SEARCH_PAGE_SIZE,
+  };
+}
+
+// ====== Characters ======
+
+export type IGDBCharacter = {
+  id: number;
+  name: string;
+  slug?: string;
+  mug_shot?: { image_id?: string };
+  games?: Array<{ name?: string }>;
+};
+
+export function parseIGDBCharacters(characters: IGDBCharacter[]) {
+  return characters.map((c): SearchResult => ({
+    id: String(c.id),
+    title: c.name,
+    // The first game IGDB lists, which is usually the debut
+    subtitle: c.games?.find((g) => g.name)?.name,
+    imageUrl: c.mug_shot?.image_id ? igdbImage("t_cover_big", c.mug_shot.image_id) : "",
+    provider: "game-character",
+    sourceUrl: c.slug ? `https://www.igdb.com/characters/${c.slug}` : undefined,
+  }));
+}
+
+export async function searchIGDBCharacters(query: SearchQuery): Promise<SearchPage> {
+  const where = query.filters.includeNoCover ? "" : "where mug_shot != null;";
+  const body = `
+    search "${query.q.replace(/"/g, "")}";
+    fields name, slug, mug_shot.image_id, games.name;
+    ${where}
+    limit ${SEARCH_PAGE_SIZE + 1};
+    offset ${(query.page - 1) * SEARCH_PAGE_SIZE};
+  `.trim();
+
+  const characters = await igdbRequest<IGDBCharacter[]>("characters", body);
+  return {
+    results: parseIGDBCharacters(characters.slice(0, SEARCH_PAGE_SIZE)),
+    hasMore: characters.length > SEARCH_PAGE_SIZE,
+  };
+}
+
+// ====== Artwork ======
+
+export type IGDBGameImages = {
+  id: number;
+  cover?: { image_id?: string };
+  artworks?: Array<{ image_id?: string }>;
+  screenshots?: Array<{ image_id?: string }>;
+};
+
+function igdbImage(size: string, imageId: string) {
+  return `https://images.igdb.com/igdb/image/upload/${size}/${imageId}.jpg`;
+}
+
+export function parseIGDBImages(game: IGDBGameImages | undefined): Artwork[] {
+  if (!game) return [];
+  const images: Artwork[] = [];
+
+  // The cover in a few sizes; t_cover_big is what search results use
+  const coverId = game.cover?.image_id;
+  if (coverId) {
+    for (const size of ["t_cover_big", "t_cover_big_2x", "t_720p", "t_1080p"]) {
+      images.push({
+        id: `${size}/${coverId}`,
+        kind: "cover",
+        imageUrl: igdbImage(size, coverId),
+        thumbnailUrl: igdbImage("t_cover_big", coverId),
+      });
+    }
+  }
+
+  for (const [kind, list] of [
+    ["artwork", game.artworks],
+    ["screenshot", game.screenshots],
+  ] as const) {
+    for (const item of list ?? []) {
+      if (!item.image_id) continue;
+      images.push({
+        id: `t_1080p/${item.image_id}`,
+        kind,
+        imageUrl: igdbImage("t_1080p", item.image_id),
+        thumbnailUrl: igdbImage("t_screenshot_med", item.image_id),
+      });
+    }
+  }
+
+  return images;
+}
+
+export async function igdbArtwork(id: string) {
+  if (!/^\d+$/.test(id)) return [];
+
+  const games = await igdbRequest<IGDBGameImages[]>(
+    "games",
+    `fields cover.image_id, artworks.image_id, screenshots.image_id; where id = ${id};`
+  );
+  return parseIGDBImages(games[0]);
+}
@@ -0,0 +1,65 @@
+import { SEARCH_PAGE_SIZE, type SearchPage, type SearchQuery, type SearchResult } from "../types";
+import { upstreamError } from "../errors";
+
+// MusicBrainz rejects requests without a descriptive User-Agent
+const USER_AGENT = "AnimeGameChartMaker/0.1 (+https://github.com/ryodaso/anime-game-chart-maker)";
+
+export type MusicBrainzSearchResponse = {
+  count?: number;
+  "release-groups"?: Array<{
+    id: string; // MBID
+    title?: string;
+    "first-release-date"?: string; // YYYY, YYYY-MM or YYYY-MM-DD
+    "primary-type"?: string;
+    "artist-credit"?: Array<{ name?: string; joinphrase?: string }>;
+  }>;
+};
+
+export function parseMusicBrainzResponse(json: MusicBrainzSearchResponse) {
+  return (json["release-groups"] ?? []).map((rg): SearchResult => {
+    const artist = (rg["artist-credit"] ?? [])
+      .map((a) => `${a.name ?? ""}${a.joinphrase ?? ""}`)
+      .join("")
+      .trim();
+    const year = Number(rg["first-release-date"]?.slice(0, 4)) || undefined;
+
+    return {
+      id: rg.id,
+      title: artist ? `${artist} - ${rg.title ?? "Untitled"}` : rg.title || "Untitled",
+      year,
+      // Cover Art Archive has no search of its own; not every release group has a
+      // front cover, in which case this URL 404s and the tile shows empty.
+      imageUrl: `https://coverartarchive.org/release-group/${rg.id}/front-500`,
+      provider: "album",
+      sourceUrl: `https://musicbrainz.org/release-group/${rg.id}`,
+    };
+  });
+}
+
+// Lucene range syntax, e.g. "firstreleasedate:[1990 TO 1999]"
+function yearQuery({ yearFrom, yearTo }: SearchQuery["filters"]) {
+  if (yearFrom === undefined && yearTo === undefined) return "";
+  return ` AND firstreleasedate:[${yearFrom ?? "*"} TO ${yearTo ?? "*"}]`;
+}
+
+export async function searchMusicBrainz({ q, page, filters }: SearchQuery): Promise<SearchPage> {
+  const offset = (page - 1) * SEARCH_PAGE_SIZE;
+
+  const url = new URL("https://musicbrainz.org/ws/2/release-group");
+  url.searchParams.set("query", yearQuery(filters) ? `(${q})${yearQuery(filters)}` : q);
+  url.searchParams.set("fmt", "json");
+  url.searchParams.set("limit", String(SEARCH_PAGE_SIZE));
+  url.searchParams.set("offset", String(offset));
+
+  const resp = await fetch(url.toString(), {
+    headers: { Accept: "application/json", "User-Agent": USER_AGENT },
+  });
+
+  if (!resp.ok) throw await upstreamError(resp, "MusicBrainz");
+
+  const json = (await resp.json()) as MusicBrainzSearchResponse;
+  return {
+    results: parseMusicBrainzResponse(json),
+    hasMore: offset + SEARCH_PAGE_SIZE < (json.count ?? 0),
+  };
+}
@@ -0,0 +1,53 @@
+import {
+  SEARCH_PAGE_SIZE,
+  dropMissingCovers,
+  type SearchPage,
+  type SearchQuery,
+  type SearchResult,
+} from "../types";
+import { upstreamError } from "../errors";
+
+export type OpenLibrarySearchResponse = {
+  numFound?: number;
+  docs?: Array<{
+    key: string; // e.g. "/works/OL45804W"
+    title?: string;
+    first_publish_year?: number;
+    cover_i?: number;
+  }>;
+};
+
+export function parseOpenLibraryResponse(json: OpenLibrarySearchResponse) {
+  return (json.docs ?? []).map((d): SearchResult => ({
+    id: d.key.replace(/^\/works\//, ""),
+    title: d.title || "Untitled",
+    year: d.first_publish_year,
+    imageUrl: d.cover_i ? `https://covers.openlibrary.org/b/id/${d.cover_i}-L.jpg` : "",
+    provider: "book",
+    sourceUrl: `https://openlibrary.org${d.key}`,
+  }));
+}
+
+// Solr range syntax, e.g. "first_publish_year:[1990 TO 1999]"
+function yearQuery({ yearFrom, yearTo }: SearchQuery["filters"]) {
+  if (yearFrom === undefined && yearTo === undefined) return "";
+  return ` first_publish_year:[${yearFrom ?? "*"} TO ${yearTo ?? "*"}]`;
+}
+
+export async function searchOpenLibrary({ q, page, filters }: SearchQuery): Promise<SearchPage> {
+  const url = new URL("https://openlibrary.org/search.json");
+  url.searchParams.set("q", `${q}${yearQuery(filters)}`);
+  url.searchParams.set("page", String(page));
+  url.searchParams.set("fields", "key,title,first_publish_year,cover_i");
+  url.searchParams.set("limit", String(SEARCH_PAGE_SIZE));
+
+  const resp = await fetch(url.toString(), { headers: { Accept: "application/json" } });
+
+  if (!resp.ok) throw await upstreamError(resp, "Open Library");
+
+  const json = (await resp.json()) as OpenLibrarySearchResponse;
+  return {
+    results: dropMissingCovers(parseOpenLibraryResponse(json), filters),
+    hasMore: page * SEARCH_PAGE_SIZE < (json.numFound ?? 0),
+  };
+}
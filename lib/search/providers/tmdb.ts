@@ -0,0 +1,121 @@
+import {
+  dropMissingCovers,
+  inYearRange,
+  type SearchPage,
+  type SearchQuery,
+  type Artwork,
+  type SearchResult,
+} from "../types";
+import { SearchError, upstreamError } from "../errors";
+
+export type TMDBMediaType = "movie" | "tv";
+
+// TMDB pages are a fixed 20 results
+export type TMDBSearchResponse = {
+  page?: number;
+  total_pages?: number;
+  results?: Array<{
+    id: number;
+    title?: string; // movies
+    name?: string; // tv
+    release_date?: string; // movies, YYYY-MM-DD
+    first_air_date?: string; // tv, YYYY-MM-DD
+    poster_path?: string | null;
+  }>;
+};
+
+export function parseTMDBResponse(json: TMDBSearchResponse, type: TMDBMediaType) {
+  return (json.results ?? []).map((m): SearchResult => {
+    const date = type === "movie" ? m.release_date : m.first_air_date;
+    const year = date ? Number(date.slice(0, 4)) || undefined : undefined;
+
+    return {
+      id: String(m.id),
+      title: m.title || m.name || "Untitled",
+      year,
+      imageUrl: m.poster_path ? `https://image.tmdb.org/t/p/w500${m.poster_path}` : "",
+      provider: type,
+      sourceUrl: `https://www.themoviedb.org/${type}/${m.id}`,
+    };
+  });
+}
+
+async function tmdbRequest<T>(url: URL) {
+  // API Read Access Token from https://www.themoviedb.org/settings/api
+  const token = process.env.TMDB_API_TOKEN;
+  if (!token) {
+    throw new SearchError("missing_credentials", "Missing TMDB_API_TOKEN in .env.local");
+  }
+
+  const resp = await fetch(url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/json",
+    },
+  });
+
+  if (!resp.ok) throw await upstreamError(resp, "TMDB");
+
+  return (await resp.json()) as T;
+}
+
+export async function searchTMDB(
+  type: TMDBMediaType,
+  { q, page, filters }: SearchQuery
+): Promise<SearchPage> {
+  const url = new URL(`https://api.themoviedb.org/3/search/${type}`);
+  url.searchParams.set("query", q);
+  url.searchParams.set("include_adult", "false");
+  url.searchParams.set("page", String(page));
+
+  // Search only filters by a single year; wider ranges are filtered below per page
+  if (filters.yearFrom !== undefined && filters.yearFrom === filters.yearTo) {
+    url.searchParams.set(
+      type === "movie" ? "primary_release_year" : "first_air_date_year",
+      String(filters.yearFrom)
+    );
+  }
+
+  const json = await tmdbRequest<TMDBSearchResponse>(url);
+  const results = parseTMDBResponse(json, type).filter((r) => inYearRange(r.year, filters));
+  return {
+    results: dropMissingCovers(results, filters),
+    hasMore: (json.page ?? page) < (json.total_pages ?? 0),
+  };
+}
+
+// ====== Artwork ======
+
+export type TMDBImagesResponse = {
+  posters?: Array<{ file_path: string }>;
+  backdrops?: Array<{ file_path: string }>;
+};
+
+// Popular titles have hundreds of fan-uploaded images; the first few are plenty
+const MAX_IMAGES_PER_KIND = 20;
+
+export function parseTMDBImages(json: TMDBImagesResponse): Artwork[] {
+  const posters = (json.posters ?? []).slice(0, MAX_IMAGES_PER_KIND).map((p): Artwork => ({
+    id: `w500${p.file_path}`,
+    kind: "poster",
+    imageUrl: `https://image.tmdb.org/t/p/w500${p.file_path}`,
+    thumbnailUrl: `https://image.tmdb.org/t/p/w185${p.file_path}`,
+  }));
+  const backdrops = (json.backdrops ?? []).slice(0, MAX_IMAGES_PER_KIND).map((b): Artwork => ({
+    id: `w1280${b.file_path}`,
+    kind: "backdrop",
+    imageUrl: `https://image.tmdb.org/t/p/w1280${b.file_path}`,
+    thumbnailUrl: `https://image.tmdb.org/t/p/w300${b.file_path}`,
+  }));
+  return [...posters, ...backdrops];
+}
+
+export async function tmdbArtwork(type: TMDBMediaType, id: string) {
+  if (!/^\d+$/.test(id)) return [];
+
+  const url = new URL(`https://api.themoviedb.org/3/${type}/${id}/images`);
+  // Language-neutral images plus English ones; without this most posters are filtered out
+  url.searchParams.set("include_image_language", "en,null");
+
+  return parseTMDBImages(await tmdbRequest<TMDBImagesResponse>(url));
+}
@@ -0,0 +1,41 @@
+import type { SearchProviderId } from "./providers";
+import { MAX_SEARCH_PAGE, type SearchFilters, type SearchQuery } from "./types";
+
+// Query string <-> SearchQuery, shared by the modal and the search route:
+//   /api/search/<provider>?q=...&page=2&yearFrom=2000&yearTo=2010&format=TV&platform=6&covers=all
+
+function intParam(value: string | null) {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) ? n : undefined;
+}
+
+export function searchUrl(provider: SearchProviderId, query: SearchQuery) {
+  const params = new URLSearchParams({ q: query.q });
+  const { yearFrom, yearTo, format, platform, includeNoCover } = query.filters;
+
+  if (query.page > 1) params.set("page", String(query.page));
+  if (yearFrom !== undefined) params.set("yearFrom", String(yearFrom));
+  if (yearTo !== undefined) params.set("yearTo", String(yearTo));
+  if (format) params.set("format", format);
+  if (platform !== undefined) params.set("platform", String(platform));
+  if (includeNoCover) params.set("covers", "all");
+
+  return `/api/search/${provider}?${params.toString()}`;
+}
+
+export function parseSearchQuery(searchParams: URLSearchParams): SearchQuery {
+  const page = Math.min(MAX_SEARCH_PAGE, Math.max(1, intParam(searchParams.get("page")) ?? 1));
+  const format = searchParams.get("format") || undefined;
+
+  const filters: SearchFilters = {
+    yearFrom: intParam(searchParams.get("yearFrom")),
+    yearTo: intParam(searchParams.get("yearTo")),
+    // Formats are interpolated into upstream queries, so keep them to enum-like tokens
+    format: format && /^[A-Z_]+$/.test(format) ? format : undefined,
+    platform: intParam(searchParams.get("platform")),
+    includeNoCover: searchParams.get("covers") === "all",
+  };
+
+  return { q: (searchParams.get("q") || "").trim(), page, filters };
+}
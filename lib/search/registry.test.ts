@@ -0,0 +1,336 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import anilistAnime from "./__fixtures__/anilist-anime.json";
+import anilistCharacters from "./__fixtures__/anilist-characters.json";
+import anilistImages from "./__fixtures__/anilist-images.json";
+import igdbCharacters from "./__fixtures__/igdb-characters.json";
+import igdbGameImages from "./__fixtures__/igdb-game-images.json";
+import igdbGames from "./__fixtures__/igdb-games.json";
+import musicBrainz from "./__fixtures__/musicbrainz.json";
+import openLibrary from "./__fixtures__/openlibrary.json";
+import tmdbImages from "./__fixtures__/tmdb-images.json";
+import tmdbMovie from "./__fixtures__/tmdb-movie.json";
+import tmdbTv from "./__fixtures__/tmdb-tv.json";
+import twitchToken from "./__fixtures__/twitch-token.json";
+import { SEARCH_REGISTRY } from "./registry";
+import type { SearchFilters, SearchQuery } from "./types";
+
+// Every provider in the registry, run against upstream responses in each API's
+// own format (./__fixtures__). fetch is mocked and answers by URL prefix, so no
+// network or API keys are needed.
+
+const TWITCH_TOKEN_URL = "https://id.twitch.tv/oauth2/token";
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function respond(...routes: Array<[prefix: string, body: unknown]>) {
+  fetchMock.mockImplementation(async (input) => {
+    const url = String(input);
+    if (url.startsWith(TWITCH_TOKEN_URL)) return Response.json(twitchToken);
+    const route = routes.find(([prefix]) => url.startsWith(prefix));
+    return route ? Response.json(route[1]) : new Response("Not found", { status: 404 });
+  });
+}
+
+function query(q: string, filters: SearchFilters = {}, page = 1): SearchQuery {
+  return { q, page, filters };
+}
+
+// The upstream requests made, minus IGDB's token request (cached after the first)
+function upstreamCalls() {
+  return fetchMock.mock.calls
+    .filter(([input]) => !String(input).startsWith(TWITCH_TOKEN_URL))
+    .map(([input, init]) => ({
+      url: new URL(String(input)),
+      headers: new Headers(init?.headers),
+      body: String(init?.body ?? ""),
+    }));
+}
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", fetchMock);
+  vi.stubEnv("TWITCH_CLIENT_ID", "client-id");
+  vi.stubEnv("TWITCH_CLIENT_SECRET", "client-secret");
+  vi.stubEnv("TMDB_API_TOKEN", "tmdb-token");
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("AniList", () => {
+  it("maps media to results and drops entries without a cover", async () => {
+    respond(["https://graphql.anilist.co", anilistAnime]);
+    const page = await SEARCH_REGISTRY.anime.search(query("cowboy bebop"));
+
+    expect(page.hasMore).toBe(true);
+    expect(page.results).toEqual([
+      {
+        id: "1",
+        title: "Cowboy Bebop",
+        year: 1998,
+        imageUrl:
+          "https://s4.anilist.co/file/anilistcdn/media/anime/cover/large/bx1-CXtrrkMpJ8Zq.png",
+        provider: "anime",
+        sourceUrl: "https://anilist.co/anime/1",
+      },
+      expect.objectContaining({ id: "5", title: "Cowboy Bebop: The Movie", year: 2001 }),
+    ]);
+  });
+
+  it("keeps coverless entries on request, titled in romaji when there's no English title", async () => {
+    respond(["https://graphql.anilist.co", anilistAnime]);
+    const page = await SEARCH_REGISTRY.anime.search(
+      query("cowboy bebop", { includeNoCover: true })
+    );
+
+    expect(page.results[2]).toMatchObject({
+      id: "17205",
+      title: "Cowboy Bebop: Ein no Natsuyasumi",
+      imageUrl: "",
+    });
+  });
+
+  it("searches manga with the same query", async () => {
+    respond(["https://graphql.anilist.co", anilistAnime]);
+    const page = await SEARCH_REGISTRY.manga.search(query("bebop"));
+
+    const [{ body }] = upstreamCalls();
+    expect(JSON.parse(body).variables).toMatchObject({ search: "bebop", type: "MANGA" });
+    expect(page.results.map((r) => r.provider)).toEqual(["manga", "manga"]);
+  });
+
+  it("finds characters and skips AniList's placeholder art", async () => {
+    respond(["https://graphql.anilist.co", anilistCharacters]);
+    const page = await SEARCH_REGISTRY["anime-character"].search(
+      query("spike", { includeNoCover: true })
+    );
+
+    expect(page.results).toEqual([
+      {
+        id: "1",
+        title: "Spike Spiegel",
+        subtitle: "Cowboy Bebop",
+        imageUrl: "https://s4.anilist.co/file/anilistcdn/character/large/b1-ChxaldmieFlQ.png",
+        provider: "anime-character",
+        sourceUrl: "https://anilist.co/character/1",
+      },
+      expect.objectContaining({ id: "280000", title: "Spike", imageUrl: "" }),
+    ]);
+  });
+
+  it("lists each distinct cover size and the banner as artwork", async () => {
+    respond(["https://graphql.anilist.co", anilistImages]);
+    const images = await SEARCH_REGISTRY.anime.artwork!("1");
+
+    expect(images.map((i) => [i.id, i.kind])).toEqual([
+      ["extraLarge", "cover"],
+      ["large", "cover"],
+      ["banner", "banner"],
+    ]);
+  });
+
+  it("retries after a short rate limit", async () => {
+    vi.useFakeTimers();
+    fetchMock.mockResolvedValueOnce(
+      new Response("", { status: 429, headers: { "retry-after": "1" } })
+    );
+    respond(["https://graphql.anilist.co", anilistAnime]);
+
+    const pending = SEARCH_REGISTRY.anime.search(query("cowboy bebop"));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await pending).results).toHaveLength(2);
+    expect(upstreamCalls()).toHaveLength(2);
+  });
+});
+
+describe("IGDB", () => {
+  it("searches games with app credentials and pages by offset", async () => {
+    respond(["https://api.igdb.com/v4/games", igdbGames]);
+    const page = await SEARCH_REGISTRY.game.search(query('"zelda"', { platform: 4 }, 2));
+
+    const [{ url, headers, body }] = upstreamCalls();
+    expect(url.pathname).toBe("/v4/games");
+    expect(headers.get("Client-ID")).toBe("client-id");
+    expect(headers.get("Authorization")).toBe("Bearer fixture-token");
+    expect(body).toContain('search "zelda";');
+    expect(body).toContain("platforms = (4)");
+    expect(body).toContain("limit 25;");
+    expect(body).toContain("offset 24;");
+
+    expect(page.hasMore).toBe(false);
+    expect(page.results[0]).toEqual({
+      id: "1029",
+      title: "The Legend of Zelda: Ocarina of Time",
+      year: 1998,
+      imageUrl: "https://images.igdb.com/igdb/image/upload/t_cover_big/co2xw7.jpg",
+      provider: "game",
+      sourceUrl: "https://www.igdb.com/games/the-legend-of-zelda-ocarina-of-time",
+    });
+  });
+
+  it("finds characters with the first game they appear in", async () => {
+    respond(["https://api.igdb.com/v4/characters", igdbCharacters]);
+    const page = await SEARCH_REGISTRY["game-character"].search(query("link"));
+
+    expect(page.results).toEqual([
+      {
+        id: "2049",
+        title: "Link",
+        subtitle: "Zelda II: The Adventure of Link",
+        imageUrl: "https://images.igdb.com/igdb/image/upload/t_cover_big/dpcp6brxdsqacbrqxdyy.jpg",
+        provider: "game-character",
+        sourceUrl: "https://www.igdb.com/characters/link",
+      },
+    ]);
+  });
+
+  it("lists cover sizes, artworks and screenshots as artwork", async () => {
+    respond(["https://api.igdb.com/v4/games", igdbGameImages]);
+    const images = await SEARCH_REGISTRY.game.artwork!("1029");
+
+    expect(upstreamCalls()[0].body).toContain("where id = 1029;");
+    expect(images.map((i) => i.id)).toEqual([
+      "t_cover_big/co2xw7",
+      "t_cover_big_2x/co2xw7",
+      "t_720p/co2xw7",
+      "t_1080p/co2xw7",
+      "t_1080p/ar4xm",
+      "t_1080p/sc3uw",
+    ]);
+  });
+
+  it("reports missing credentials without calling Twitch", async () => {
+    vi.stubEnv("TWITCH_CLIENT_SECRET", "");
+    respond();
+
+    await expect(SEARCH_REGISTRY.game.search(query("zelda"))).rejects.toMatchObject({
+      code: "missing_credentials",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("TMDB", () => {
+  it("searches movies with the read token and a single-year filter", async () => {
+    respond(["https://api.themoviedb.org/3/search/movie", tmdbMovie]);
+    const page = await SEARCH_REGISTRY.movie.search(
+      query("matrix", { yearFrom: 1999, yearTo: 1999 })
+    );
+
+    const [{ url, headers }] = upstreamCalls();
+    expect(headers.get("Authorization")).toBe("Bearer tmdb-token");
+    expect(url.searchParams.get("query")).toBe("matrix");
+    expect(url.searchParams.get("primary_release_year")).toBe("1999");
+
+    expect(page).toEqual({
+      results: [
+        {
+          id: "603",
+          title: "The Matrix",
+          year: 1999,
+          imageUrl: "https://image.tmdb.org/t/p/w500/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg",
+          provider: "movie",
+          sourceUrl: "https://www.themoviedb.org/movie/603",
+        },
+      ],
+      hasMore: true,
+    });
+  });
+
+  it("filters TV shows by a year range itself", async () => {
+    respond(["https://api.themoviedb.org/3/search/tv", tmdbTv]);
+    const page = await SEARCH_REGISTRY.tv.search(query("saul", { yearFrom: 2010 }, 2));
+
+    expect(upstreamCalls()[0].url.searchParams.get("first_air_date_year")).toBe(null);
+    expect(page.hasMore).toBe(false);
+    expect(page.results.map((r) => [r.title, r.year, r.provider])).toEqual([
+      ["Better Call Saul", 2015, "tv"],
+    ]);
+  });
+
+  it("lists posters and backdrops as artwork", async () => {
+    respond(["https://api.themoviedb.org/3/movie/603/images", tmdbImages]);
+    const images = await SEARCH_REGISTRY.movie.artwork!("603");
+
+    expect(upstreamCalls()[0].url.searchParams.get("include_image_language")).toBe("en,null");
+    expect(images.map((i) => [i.kind, i.imageUrl])).toEqual([
+      ["poster", "https://image.tmdb.org/t/p/w500/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg"],
+      ["poster", "https://image.tmdb.org/t/p/w500/aOIuZAjPaRIE6CMzbazvcHuHXDc.jpg"],
+      ["backdrop", "https://image.tmdb.org/t/p/w1280/fNG7i7RqMErkcqhohV2a6cV1Ehy.jpg"],
+    ]);
+  });
+
+  it("reports a missing token", async () => {
+    vi.stubEnv("TMDB_API_TOKEN", "");
+    respond();
+
+    await expect(SEARCH_REGISTRY.tv.search(query("saul"))).rejects.toMatchObject({
+      code: "missing_credentials",
+    });
+  });
+});
+
+describe("Open Library", () => {
+  it("maps works to results with cover URLs", async () => {
+    respond(["https://openlibrary.org/search.json", openLibrary]);
+    const page = await SEARCH_REGISTRY.book.search(query("tolkien", { yearFrom: 1930 }));
+
+    expect(upstreamCalls()[0].url.searchParams.get("q")).toBe(
+      "tolkien first_publish_year:[1930 TO *]"
+    );
+    expect(page.hasMore).toBe(true);
+    expect(page.results).toEqual([
+      {
+        id: "OL27448W",
+        title: "The Lord of the Rings",
+        year: 1954,
+        imageUrl: "https://covers.openlibrary.org/b/id/14625765-L.jpg",
+        provider: "book",
+        sourceUrl: "https://openlibrary.org/works/OL27448W",
+      },
+      expect.objectContaining({ id: "OL262758W", title: "The Hobbit", year: 1937 }),
+    ]);
+  });
+
+  it("turns an upstream failure into a search error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(new Response("Service Unavailable", { status: 503 }));
+
+    await expect(SEARCH_REGISTRY.book.search(query("tolkien"))).rejects.toMatchObject({
+      code: "upstream_error",
+      message: "Open Library responded with 503",
+    });
+    vi.restoreAllMocks();
+  });
+});
+
+describe("MusicBrainz", () => {
+  it("titles release groups with their artists and links Cover Art Archive images", async () => {
+    respond(["https://musicbrainz.org/ws/2/release-group", musicBrainz]);
+    const page = await SEARCH_REGISTRY.album.search(
+      query("ok computer", { yearFrom: 1990, yearTo: 1999 })
+    );
+
+    const [{ url, headers }] = upstreamCalls();
+    expect(headers.get("User-Agent")).toMatch(/^AnimeGameChartMaker\//);
+    expect(url.searchParams.get("query")).toBe("(ok computer) AND firstreleasedate:[1990 TO 1999]");
+
+    expect(page.hasMore).toBe(true);
+    expect(page.results).toEqual([
+      {
+        id: "b1392450-e666-3926-a536-22c65f834433",
+        title: "Radiohead - OK Computer",
+        year: 1997,
+        imageUrl:
+          "https://coverartarchive.org/release-group/b1392450-e666-3926-a536-22c65f834433/front-500",
+        provider: "album",
+        sourceUrl: "https://musicbrainz.org/release-group/b1392450-e666-3926-a536-22c65f834433",
+      },
+      expect.objectContaining({ title: "Artist A & Artist B - Collaboration", year: undefined }),
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import type { SearchProviderId } from "./providers";
+import { anilistArtwork, searchAniList, searchAniListCharacters } from "./providers/anilist";
+import { igdbArtwork, searchIGDB, searchIGDBCharacters } from "./providers/igdb";
+import { searchMusicBrainz } from "./providers/musicBrainz";
+import { searchOpenLibrary } from "./providers/openLibrary";
+import { searchTMDB, tmdbArtwork } from "./providers/tmdb";
+import type { ArtworkFn, SearchFn } from "./types";
+
+type ProviderImpl = {
+  search: SearchFn;
+  // Alternate images for one result; providers without it only offer the search cover
+  artwork?: ArtworkFn;
+};
+
+// Server-side search implementations, one per entry in SEARCH_PROVIDERS.
+// Adding a provider means adding it there and here; the type keeps them in sync.
+export const SEARCH_REGISTRY: Record<SearchProviderId, ProviderImpl> = {
+  game: { search: searchIGDB, artwork: igdbArtwork },
+  anime: { search: (query) => searchAniList("ANIME", query), artwork: anilistArtwork },
+  manga: { search: (query) => searchAniList("MANGA", query), artwork: anilistArtwork },
+  movie: {
+    search: (query) => searchTMDB("movie", query),
+    artwork: (id) => tmdbArtwork("movie", id),
+  },
+  tv: { search: (query) => searchTMDB("tv", query), artwork: (id) => tmdbArtwork("tv", id) },
+  book: { search: searchOpenLibrary },
+  album: { search: searchMusicBrainz },
+  "anime-character": { search: searchAniListCharacters },
+  "game-character": { search: searchIGDBCharacters },
+};
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchWithRetry } from "./retry";
+
+// `send` stands in for the upstream fetch and `sleep` records the waits
+// instead of taking them.
+
+function rateLimited(retryAfter?: string) {
+  return new Response("Too Many Requests", {
+    status: 429,
+    headers: retryAfter ? { "retry-after": retryAfter } : {},
+  });
+}
+
+function responses(...list: Response[]) {
+  const send = vi.fn<() => Promise<Response>>();
+  for (const resp of list) send.mockResolvedValueOnce(resp);
+  return send;
+}
+
+const sleep = vi.fn<(ms: number) => Promise<void>>(async () => {});
+
+afterEach(() => {
+  sleep.mockClear();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("fetchWithRetry", () => {
+  it("returns the first response that isn't a 429 without waiting", async () => {
+    const send = responses(new Response("error", { status: 500 }));
+
+    const resp = await fetchWithRetry(send, { sleep });
+    expect(resp.status).toBe(500);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("retries a 429 after the Retry-After wait", async () => {
+    const send = responses(rateLimited("2"), Response.json({ ok: true }));
+
+    const resp = await fetchWithRetry(send, { sleep });
+    expect(await resp.json()).toEqual({ ok: true });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sleep.mock.calls).toEqual([[2000]]);
+  });
+
+  it("backs off exponentially with jitter when there's no Retry-After", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const send = responses(rateLimited(), rateLimited(), Response.json({}));
+
+    const resp = await fetchWithRetry(send, { baseDelayMs: 100, sleep });
+    expect(resp.status).toBe(200);
+    expect(sleep.mock.calls).toEqual([[112.5], [225]]);
+  });
+
+  it("caps the backoff", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const send = responses(rateLimited(), rateLimited(), rateLimited(), Response.json({}));
+
+    await fetchWithRetry(send, { retries: 3, baseDelayMs: 1000, maxDelayMs: 1500, sleep });
+    expect(sleep.mock.calls).toEqual([[1000], [1500], [1500]]);
+  });
+
+  it("gives up on a Retry-After longer than the longest wait", async () => {
+    const send = responses(rateLimited("30"));
+
+    const resp = await fetchWithRetry(send, { sleep });
+    expect(resp.status).toBe(429);
+    expect(resp.headers.get("retry-after")).toBe("30");
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("returns the last 429 once the retries run out", async () => {
+    const send = responses(rateLimited("1"), rateLimited("1"), rateLimited("1"));
+
+    const resp = await fetchWithRetry(send, { retries: 2, sleep });
+    expect(resp.status).toBe(429);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits on the default timer when no sleep is given", async () => {
+    vi.useFakeTimers();
+    const send = responses(rateLimited("1"), Response.json({}));
+    const pending = fetchWithRetry(send);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(200);
+  });
+});
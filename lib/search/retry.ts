@@ -0,0 +1,31 @@
+import { parseRetryAfter } from "./errors";
+
+export type RetryOptions = {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>; // injectable so tests don't wait
+};
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Re-sends a request while the upstream answers 429, waiting for Retry-After when
+// it's given and short, otherwise exponential backoff with jitter. The last
+// response (429 or not) is returned for the caller to handle.
+export async function fetchWithRetry(
+  send: () => Promise<Response>,
+  { retries = 2, baseDelayMs = 500, maxDelayMs = 4000, sleep = defaultSleep }: RetryOptions = {}
+) {
+  for (let attempt = 0; ; attempt++) {
+    const resp = await send();
+    if (resp.status !== 429 || attempt >= retries) return resp;
+
+    const retryAfter = parseRetryAfter(resp.headers.get("retry-after"));
+    // Waiting longer than this would hold the search request open too long
+    if (retryAfter !== undefined && retryAfter * 1000 > maxDelayMs) return resp;
+
+    const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+    await resp.body?.cancel();
+    await sleep(Math.min(maxDelayMs, retryAfter !== undefined ? retryAfter * 1000 : backoff));
+  }
+}
@@ -0,0 +1,50 @@
+import { LruCache } from "../lruCache";
+import { clientIp, createRateLimiter } from "../rateLimit";
+import { SearchError } from "./errors";
+import type { SearchProviderId } from "./providers";
+import { searchUrl } from "./query";
+import { SEARCH_REGISTRY } from "./registry";
+import type { Artwork, SearchPage, SearchQuery } from "./types";
+
+// Shared by the search and artwork routes: per-IP limit, then an LRU in front of
+// the providers so repeated queries (paging back, re-opening the modal, several
+// users searching the same title) don't hit IGDB/AniList again.
+
+const SEARCH_CACHE_TTL_MS = 10 * 60 * 1000;
+const ARTWORK_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const searchCache = new LruCache<SearchPage>(500, SEARCH_CACHE_TTL_MS);
+const artworkCache = new LruCache<Artwork[]>(200, ARTWORK_CACHE_TTL_MS);
+
+const checkLimit = createRateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+export function enforceRateLimit(req: Request) {
+  const result = checkLimit(clientIp(req));
+  if (!result.ok) {
+    throw new SearchError("rate_limited", "Too many search requests", result.retryAfter);
+  }
+}
+
+export async function cachedSearch(provider: SearchProviderId, query: SearchQuery) {
+  // The canonical query string doubles as the cache key
+  const key = searchUrl(provider, { ...query, q: query.q.toLowerCase() });
+  const hit = searchCache.get(key);
+  if (hit) return hit;
+
+  const page = await SEARCH_REGISTRY[provider].search(query);
+  searchCache.set(key, page);
+  return page;
+}
+
+export async function cachedArtwork(provider: SearchProviderId, id: string) {
+  const artwork = SEARCH_REGISTRY[provider].artwork;
+  if (!artwork) return [];
+
+  const key = `${provider}:${id}`;
+  const hit = artworkCache.get(key);
+  if (hit) return hit;
+
+  const images = await artwork(id);
+  artworkCache.set(key, images);
+  return images;
+}
@@ -0,0 +1,65 @@
+// Shared result contract for every search provider. `provider` and `sourceUrl`
+// let the client tell results from different providers apart and link back to them.
+export type SearchResult = {
+  id: string;
+  title: string;
+  year?: number;
+  // Extra context shown under the title, e.g. the show or game a character is from
+  subtitle?: string;
+  // Empty when the entry has no cover (only returned with includeNoCover)
+  imageUrl: string;
+  provider: string;
+  sourceUrl?: string;
+};
+
+// Optional filters; each provider applies the ones it supports (see SEARCH_PROVIDERS)
+export type SearchFilters = {
+  yearFrom?: number;
+  yearTo?: number;
+  format?: string; // AniList MediaFormat, e.g. TV, MOVIE, OVA
+  platform?: number; // IGDB platform id
+  includeNoCover?: boolean;
+};
+
+export type SearchQuery = {
+  q: string;
+  page: number; // 1-based
+  filters: SearchFilters;
+};
+
+export type SearchPage = {
+  results: SearchResult[];
+  hasMore: boolean;
+};
+
+export type SearchFn = (query: SearchQuery) => Promise<SearchPage>;
+
+// Every image a provider has for one result, for picking an alternate cover
+export type ArtworkKind = "cover" | "artwork" | "screenshot" | "banner" | "poster" | "backdrop";
+
+export type Artwork = {
+  id: string;
+  kind: ArtworkKind;
+  imageUrl: string;
+  // Smaller rendition for the picker grid; falls back to imageUrl
+  thumbnailUrl?: string;
+};
+
+export type ArtworkFn = (id: string) => Promise<Artwork[]>;
+
+export const SEARCH_PAGE_SIZE = 24;
+
+// Keeps deep pagination from turning into an upstream crawl
+export const MAX_SEARCH_PAGE = 20;
+
+export function dropMissingCovers(results: SearchResult[], filters: SearchFilters) {
+  return filters.includeNoCover ? results : results.filter((r) => r.imageUrl);
+}
+
+export function inYearRange(year: number | undefined, filters: SearchFilters) {
+  if (filters.yearFrom === undefined && filters.yearTo === undefined) return true;
+  if (year === undefined) return false;
+  if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+  if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+  return true;
+}
@@ -0,0 +1,249 @@
+import type { CellData, ChartState } from "./chart";
+import {
+  CHART_SCHEMA_VERSION,
+  ChartSchemaError,
+  deserializeChart,
+  parseSerializedChart,
+  type SerializedTheme,
+} from "./chartSchema";
+import { fromCoverRef, toCoverRef } from "./coverRefs";
+import { MAX_GRID_SIZE, cellCount, type GridLayout } from "./layouts";
+import { DEFAULT_THEME, THEME_PRESETS, matchThemePreset } from "./themes";
+
+// Share links carry the chart in the query string, so link previews can render it
+// (see app/api/render):
+//   https://example.com/?c=<base64url(deflate-raw(JSON SharePayload))>
+// Older links used the hash (#c=...) and still open.
+export const SHARE_PARAM = "c";
+const LEGACY_SHARE_HASH_PREFIX = "#c=";
+
+// Past this, chat apps and some browsers start truncating or refusing links
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+const SHARE_VERSION = 1;
+
+// Links are decoded on the server too (previews, /api/render), so a tiny link
+// must not be able to inflate into an enormous chart. A full 12x12 grid with long
+// labels and titles is well under this.
+const MAX_SHARE_PAYLOAD_BYTES = 256 * 1024;
+
+// Which title a cell holds (see CellSource); the details URL is left out to keep links short
+type ShareSource = [provider: string, id: string, title?: string, year?: number];
+
+// coverRef is "" when a cell has a source but no shareable image
+type ShareCell = [label: string, coverRef?: string, source?: ShareSource];
+
+type SharePayload = {
+  v: typeof SHARE_VERSION;
+  t: string; // title
+  p: string; // preset id
+  g: [rows: number, cols: number, aspect: string, tiers?: number[]];
+  c: ShareCell[]; // empty for tier lists
+  s?: string | SerializedTheme; // theme preset id, or a custom theme; omitted for the default
+  // Tier list mode only: the rows, then the unranked pool
+  r?: [rows: Array<[label: string, color: string, items: ShareCell[]]>, pool: ShareCell[]];
+};
+
+export type ShareLink = {
+  url: string;
+  tooLong: boolean;
+  // Indexes of cells whose image can't travel in a link (uploads, unknown hosts).
+  // For tier lists these count items across the rows, then the pool.
+  lostImageCells: number[];
+};
+
+// ====== base64url + deflate ======
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+// Stops reading (and throws) once the output passes `maxBytes`
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxBytes = Infinity
+) {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error("Output exceeds size limit");
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+// ====== Encode ======
+
+export async function buildShareLink(state: ChartState, baseUrl: string): Promise<ShareLink> {
+  const lostImageCells: number[] = [];
+  let position = 0;
+
+  const shareCell = (cell: CellData): ShareCell => {
+    const i = position++;
+    const ref = cell.imageUrl ? toCoverRef(cell.imageUrl) : null;
+    if (cell.imageUrl && !ref) lostImageCells.push(i);
+
+    if (!cell.source) return ref ? [cell.label, ref] : [cell.label];
+
+    const { provider, id, title, year } = cell.source;
+    const source: ShareSource = year ? [provider, id, title ?? "", year] : [provider, id];
+    if (title && !year) source.push(title);
+    return [cell.label, ref ?? "", source];
+  };
+
+  // Only the view being shown travels, which keeps links short
+  const isTierList = state.mode === "tier";
+  const c = isTierList ? [] : state.cells.map(shareCell);
+  const r: SharePayload["r"] = isTierList
+    ? [
+        state.tierList.rows.map((row) => [row.label, row.color, row.items.map(shareCell)]),
+        state.tierList.pool.map(shareCell),
+      ]
+    : undefined;
+
+  // Background images can't travel in a link, so custom themes fall back to their base color
+  const { background, ...themeRest } = state.theme;
+  // Captions aren't part of a preset, so a captioned theme travels in full
+  const presetId = state.theme.label.caption === "none" ? matchThemePreset(state.theme) : null;
+  const s: SharePayload["s"] =
+    presetId === matchThemePreset(DEFAULT_THEME)
+      ? undefined
+      : (presetId ??
+        (background.type === "image"
+          ? { ...themeRest, background: { type: "color", color: background.color } }
+          : { ...themeRest, background }));
+
+  const { rows, cols, aspect, tiers } = state.layout;
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    t: state.title,
+    p: state.presetId,
+    g: tiers ? [rows, cols, aspect, tiers] : [rows, cols, aspect],
+    c,
+    ...(s ? { s } : {}),
+    ...(r ? { r } : {}),
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const encoded = toBase64Url(await transform(json, new CompressionStream("deflate-raw")));
+
+  const url = new URL(baseUrl);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(SHARE_PARAM, encoded);
+  const href = url.toString();
+
+  return { url: href, tooLong: href.length > MAX_SHARE_URL_LENGTH, lostImageCells };
+}
+
+// ====== Decode ======
+
+// The encoded chart from a page location, if it holds one
+export function readSharedChartParam(location: { search: string; hash: string }) {
+  const encoded = new URLSearchParams(location.search).get(SHARE_PARAM);
+  if (encoded) return encoded;
+
+  const { hash } = location;
+  return hash.startsWith(LEGACY_SHARE_HASH_PREFIX)
+    ? hash.slice(LEGACY_SHARE_HASH_PREFIX.length)
+    : null;
+}
+
+export async function decodeSharedChart(encoded: string): Promise<ChartState> {
+  if (encoded.length > MAX_SHARE_URL_LENGTH) {
+    throw new ChartSchemaError("This share link is too long.");
+  }
+
+  let payload: SharePayload;
+  try {
+    const bytes = await transform(
+      fromBase64Url(encoded),
+      new DecompressionStream("deflate-raw"),
+      MAX_SHARE_PAYLOAD_BYTES
+    );
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ChartSchemaError("This share link is damaged or incomplete.");
+  }
+
+  if (payload?.v !== SHARE_VERSION || !Array.isArray(payload.g) || !Array.isArray(payload.c)) {
+    throw new ChartSchemaError("This share link was made by an unsupported version of the app.");
+  }
+
+  const unshareCell = (entry: unknown) => {
+    const [label, ref, source] = Array.isArray(entry) ? entry : [];
+    const url = typeof ref === "string" ? fromCoverRef(ref) : null;
+    // Malformed sources are dropped by parseSerializedChart
+    const [provider, id, title, year] = Array.isArray(source) ? source : [];
+    return {
+      label,
+      ...(url ? { image: { type: "url", url } } : {}),
+      ...(source ? { source: { provider, id, title, year } } : {}),
+    };
+  };
+  const unshareCells = (entries: unknown) =>
+    (Array.isArray(entries) ? entries : []).map(unshareCell);
+
+  const [tierRows, pool] = Array.isArray(payload.r) ? payload.r : [];
+
+  const [rows, cols, aspect, tiers] = payload.g;
+  if (tiers !== undefined && !Array.isArray(tiers)) {
+    throw new ChartSchemaError("Chart has invalid tier sizes.");
+  }
+  const layout = { rows, cols, aspect, tiers } as GridLayout;
+  if (!tiers) delete layout.tiers;
+  // Checked before any cells are built from it
+  if (!(cellCount(layout) <= MAX_GRID_SIZE * MAX_GRID_SIZE)) {
+    throw new ChartSchemaError("This share link's grid is too large.");
+  }
+
+  // Reuse the saved-chart validation so links get the same checks as drafts
+  const chart = parseSerializedChart({
+    version: CHART_SCHEMA_VERSION,
+    title: payload.t,
+    presetId: payload.p,
+    layout,
+    theme:
+      typeof payload.s === "string"
+        ? THEME_PRESETS.find((p) => p.id === payload.s)?.theme
+        : payload.s,
+    cells: unshareCells(payload.c),
+    ...(payload.r
+      ? {
+          mode: "tier",
+          tierList: {
+            rows: (Array.isArray(tierRows) ? tierRows : []).map((row) => {
+              const [label, color, items] = Array.isArray(row) ? row : [];
+              return { label, color, items: unshareCells(items) };
+            }),
+            pool: unshareCells(pool),
+          },
+        }
+      : {}),
+  });
+
+  return deserializeChart(chart, async (image) => (image.type === "url" ? image.url : undefined));
+}
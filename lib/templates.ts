@@ -0,0 +1,279 @@
+import { parseLayout } from "./chartSchema";
+import {
+  LAYOUT_PRESETS,
+  aboutYouLabels,
+  cellCount,
+  getPreset,
+  type GridLayout,
+  type LayoutPreset,
+} from "./layouts";
+
+// Question templates: a chart title, a grid and one prompt per cell. Applying a
+// template only rewrites labels (see applyPresetToCells), so covers stay put;
+// the ones past a smaller template's grid come back when the grid grows.
+// Templates with a `pool` can be shuffled: every prompt is drawn at random from
+// the labels plus the pool.
+//
+// Custom templates live in localStorage under chart-maker:templates.
+
+export type ChartTemplate = LayoutPreset & {
+  title: string;
+  pool?: string[];
+  builtIn?: boolean;
+};
+
+const STORAGE_KEY = "chart-maker:templates";
+const MAX_LABEL_LENGTH = 200;
+
+const animeLabels = [
+  "Favorite Anime of all Time",
+  "Favorite Franchise",
+  "Best Opening",
+  "Favorite Protagonist",
+  "Favorite Villain",
+  "Best Story",
+  "Have not watched but want to",
+  "You Love Everyone Hates",
+  "You Hate Everyone Loves",
+  "Best Art Style",
+  "Favorite Ending",
+  "Best Fight Scene",
+  "Childhood Anime",
+  "Comfort Anime",
+  "Made you Cry",
+  "Anime you always rewatch",
+  "Guilty Pleasure",
+  "Best Soundtrack",
+];
+
+const animePool = [
+  "Favorite Movie",
+  "Favorite Studio",
+  "Best Animation",
+  "Favorite Side Character",
+  "Best Couple",
+  "Best Plot Twist",
+  "Overrated",
+  "Underrated",
+  "Dropped but should finish",
+  "Best First Episode",
+  "Best Manga Adaptation",
+  "Favorite Isekai",
+  "Favorite Mecha",
+  "Favorite Sports Anime",
+  "Favorite Slice of Life",
+  "Most Rewatched Scene",
+  "Got you into Anime",
+  "Recommend to Everyone",
+];
+
+const gamePool = [
+  "Favorite Console",
+  "Favorite Indie Game",
+  "Favorite Multiplayer Game",
+  "Best Open World",
+  "Best Character Design",
+  "Hardest Game Beaten",
+  "Never Finished",
+  "Overrated",
+  "Underrated",
+  "Best Sequel",
+  "Best Remake",
+  "Favorite Side Character",
+  "Best Plot Twist",
+  "Best Level",
+  "Best Controls",
+  "Got you into Gaming",
+  "Most Replayed",
+  "Recommend to Everyone",
+];
+
+const mixedLabels = [
+  "Favorite Game",
+  "Favorite Anime",
+  "Favorite Game Protagonist",
+  "Favorite Anime Protagonist",
+  "Favorite Villain",
+  "Best Soundtrack",
+  "Best Story",
+  "Best Art Style",
+  "Childhood Game",
+  "Childhood Anime",
+  "Comfort Pick",
+  "Guilty Pleasure",
+  "Game you always come back to",
+  "Anime you always rewatch",
+  "You Love Everyone Hates",
+  "You Hate Everyone Loves",
+  "Made you Cry",
+  "Want to try next",
+];
+
+const genreLabels = [
+  "Action",
+  "Adventure",
+  "Comedy",
+  "Drama",
+  "Fantasy",
+  "Horror",
+  "Mystery",
+  "Romance",
+  "Sci-Fi",
+  "Slice of Life",
+  "Sports",
+  "Psychological",
+];
+
+const genrePool = [
+  "Isekai",
+  "Mecha",
+  "Supernatural",
+  "Thriller",
+  "Music",
+  "RPG",
+  "Platformer",
+  "Fighting",
+  "Shooter",
+  "Puzzle",
+  "Strategy",
+  "Racing",
+  "Survival",
+  "Metroidvania",
+  "Roguelike",
+  "Visual Novel",
+];
+
+// The `count` years up to endYear, oldest first
+function recentYears(endYear: number, count = 12) {
+  return Array.from({ length: count }, (_, i) => String(endYear - count + 1 + i));
+}
+
+const aboutYouLayout = getPreset("about-you")!.layout;
+
+export const BUILT_IN_TEMPLATES: ChartTemplate[] = [
+  {
+    id: "anime",
+    name: "About You: Anime",
+    title: "About You: Anime",
+    layout: aboutYouLayout,
+    labels: animeLabels,
+    pool: animePool,
+    builtIn: true,
+  },
+  {
+    id: "games",
+    name: "About You: Video Games",
+    title: "About You: Video Games",
+    layout: aboutYouLayout,
+    labels: aboutYouLabels,
+    pool: gamePool,
+    builtIn: true,
+  },
+  {
+    id: "mixed",
+    name: "About You: Games & Anime",
+    title: "About You: Video Games/Anime",
+    layout: aboutYouLayout,
+    labels: mixedLabels,
+    pool: [...animeLabels, ...aboutYouLabels].filter((l) => !mixedLabels.includes(l)),
+    builtIn: true,
+  },
+  {
+    id: "per-year",
+    name: "Favorite per Year",
+    title: "My Favorite of Each Year",
+    layout: { rows: 3, cols: 4, aspect: "2 / 3" },
+    labels: recentYears(new Date().getFullYear()),
+    builtIn: true,
+  },
+  {
+    id: "per-genre",
+    name: "Favorite per Genre",
+    title: "My Favorite per Genre",
+    layout: { rows: 3, cols: 4, aspect: "2 / 3" },
+    labels: genreLabels,
+    pool: genrePool,
+    builtIn: true,
+  },
+];
+
+export function canShuffle(template: ChartTemplate) {
+  return Boolean(template.pool?.length);
+}
+
+// A copy of the template with prompts drawn at random from labels + pool
+export function shuffleTemplate(template: ChartTemplate, random = Math.random): ChartTemplate {
+  const prompts = [...new Set([...template.labels, ...(template.pool ?? [])])];
+  for (let i = prompts.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [prompts[i], prompts[j]] = [prompts[j], prompts[i]];
+  }
+  return { ...template, labels: prompts.slice(0, cellCount(template.layout)) };
+}
+
+// Layout preset the template's grid matches, so the preset picker stays in sync
+export function templatePresetId(layout: GridLayout) {
+  const same = (a: GridLayout) =>
+    a.rows === layout.rows &&
+    a.cols === layout.cols &&
+    a.aspect === layout.aspect &&
+    (a.tiers ?? []).join() === (layout.tiers ?? []).join();
+  return LAYOUT_PRESETS.find((p) => same(p.layout))?.id ?? "custom";
+}
+
+export function newTemplateId() {
+  return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ====== Custom templates (localStorage) ======
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+function cleanLabels(labels: string[]) {
+  return labels.map((l) => l.trim().slice(0, MAX_LABEL_LENGTH));
+}
+
+// Unreadable entries are dropped rather than failing the whole list
+function parseTemplate(raw: unknown): ChartTemplate | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { id, name, title, layout, labels, pool } = raw as Record<string, unknown>;
+  if (typeof id !== "string" || typeof name !== "string" || typeof title !== "string") return null;
+  if (!isStringList(labels) || (pool !== undefined && !isStringList(pool))) return null;
+
+  try {
+    return {
+      id,
+      name,
+      title,
+      layout: parseLayout(layout),
+      labels: cleanLabels(labels),
+      pool: pool?.length ? cleanLabels(pool).filter(Boolean) : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function loadCustomTemplates(): ChartTemplate[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map(parseTemplate).filter((t): t is ChartTemplate => t !== null);
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomTemplates(templates: ChartTemplate[]) {
+  const stored = templates.map(({ id, name, title, layout, labels, pool }) => ({
+    id,
+    name,
+    title,
+    layout,
+    labels,
+    pool,
+  }));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
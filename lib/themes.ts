@@ -0,0 +1,247 @@
+import type { CSSProperties } from "react";
+
+// Visual style of the exported chart (title + grid). Everything outside the
+// export area keeps the app's own styles.
+
+export type LabelPosition = "top" | "bottom" | "below" | "hidden";
+// Where the cell's "Title (Year)" caption goes relative to its label
+export type CaptionPlacement = "none" | "above" | "below";
+
+export type ThemeBackground =
+  | { type: "color"; color: string }
+  | { type: "gradient"; from: string; to: string; angle: number }
+  // imageUrl is a data URL (uploaded) or a proxied cover URL
+  | { type: "image"; imageUrl: string; color: string };
+
+export type ChartTheme = {
+  background: ThemeBackground;
+  titleColor: string;
+  cellBackground: string;
+  border: { color: string; width: number; radius: number };
+  gap: number;
+  fontId: ChartFontId;
+  label: {
+    background: string;
+    opacity: number;
+    color: string;
+    position: LabelPosition;
+    caption: CaptionPlacement;
+  };
+};
+
+// Fonts the export can use. The web fonts are self-hosted through next/font in
+// app/layout.tsx (same origin, so html-to-image can embed them).
+export const CHART_FONTS = [
+  { id: "arial", label: "Arial", family: "Arial, sans-serif" },
+  { id: "georgia", label: "Georgia", family: "Georgia, serif" },
+  { id: "geist", label: "Geist", family: "var(--font-geist-sans), Arial, sans-serif" },
+  { id: "geist-mono", label: "Geist Mono", family: "var(--font-geist-mono), monospace" },
+  { id: "bebas", label: "Bebas Neue", family: "var(--font-bebas-neue), Impact, sans-serif" },
+  {
+    id: "press-start",
+    label: "Press Start 2P",
+    family: "var(--font-press-start-2p), monospace",
+  },
+] as const;
+
+export type ChartFontId = (typeof CHART_FONTS)[number]["id"];
+
+export const LABEL_POSITIONS: Array<{ value: LabelPosition; label: string }> = [
+  { value: "bottom", label: "Bottom" },
+  { value: "top", label: "Top" },
+  { value: "below", label: "Below cell" },
+  { value: "hidden", label: "Hidden" },
+];
+
+export const CAPTION_PLACEMENTS: Array<{ value: CaptionPlacement; label: string }> = [
+  { value: "none", label: "No caption" },
+  { value: "above", label: "Caption above label" },
+  { value: "below", label: "Caption below label" },
+];
+
+export const MAX_BORDER_WIDTH = 12;
+export const MAX_BORDER_RADIUS = 32;
+export const MAX_GRID_GAP = 48;
+
+export const THEME_PRESETS: Array<{ id: string; name: string; theme: ChartTheme }> = [
+  {
+    id: "classic",
+    name: "Classic",
+    theme: {
+      background: { type: "color", color: "#ffffff" },
+      titleColor: "#000000",
+      cellBackground: "#efefef",
+      border: { color: "#000000", width: 2, radius: 0 },
+      gap: 12,
+      fontId: "arial",
+      label: {
+        background: "#ffffff",
+        opacity: 0.88,
+        color: "#000000",
+        position: "bottom",
+        caption: "none",
+      },
+    },
+  },
+  {
+    id: "dark",
+    name: "Dark",
+    theme: {
+      background: { type: "gradient", from: "#1b1d24", to: "#0b0c10", angle: 160 },
+      titleColor: "#f5f5f5",
+      cellBackground: "#2a2d36",
+      border: { color: "#3c404c", width: 1, radius: 8 },
+      gap: 12,
+      fontId: "geist",
+      label: {
+        background: "#0b0c10",
+        opacity: 0.8,
+        color: "#f5f5f5",
+        position: "bottom",
+        caption: "none",
+      },
+    },
+  },
+  {
+    id: "minimalist",
+    name: "Minimalist",
+    theme: {
+      background: { type: "color", color: "#fafafa" },
+      titleColor: "#222222",
+      cellBackground: "#eeeeee",
+      border: { color: "#000000", width: 0, radius: 4 },
+      gap: 8,
+      fontId: "geist",
+      label: {
+        background: "#fafafa",
+        opacity: 1,
+        color: "#444444",
+        position: "below",
+        caption: "none",
+      },
+    },
+  },
+  {
+    id: "retro-pixel",
+    name: "Retro Pixel",
+    theme: {
+      background: { type: "color", color: "#20124d" },
+      titleColor: "#ffe66d",
+      cellBackground: "#2e1a6e",
+      border: { color: "#ffe66d", width: 4, radius: 0 },
+      gap: 10,
+      fontId: "press-start",
+      label: {
+        background: "#000000",
+        opacity: 0.85,
+        color: "#ffe66d",
+        position: "bottom",
+        caption: "none",
+      },
+    },
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0].theme;
+
+// The preset a theme was taken from, or null once it's been customised.
+// Captions are about content rather than looks, so they don't count.
+export function matchThemePreset(theme: ChartTheme) {
+  const json = JSON.stringify(withCaption(theme, "none"));
+  return THEME_PRESETS.find((p) => JSON.stringify(p.theme) === json)?.id ?? null;
+}
+
+export function withCaption(theme: ChartTheme, caption: CaptionPlacement): ChartTheme {
+  return theme.label.caption === caption ? theme : { ...theme, label: { ...theme.label, caption } };
+}
+
+export function fontFamily(fontId: ChartFontId) {
+  return (CHART_FONTS.find((f) => f.id === fontId) ?? CHART_FONTS[0]).family;
+}
+
+// "#rrggbb" + opacity -> "rgba(...)"; other color syntaxes are returned as-is
+export function withOpacity(hex: string, opacity: number) {
+  const m = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!m) return hex;
+  const [r, g, b] = m.slice(1).map((h) => parseInt(h, 16));
+  return `rgba(${r},${g},${b},${opacity})`;
+}
+
+export function backgroundStyle(background: ThemeBackground): CSSProperties {
+  if (background.type === "gradient") {
+    return {
+      background: `linear-gradient(${background.angle}deg, ${background.from}, ${background.to})`,
+    };
+  }
+  if (background.type === "image") {
+    return {
+      backgroundColor: background.color,
+      backgroundImage: `url(${background.imageUrl})`,
+      backgroundSize: "cover",
+      backgroundPosition: "center",
+    };
+  }
+  return { background: background.color };
+}
+
+// ====== Validation (for saved charts) ======
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function color(v: unknown, fallback: string) {
+  return typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v) ? v : fallback;
+}
+
+function number(v: unknown, fallback: number, min: number, max: number) {
+  return typeof v === "number" && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback;
+}
+
+// Best-effort: anything missing or malformed falls back to the default theme.
+// Image backgrounds are resolved by the caller (see lib/chartSchema.ts).
+export function parseTheme(raw: unknown, imageUrl?: string): ChartTheme {
+  if (!isRecord(raw)) return DEFAULT_THEME;
+  const d = DEFAULT_THEME;
+
+  const bg = isRecord(raw.background) ? raw.background : {};
+  let background: ThemeBackground = d.background;
+  if (bg.type === "color") {
+    background = { type: "color", color: color(bg.color, "#ffffff") };
+  } else if (bg.type === "gradient") {
+    background = {
+      type: "gradient",
+      from: color(bg.from, "#ffffff"),
+      to: color(bg.to, "#ffffff"),
+      angle: number(bg.angle, 180, 0, 360),
+    };
+  } else if (bg.type === "image" && imageUrl) {
+    background = { type: "image", imageUrl, color: color(bg.color, "#ffffff") };
+  }
+
+  const border = isRecord(raw.border) ? raw.border : {};
+  const label = isRecord(raw.label) ? raw.label : {};
+  const position = LABEL_POSITIONS.find((p) => p.value === label.position)?.value;
+  const caption = CAPTION_PLACEMENTS.find((p) => p.value === label.caption)?.value;
+  const fontId = CHART_FONTS.find((f) => f.id === raw.fontId)?.id;
+
+  return {
+    background,
+    titleColor: color(raw.titleColor, d.titleColor),
+    cellBackground: color(raw.cellBackground, d.cellBackground),
+    border: {
+      color: color(border.color, d.border.color),
+      width: number(border.width, d.border.width, 0, MAX_BORDER_WIDTH),
+      radius: number(border.radius, d.border.radius, 0, MAX_BORDER_RADIUS),
+    },
+    gap: number(raw.gap, d.gap, 0, MAX_GRID_GAP),
+    fontId: fontId ?? d.fontId,
+    label: {
+      background: color(label.background, d.label.background),
+      opacity: number(label.opacity, d.label.opacity, 0, 1),
+      color: color(label.color, d.label.color),
+      position: position ?? d.label.position,
+      caption: caption ?? d.label.caption,
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TIERS,
+  POOL_ROW,
+  addTier,
+  defaultTierList,
+  insertTierItems,
+  moveTier,
+  moveTierItem,
+  removeTier,
+  removeTierItem,
+  tierItemAt,
+  tierListItems,
+  updateTier,
+  updateTierItem,
+  type TierList,
+} from "./tierList";
+
+function item(label: string) {
+  return { label };
+}
+
+function labels(list: TierList) {
+  return {
+    rows: list.rows.map((r) => r.items.map((i) => i.label)),
+    pool: list.pool.map((i) => i.label),
+  };
+}
+
+// S: a b c, A: d, pool: e
+function sample() {
+  let list = defaultTierList();
+  list = insertTierItems(list, { row: 0 }, [item("a"), item("b"), item("c")]);
+  list = insertTierItems(list, { row: 1 }, [item("d")]);
+  return insertTierItems(list, { row: POOL_ROW }, [item("e")]);
+}
+
+describe("tier list items", () => {
+  it("inserts at an index, clamped to the row", () => {
+    const list = insertTierItems(sample(), { row: 0, index: 1 }, [item("x")]);
+    expect(labels(list).rows[0]).toEqual(["a", "x", "b", "c"]);
+    const end = insertTierItems(sample(), { row: 0, index: 99 }, [item("y")]);
+    expect(labels(end).rows[0]).toEqual(["a", "b", "c", "y"]);
+  });
+
+  it("reads, updates and removes items in rows and the pool", () => {
+    let list = sample();
+    expect(tierItemAt(list, { row: POOL_ROW, index: 0 })).toEqual(item("e"));
+
+    list = updateTierItem(list, { row: 1, index: 0 }, { imageUrl: "d.jpg" });
+    expect(list.rows[1].items[0]).toEqual({ label: "d", imageUrl: "d.jpg" });
+
+    list = removeTierItem(list, { row: 0, index: 1 });
+    expect(labels(list).rows[0]).toEqual(["a", "c"]);
+  });
+
+  it("ignores slots that don't exist", () => {
+    const list = sample();
+    expect(updateTierItem(list, { row: 0, index: 9 }, { label: "x" })).toBe(list);
+    expect(removeTierItem(list, { row: 7, index: 0 })).toBe(list);
+    expect(insertTierItems(list, { row: 7 }, [item("x")])).toBe(list);
+  });
+
+  it("moves an item later in the same row", () => {
+    // Before index 3 (the end) after removing "a" from index 0
+    const { list, slot } = moveTierItem(sample(), { row: 0, index: 0 }, { row: 0, index: 3 });
+    expect(labels(list).rows[0]).toEqual(["b", "c", "a"]);
+    expect(slot).toEqual({ row: 0, index: 2 });
+  });
+
+  it("moves an item earlier in the same row", () => {
+    const { list, slot } = moveTierItem(sample(), { row: 0, index: 2 }, { row: 0, index: 0 });
+    expect(labels(list).rows[0]).toEqual(["c", "a", "b"]);
+    expect(slot).toEqual({ row: 0, index: 0 });
+  });
+
+  it("moves an item between a row and the pool", () => {
+    const { list, slot } = moveTierItem(sample(), { row: POOL_ROW, index: 0 }, { row: 1 });
+    expect(labels(list).rows[1]).toEqual(["d", "e"]);
+    expect(list.pool).toEqual([]);
+    expect(slot).toEqual({ row: 1, index: 1 });
+  });
+
+  it("keeps the list when moving from or to nowhere", () => {
+    const start = sample();
+    const from = { row: 0, index: 9 };
+    expect(moveTierItem(start, from, { row: 1 })).toEqual({ list: start, slot: from });
+    expect(moveTierItem(start, { row: 0, index: 0 }, { row: 9 }).list).toBe(start);
+  });
+
+  it("lists ranked items first, then the pool", () => {
+    expect(tierListItems(sample()).map((i) => i.label)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
+
+describe("tiers", () => {
+  it("adds tiers with unused colors up to the limit", () => {
+    let list = defaultTierList();
+    const added = addTier(list);
+    expect(added.rows).toHaveLength(6);
+    expect(list.rows.map((r) => r.color)).not.toContain(added.rows[5].color);
+
+    while (list.rows.length < MAX_TIERS) list = addTier(list);
+    expect(addTier(list)).toBe(list);
+  });
+
+  it("sends a removed tier's items to the pool", () => {
+    const list = removeTier(sample(), 0);
+    expect(list.rows.map((r) => r.label)).toEqual(["A", "B", "C", "D"]);
+    expect(labels(list).pool).toEqual(["e", "a", "b", "c"]);
+  });
+
+  it("renames and reorders tiers", () => {
+    let list = updateTier(sample(), 1, { label: "Great", color: "#000000" });
+    expect(list.rows[1]).toMatchObject({ label: "Great", color: "#000000" });
+
+    list = moveTier(list, 1, 0);
+    expect(list.rows.map((r) => r.label).slice(0, 2)).toEqual(["Great", "S"]);
+    expect(moveTier(list, 0, list.rows.length)).toBe(list);
+  });
+});
@@ -0,0 +1,136 @@
+import type { CellData } from "./chart";
+
+// Tier list mode: labelled, colored rows of covers plus an unranked pool. Items
+// are plain CellData, so search, uploads, crops and captions work the same as
+// on the grid. Positions are (row, index) pairs; the pool is row POOL_ROW.
+
+export type ChartMode = "grid" | "tier";
+
+export type TierRow = {
+  label: string;
+  color: string; // #rrggbb
+  items: CellData[];
+};
+
+export type TierList = {
+  rows: TierRow[];
+  pool: CellData[];
+};
+
+export const POOL_ROW = -1;
+
+// Where an item is, or (without an index) the end of a row
+export type TierSlot = { row: number; index: number };
+export type TierTarget = { row: number; index?: number };
+
+export const MAX_TIERS = 12;
+export const MAX_TIER_LABEL_LENGTH = 40;
+
+// Classic S..D colors; new rows cycle through the extras
+const DEFAULT_TIERS: Array<Omit<TierRow, "items">> = [
+  { label: "S", color: "#ff7f7f" },
+  { label: "A", color: "#ffbf7f" },
+  { label: "B", color: "#ffdf7f" },
+  { label: "C", color: "#bfff7f" },
+  { label: "D", color: "#7fbfff" },
+];
+const EXTRA_TIER_COLORS = ["#7f7fff", "#ff7fff", "#bf7fbf", "#cfcfcf"];
+
+export function defaultTierList(): TierList {
+  return { rows: DEFAULT_TIERS.map((t) => ({ ...t, items: [] })), pool: [] };
+}
+
+function itemsOf(list: TierList, row: number) {
+  return row === POOL_ROW ? list.pool : list.rows[row]?.items;
+}
+
+function withItems(list: TierList, row: number, items: CellData[]): TierList {
+  if (row === POOL_ROW) return { ...list, pool: items };
+  return { ...list, rows: list.rows.map((r, i) => (i === row ? { ...r, items } : r)) };
+}
+
+export function tierItemAt(list: TierList, slot: TierSlot): CellData | undefined {
+  return itemsOf(list, slot.row)?.[slot.index];
+}
+
+export function updateTierItem(list: TierList, slot: TierSlot, patch: Partial<CellData>) {
+  const items = itemsOf(list, slot.row);
+  if (!items?.[slot.index]) return list;
+  return withItems(
+    list,
+    slot.row,
+    items.map((item, i) => (i === slot.index ? { ...item, ...patch } : item))
+  );
+}
+
+export function insertTierItems(list: TierList, target: TierTarget, added: CellData[]) {
+  const items = itemsOf(list, target.row);
+  if (!items) return list;
+  const at = Math.min(items.length, Math.max(0, target.index ?? items.length));
+  return withItems(list, target.row, [...items.slice(0, at), ...added, ...items.slice(at)]);
+}
+
+export function removeTierItem(list: TierList, slot: TierSlot) {
+  const items = itemsOf(list, slot.row);
+  if (!items?.[slot.index]) return list;
+  return withItems(
+    list,
+    slot.row,
+    items.filter((_, i) => i !== slot.index)
+  );
+}
+
+// Moves an item before `to.index` (or to the end of the row). Returns the
+// updated list and where the item ended up.
+export function moveTierItem(list: TierList, from: TierSlot, to: TierTarget) {
+  const item = tierItemAt(list, from);
+  if (!item || !itemsOf(list, to.row)) return { list, slot: from };
+
+  // Removing the item first shifts later positions in the same row
+  let index = to.index ?? itemsOf(list, to.row)!.length;
+  if (from.row === to.row && from.index < index) index--;
+
+  const removed = removeTierItem(list, from);
+  const targetItems = itemsOf(removed, to.row)!;
+  index = Math.min(targetItems.length, Math.max(0, index));
+  return {
+    list: insertTierItems(removed, { row: to.row, index }, [item]),
+    slot: { row: to.row, index },
+  };
+}
+
+export function addTier(list: TierList): TierList {
+  if (list.rows.length >= MAX_TIERS) return list;
+  const used = new Set(list.rows.map((r) => r.color));
+  const palette = [...DEFAULT_TIERS.map((t) => t.color), ...EXTRA_TIER_COLORS];
+  const color = palette.find((c) => !used.has(c)) ?? palette[list.rows.length % palette.length];
+  return { ...list, rows: [...list.rows, { label: "New", color, items: [] }] };
+}
+
+// Items in a removed row go back to the pool rather than disappearing
+export function removeTier(list: TierList, row: number): TierList {
+  const removed = list.rows[row];
+  if (!removed) return list;
+  return {
+    rows: list.rows.filter((_, i) => i !== row),
+    pool: [...list.pool, ...removed.items],
+  };
+}
+
+export function updateTier(list: TierList, row: number, patch: Partial<Omit<TierRow, "items">>) {
+  if (!list.rows[row]) return list;
+  return { ...list, rows: list.rows.map((r, i) => (i === row ? { ...r, ...patch } : r)) };
+}
+
+export function moveTier(list: TierList, row: number, to: number): TierList {
+  if (!list.rows[row] || to < 0 || to >= list.rows.length || to === row) return list;
+  const rows = [...list.rows];
+  const [moved] = rows.splice(row, 1);
+  rows.splice(to, 0, moved);
+  return { ...list, rows };
+}
+
+// Ranked rows first, then the pool
+export function tierListItems(list: TierList) {
+  return [...list.rows.flatMap((r) => r.items), ...list.pool];
+}
@@ -0,0 +1,108 @@
+// Uploaded images are decoded, downscaled and re-encoded before they go into the
+// chart. A full-size phone photo would otherwise sit in state (and drafts) as a
+// data URL of many MB and make every export slow.
+
+// Anything bigger is refused outright instead of being decoded
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Longest side after downscaling. Cells are a couple of hundred CSS pixels at
+// most, so this leaves room for a 4x export and some crop zoom.
+export const MAX_CELL_IMAGE_SIZE = 1000;
+// Theme backgrounds cover the whole chart
+export const MAX_BACKGROUND_IMAGE_SIZE = 2400;
+
+const UPLOAD_QUALITY = 0.85;
+
+// Thrown with a user-facing message
+export class UploadImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadImageError";
+  }
+}
+
+function formatMB(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Size to draw an image at so its longest side is at most `maxSize`
+export function fitImageSize(width: number, height: number, maxSize: number) {
+  const scale = Math.min(1, maxSize / Math.max(width, height, 1));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// The first image file in a paste or drop, if there is one
+export function imageFileFromClipboard(data: DataTransfer | null) {
+  for (const item of Array.from(data?.items ?? [])) {
+    if (item.kind === "file" && item.type.startsWith("image/")) return item.getAsFile();
+  }
+  return null;
+}
+
+// EXIF orientation is applied while decoding; animated GIFs keep their first frame
+async function decodeImage(file: Blob) {
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new UploadImageError(
+      "This browser can't read that image. Try a PNG, JPEG or WebP file (HEIC photos can be exported as JPEG from most photo apps)."
+    );
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mime: string) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mime, UPLOAD_QUALITY));
+}
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new UploadImageError("Failed to read the image file."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Returns the processed image as a data URL (WebP, or JPEG where the browser
+// can't encode WebP)
+export async function processUploadImage(file: File, maxSize = MAX_CELL_IMAGE_SIZE) {
+  if (!file.type.startsWith("image/")) {
+    throw new UploadImageError("Please upload an image file (png/jpg/webp/etc).");
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadImageError(
+      `That image is ${formatMB(file.size)}; uploads can be at most ${formatMB(MAX_UPLOAD_BYTES)}.`
+    );
+  }
+
+  const bitmap = await decodeImage(file);
+  const { width, height } = fitImageSize(bitmap.width, bitmap.height, maxSize);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    throw new UploadImageError("Canvas is not available, so the image can't be processed.");
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // Browsers without a WebP encoder (older Safari) silently hand back a PNG
+  let blob = await canvasToBlob(canvas, "image/webp");
+  if (blob?.type !== "image/webp") {
+    // JPEG has no transparency, so flatten onto white first
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    blob = await canvasToBlob(canvas, "image/jpeg");
+  }
+  if (!blob) throw new UploadImageError("Could not encode the image.");
+
+  return blobToDataUrl(blob);
+}
@@ -0,0 +1,57 @@
+import { createServer } from "node:http";
+import next from "next";
+import { WebSocketServer } from "ws";
+import { ROOM_ID_PATTERN, ROOM_PATH } from "./lib/room";
+import { RoomHub } from "./lib/roomServer";
+
+// Serves the app like `next dev` / `next start` and also hosts collaborative
+// rooms on the same port, so a room needs nothing beyond this process:
+//   npm run dev:rooms          (development)
+//   npm run build && npm run start:rooms
+//
+// A room is a set of last-writer-wins registers kept in memory (see lib/room.ts
+// for the protocol and lib/roomServer.ts for the rooms themselves).
+
+const dev = process.env.NODE_ENV !== "production";
+const hostname = process.env.HOSTNAME || "localhost";
+const port = Number(process.env.PORT) || 3000;
+
+// Uploaded covers travel inline, already downscaled by the browser
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+
+const app = next({ dev, hostname, port });
+const hub = new RoomHub();
+
+app.prepare().then(() => {
+  const handle = app.getRequestHandler();
+  const upgrade = app.getUpgradeHandler();
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const server = createServer((req, res) => handle(req, res));
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (!pathname.startsWith(`${ROOM_PATH}/`)) {
+      // Everything else (e.g. hot reload in development) belongs to Next
+      upgrade(req, socket, head);
+      return;
+    }
+
+    // Room ids are plain [a-z0-9-], so there is nothing to decode
+    const roomId = pathname.slice(ROOM_PATH.length + 1);
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const member = hub.join(roomId, ws);
+      if (!member) return;
+      ws.on("message", (data) => member.receive(String(data)));
+      ws.on("close", () => member.leave());
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://${hostname}:${port} (rooms enabled)`);
+  });
+});